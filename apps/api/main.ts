@@ -1,11 +1,20 @@
-import 'dotenv/config';
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './src/app.module';
+import { startTracing } from './src/tracing';
+import { AppConfig } from './src/config';
 
 async function bootstrap() {
+  // ConfigModule throws a ConfigError listing every invalid setting before anything starts
   const app = await NestFactory.create(AppModule, { logger: ['log', 'error', 'warn'] });
-  app.enableCors();
-  await app.listen(3000);
-  console.log('API listening on http://localhost:3000');
+  const config = app.get<ConfigService<AppConfig, true>>(ConfigService);
+  startTracing(config.get('tracing', { infer: true }));
+  // Any origin unless CORS_ORIGINS lists the allowed ones (comma-separated)
+  app.enableCors({
+    origin: config.get('corsOrigins', { infer: true }) || true,
+  });
+  const port = config.get('port', { infer: true });
+  await app.listen(port);
+  console.log(`API listening on http://localhost:${port}`);
 }
-bootstrap();
\ No newline at end of file
+bootstrap();
@@ -0,0 +1,113 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { withSpan } from './tracing';
+import { JsonSchemaProperty, LlmToolCall, LlmToolDefinition, QueryLimits } from './types';
+
+/**
+ * A tool the ReAct agent can call. `run` receives arguments that already match
+ * `parameters` and returns the observation handed back to the model, usually
+ * JSON; failures should be returned as `{ error }` rather than thrown.
+ */
+export interface AgentTool extends LlmToolDefinition {
+  run(args: Record<string, any>, context: AgentToolContext): Promise<string>;
+}
+
+// Per-run state a tool may need, e.g. limits for the SQL it executes
+export interface AgentToolContext {
+  limits?: QueryLimits;
+  signal?: AbortSignal;
+  datasource?: string;
+  role?: string;
+  // Whether the model may still ask the user a clarifying question
+  clarify?: boolean;
+}
+
+/**
+ * Tools available to the ReAct agent. Adding a tool means registering it
+ * here; the agent offers every registered tool to the model and dispatches
+ * its tool calls by name.
+ */
+@Injectable()
+export class AgentToolRegistry {
+  private readonly logger = new Logger(AgentToolRegistry.name);
+  private readonly tools = new Map<string, AgentTool>();
+
+  register(tool: AgentTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Agent tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    this.logger.log(`Registered agent tool: ${tool.name}`);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  definitions(): LlmToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  async execute(call: LlmToolCall, context: AgentToolContext = {}): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return JSON.stringify({
+        error: `Unknown tool: ${call.name}`,
+        availableTools: [...this.tools.keys()],
+      });
+    }
+    if (call.argsError) {
+      return JSON.stringify({
+        error: `Invalid JSON arguments: ${call.argsError}`,
+        tool: call.name,
+      });
+    }
+
+    const problem = this.checkArguments(tool, call.args);
+    if (problem) {
+      return JSON.stringify({ error: problem, tool: call.name });
+    }
+    return withSpan(`agent.tool ${call.name}`, { 'agent.tool': call.name }, () =>
+      tool.run(call.args, context),
+    );
+  }
+
+  // Catches the mistakes models actually make: missing, mistyped or out-of-enum arguments
+  private checkArguments(tool: AgentTool, args: Record<string, any>): string | null {
+    const { properties, required = [] } = tool.parameters;
+    for (const name of required) {
+      if (args[name] === undefined || args[name] === null || args[name] === '') {
+        return `Missing required argument: ${name}`;
+      }
+    }
+
+    for (const [name, value] of Object.entries(args)) {
+      const property = properties[name];
+      if (!property) {
+        return `Unknown argument: ${name}`;
+      }
+      if (value === undefined || value === null) continue;
+
+      if (!this.hasType(value, property)) {
+        return `Argument ${name} must be of type ${property.type}`;
+      }
+      if (property.enum && !property.enum.includes(value)) {
+        return `Argument ${name} must be one of: ${property.enum.join(', ')}`;
+      }
+    }
+    return null;
+  }
+
+  private hasType(value: unknown, property: JsonSchemaProperty): boolean {
+    if (property.type === 'array') {
+      return (
+        Array.isArray(value) &&
+        (!property.items || value.every((item) => this.hasType(item, property.items)))
+      );
+    }
+    return property.type === 'integer' ? Number.isInteger(value) : typeof value === property.type;
+  }
+}
@@ -0,0 +1,165 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { LLM_PROVIDER, LlmProvider } from './llm.provider';
+import { QueryCancelledError } from './query-run';
+import { textValue } from './result-export';
+import { PageInfo } from './types';
+import { AppConfig } from './config';
+
+export interface AnswerInput {
+  prompt: string;
+  sql: string[];
+  rows: any[];
+  truncated?: boolean;
+  page?: PageInfo;
+}
+
+// Thousands-separated numbers first, so "1,234" is one number but "1,2" is two
+const NUMBER_PATTERN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+const NUMERIC_TEXT = /^-?\d+(?:\.\d+)?$/;
+const KEY_COLUMN = /^id$|_id$/i;
+
+/**
+ * Writes a short natural-language answer from the result rows. Aggregates are
+ * computed here, not by the model, and every number in the model's answer must
+ * appear in the question, the facts or the rows it was shown; otherwise a plain
+ * summary built from the facts is returned instead.
+ */
+@Injectable()
+export class AnswerSynthesisService {
+  private readonly logger = new Logger(AnswerSynthesisService.name);
+
+  constructor(
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  // Per-request `answer` wins over ANSWER_SYNTHESIS_ENABLED (on by default)
+  isEnabled(requested?: boolean): boolean {
+    if (typeof requested === 'boolean') return requested;
+    return this.config.get('answers', { infer: true }).enabled;
+  }
+
+  async synthesize(
+    input: AnswerInput,
+    options: { signal?: AbortSignal; model?: string } = {},
+  ): Promise<string> {
+    const facts = this.computeFacts(input);
+    if (input.rows.length === 0) {
+      return 'No rows matched the question.';
+    }
+
+    const sample = input.rows.slice(0, this.sampleSize());
+    const sampleText = JSON.stringify(sample, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value,
+    );
+    try {
+      const completion = await this.llm.invoke(
+        [
+          new SystemMessage(`You answer questions about a database query result for business users.
+Answer the question using only the query result below, in one to three plain sentences.
+Every number you write must appear in the facts or the rows; do not estimate, round or calculate new numbers.
+If the rows are only part of the result, say so. Do not mention SQL, tables or columns by their technical names unless needed.`),
+          new HumanMessage(`Question: ${input.prompt}
+
+SQL:
+${input.sql.join('\n')}
+
+Facts:
+${facts.map((fact) => `- ${fact}`).join('\n')}
+
+Rows (${sample.length} of ${input.rows.length} returned):
+${sampleText}`),
+        ],
+        { signal: options.signal, model: options.model },
+      );
+
+      const answer = completion.content.trim();
+      const ungrounded = this.ungroundedNumbers(answer, [input.prompt, ...facts, sampleText]);
+      if (answer && ungrounded.length === 0) {
+        return answer;
+      }
+      this.logger.warn(
+        answer
+          ? `Answer used numbers not in the result (${ungrounded.join(', ')}), using a summary`
+          : 'Model returned an empty answer, using a summary',
+      );
+    } catch (error) {
+      if (options.signal?.aborted) throw new QueryCancelledError();
+      this.logger.warn(`Answer synthesis failed, using a summary: ${error.message}`);
+    }
+    return this.summarize(input, facts);
+  }
+
+  private computeFacts(input: AnswerInput): string[] {
+    const { rows, page, truncated } = input;
+    const facts: string[] = [];
+
+    if (page && page.totalExact) {
+      facts.push(`Total rows: ${page.offset + rows.length}`);
+    } else if (page) {
+      const total =
+        page.totalRows === null ? ', more rows exist' : ` of about ${page.totalRows}, estimated`;
+      facts.push(
+        `Rows returned: ${rows.length} (rows ${page.offset + 1} to ${page.offset + rows.length}${total})`,
+      );
+    } else {
+      facts.push(`Rows returned: ${rows.length}${truncated ? ' (capped, more rows exist)' : ''}`);
+    }
+    if (rows.length < 2) return facts;
+
+    // Aggregates over the returned rows for numeric columns; sums of keys mean nothing
+    const partial = truncated || (page && !page.totalExact) ? ' in the returned rows' : '';
+    for (const column of Object.keys(rows[0]).filter((name) => !KEY_COLUMN.test(name))) {
+      const values = rows.map((row) => row[column]).filter((value) => value !== null);
+      if (values.length === 0) continue;
+      if (values.every((value) => typeof value === 'number' || NUMERIC_TEXT.test(String(value)))) {
+        const numbers = values.map(Number);
+        const sum = numbers.reduce((total, value) => total + value, 0);
+        facts.push(
+          `${column}${partial}: sum ${this.format(sum)}, min ${this.format(Math.min(...numbers))}, max ${this.format(Math.max(...numbers))}, average ${this.format(sum / numbers.length)}`,
+        );
+      } else if (values.every((value) => value instanceof Date)) {
+        const times = values.map((value: Date) => value.getTime());
+        facts.push(
+          `${column}${partial}: earliest ${textValue(new Date(Math.min(...times)))}, latest ${textValue(new Date(Math.max(...times)))}`,
+        );
+      }
+    }
+    return facts;
+  }
+
+  // Numbers in the answer that none of the sources contain (allowing for rounding)
+  private ungroundedNumbers(answer: string, sources: string[]): string[] {
+    const known = sources.flatMap((source) => this.numbersIn(source));
+    return (answer.match(NUMBER_PATTERN) || []).filter((token: string) => {
+      const value = Number(token.replace(/,/g, ''));
+      const decimals = (token.split('.')[1] || '').length;
+      const tolerance = 0.5 * Math.pow(10, -decimals);
+      return !known.some((candidate) => Math.abs(candidate - value) <= tolerance);
+    });
+  }
+
+  private numbersIn(text: string): number[] {
+    return (text.match(NUMBER_PATTERN) || []).map((token) => Number(token.replace(/,/g, '')));
+  }
+
+  private summarize(input: AnswerInput, facts: string[]): string {
+    const [first] = input.rows;
+    const columns = Object.keys(first);
+    if (input.rows.length === 1 && columns.length <= 5) {
+      return `Result: ${columns.map((column) => `${column} = ${textValue(first[column])}`).join(', ')}.`;
+    }
+    // The row count; the per-column aggregates are there to ground the model
+    return `${facts[0]}.`;
+  }
+
+  private format(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+
+  private sampleSize(): number {
+    return this.config.get('answers', { infer: true }).sampleRows;
+  }
+}
@@ -0,0 +1,27 @@
+import { ArgumentsHost, Catch, ExceptionFilter, Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { toErrorBody } from './errors';
+
+/**
+ * Renders every error as an ApiErrorBody:
+ * `{ statusCode, code, message, ...details }`. Server errors are logged
+ * with their stack; a response already under way (an export or a stream)
+ * is just ended.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(error: any, host: ArgumentsHost) {
+    const res = host.switchToHttp().getResponse<Response>();
+    const body = toErrorBody(error);
+    if (body.statusCode >= 500) {
+      this.logger.error(`${body.code}: ${error?.message}`, error?.stack);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(body.statusCode).json(body);
+  }
+}
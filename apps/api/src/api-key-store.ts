@@ -0,0 +1,46 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { ApiKey, ApiKeyStoreName, ApiKeyUsage } from './types';
+import { AppConfigService } from './config';
+import { MemoryApiKeyStore } from './memory-api-key-store';
+import { PgApiKeyStore } from './pg-api-key-store';
+
+export const API_KEY_STORE = 'API_KEY_STORE';
+
+/**
+ * Persistence for API keys and their daily usage. Only a hash of each secret
+ * is stored. Inject it with `@Inject(API_KEY_STORE)`; the implementation is
+ * chosen by API_KEY_STORE.
+ */
+export interface ApiKeyStore {
+  readonly name: ApiKeyStoreName;
+  create(key: ApiKey, secretHash: string): Promise<void>;
+  get(id: string): Promise<ApiKey | null>;
+  findBySecretHash(secretHash: string): Promise<ApiKey | null>;
+  list(): Promise<ApiKey[]>;
+  revoke(id: string, revokedAt: string): Promise<boolean>;
+  // Adds to the key's totals for the day
+  addUsage(id: string, usage: ApiKeyUsage): Promise<void>;
+  // Days on or after `since` (YYYY-MM-DD), newest first
+  usage(id: string, since: string): Promise<ApiKeyUsage[]>;
+}
+
+export function createApiKeyStore(db: DbService, config: AppConfigService): ApiKeyStore {
+  const logger = new Logger('ApiKeyStore');
+  const name = config.get('stores', { infer: true }).apiKeys;
+
+  let store: ApiKeyStore;
+  switch (name) {
+    case 'memory':
+      store = new MemoryApiKeyStore();
+      break;
+    case 'postgres':
+      store = new PgApiKeyStore(db);
+      break;
+    default:
+      throw new Error(`Unknown API_KEY_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} API key store`);
+  return store;
+}
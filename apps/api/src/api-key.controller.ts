@@ -0,0 +1,33 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, UseGuards } from '@nestjs/common';
+import { ApiKeyService } from './api-key.service';
+import { AdminKeyGuard } from './api-key.guard';
+import { ValidBody } from './validation';
+import { parseIssueApiKeyRequest } from './query-request';
+import { IssueApiKeyRequest } from './types';
+
+@Controller('api/admin/keys')
+@UseGuards(AdminKeyGuard)
+export class ApiKeyController {
+  constructor(private readonly apiKeys: ApiKeyService) {}
+
+  @Post()
+  async issue(@Body(ValidBody(parseIssueApiKeyRequest)) body: IssueApiKeyRequest) {
+    return await this.apiKeys.issue(body);
+  }
+
+  @Get()
+  async list() {
+    return await this.apiKeys.list();
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return await this.apiKeys.get(id);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async revoke(@Param('id') id: string) {
+    await this.apiKeys.revoke(id);
+  }
+}
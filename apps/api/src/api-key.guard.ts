@@ -0,0 +1,125 @@
+import {
+  CallHandler,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Observable, finalize, from, lastValueFrom, map } from 'rxjs';
+import { ApiKeyService, RateLimitExceededError } from './api-key.service';
+import { LlmUsageTotals, meterLlmUsage } from './llm-usage';
+import { ApiKey, QueryCaller } from './types';
+import { AppConfig } from './config';
+
+type KeyedRequest = Request & { apiKey?: ApiKey };
+
+// X-API-Key, or a bearer token
+function presentedSecret(request: Request): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization || '');
+  return match?.[1];
+}
+
+/**
+ * Authenticates the caller by API key and applies the key's rate limit and
+ * token budget. Lets every request through unless API_KEYS_ENABLED=true.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly apiKeys: ApiKeyService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.apiKeys.enabled) return true;
+
+    const request = context.switchToHttp().getRequest<KeyedRequest>();
+    const key = await this.apiKeys.authenticate(presentedSecret(request));
+    try {
+      await this.apiKeys.admit(key);
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        context
+          .switchToHttp()
+          .getResponse<Response>()
+          .setHeader('Retry-After', String(error.retryAfterSeconds));
+      }
+      throw error;
+    }
+    request.apiKey = key;
+    return true;
+  }
+}
+
+/**
+ * Meters the LLM tokens spent by a keyed request and books them, with the
+ * request itself, against the key's daily usage.
+ */
+@Injectable()
+export class ApiKeyUsageInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ApiKeyUsageInterceptor.name);
+
+  constructor(private readonly apiKeys: ApiKeyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const key = context.switchToHttp().getRequest<KeyedRequest>().apiKey;
+    if (!key) return next.handle();
+
+    const usage: LlmUsageTotals = {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    };
+    return from(meterLlmUsage(() => lastValueFrom(next.handle()), usage)).pipe(
+      map(({ result }) => result),
+      finalize(() => {
+        this.apiKeys
+          .recordUsage(key, usage)
+          .catch((error) => this.logger.error(`Failed to record API key usage: ${error.message}`));
+      }),
+    );
+  }
+}
+
+// The admin routes take ADMIN_API_KEY, and are closed while it is unset
+@Injectable()
+export class AdminKeyGuard implements CanActivate {
+  constructor(private readonly config: ConfigService<AppConfig, true>) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { adminKey } = this.config.get('apiKeys', { infer: true });
+    if (!adminKey) {
+      throw new ForbiddenException('The admin API is disabled (ADMIN_API_KEY is not set)');
+    }
+    const secret = presentedSecret(context.switchToHttp().getRequest<Request>()) || '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!timingSafeEqual(digest(secret), digest(adminKey))) {
+      throw new UnauthorizedException('Invalid admin key');
+    }
+    return true;
+  }
+}
+
+/**
+ * The caller's API key and the access policy role bound to it. The role is
+ * never read from the request: without a key (or a key without a role) it
+ * stays unset, and PolicyService falls back to the policy's defaultRole.
+ */
+export const Caller = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): QueryCaller => {
+    const key = context.switchToHttp().getRequest<KeyedRequest>().apiKey;
+    return key ? { keyId: key.id, keyName: key.name, role: key.role } : {};
+  },
+);
+
+// Owner of a caller's sessions and saved queries: its API key, or one shared owner without keys
+export function ownerOf(caller: QueryCaller): string {
+  return caller.keyId ? `key:${caller.keyId}` : 'anonymous';
+}
@@ -0,0 +1,44 @@
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyService } from './api-key.service';
+import { AppConfig } from './config';
+import { RequestValidationError } from './errors';
+import { MemoryApiKeyStore } from './memory-api-key-store';
+import { PolicyService } from './policy.service';
+
+describe('ApiKeyService', () => {
+  const config = new ConfigService<AppConfig, true>({
+    apiKeys: { enabled: true, requestsPerMinute: 60, dailyTokenBudget: 100000 },
+  });
+  const keysFor = (roles: string[] | null) =>
+    new ApiKeyService(
+      new MemoryApiKeyStore(),
+      { roles: () => roles } as unknown as PolicyService,
+      config,
+    );
+
+  beforeAll(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+
+  it('issues a key with the configured limits and a secret that authenticates', async () => {
+    const keys = keysFor(['analyst']);
+    const key = await keys.issue({ name: 'reporting', role: 'analyst' });
+
+    expect(key).toMatchObject({ role: 'analyst', requestsPerMinute: 60, dailyTokenBudget: 100000 });
+    expect(key.secret.startsWith(key.prefix)).toBe(true);
+    expect(await keys.authenticate(key.secret)).toMatchObject({ id: key.id, name: 'reporting' });
+  });
+
+  it('rejects a role the access policies do not define', async () => {
+    const issued = keysFor(['analyst', 'support']).issue({ name: 'reporting', role: 'admin' });
+
+    await expect(issued).rejects.toBeInstanceOf(RequestValidationError);
+    await expect(issued).rejects.toMatchObject({
+      errors: [{ field: 'role', message: 'must be one of analyst, support' }],
+    });
+  });
+
+  it('takes any role without access policies', async () => {
+    await expect(keysFor(null).issue({ name: 'reporting', role: 'admin' })).resolves.toMatchObject({
+      role: 'admin',
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { API_KEY_STORE, ApiKeyStore } from './api-key-store';
+import { LlmUsageTotals } from './llm-usage';
+import { ApiError, RequestValidationError } from './errors';
+import { PolicyService } from './policy.service';
+import { ApiKey, ApiKeyDetails, ApiKeyUsage, IssueApiKeyRequest } from './types';
+import { AppConfig } from './config';
+
+const SECRET_PREFIX = 'sqa_';
+const USAGE_HISTORY_DAYS = 30;
+
+export class RateLimitExceededError extends ApiError {
+  constructor(
+    reason: string,
+    readonly limit: number,
+    readonly resetAt: Date,
+  ) {
+    super('RATE_LIMITED', HttpStatus.TOO_MANY_REQUESTS, `Rate limit: ${reason}`, {
+      limit,
+      resetAt: resetAt.toISOString(),
+    });
+  }
+
+  // Whole seconds until the limit resets, for the Retry-After header
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * API keys for the query routes (when API_KEYS_ENABLED=true), each with a
+ * requests-per-minute limit and a daily LLM token budget. The rate limit is
+ * counted per instance in fixed one-minute windows; token usage comes from
+ * the LLM providers' usage metadata and is kept in the key store, so the
+ * budget holds across instances with API_KEY_STORE=postgres. The budget is
+ * checked before a request starts; the request that crosses it still finishes.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly windows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    @Inject(API_KEY_STORE) private readonly store: ApiKeyStore,
+    private readonly policies: PolicyService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.get('apiKeys', { infer: true }).enabled;
+  }
+
+  // The secret is only ever returned here; the body was checked by parseIssueApiKeyRequest
+  async issue(request: IssueApiKeyRequest): Promise<ApiKey & { secret: string }> {
+    const roles = this.policies.roles();
+    if (request.role && roles && !roles.includes(request.role)) {
+      throw new RequestValidationError([
+        { field: 'role', message: `must be one of ${roles.join(', ')}` },
+      ]);
+    }
+    const defaults = this.config.get('apiKeys', { infer: true });
+    const requestsPerMinute = request.requestsPerMinute ?? defaults.requestsPerMinute;
+    const dailyTokenBudget = request.dailyTokenBudget ?? defaults.dailyTokenBudget;
+
+    const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const key: ApiKey = {
+      id: randomUUID(),
+      name: request.name,
+      prefix: secret.slice(0, SECRET_PREFIX.length + 6),
+      role: request.role || undefined,
+      requestsPerMinute,
+      dailyTokenBudget,
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.create(key, hashSecret(secret));
+    this.logger.log(`Issued API key ${key.prefix}… (${key.name})`);
+    return { ...key, secret };
+  }
+
+  async revoke(id: string): Promise<void> {
+    if (!(await this.store.revoke(id, new Date().toISOString()))) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    this.windows.delete(id);
+    this.logger.log(`Revoked API key ${id}`);
+  }
+
+  // Every key with today's usage
+  async list(): Promise<ApiKeyDetails[]> {
+    const keys = await this.store.list();
+    return await Promise.all(
+      keys.map(async (key) => ({ ...key, usage: await this.store.usage(key.id, utcDay()) })),
+    );
+  }
+
+  // One key with its usage over the last USAGE_HISTORY_DAYS days
+  async get(id: string): Promise<ApiKeyDetails> {
+    const key = await this.store.get(id);
+    if (!key) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    const since = new Date(Date.now() - (USAGE_HISTORY_DAYS - 1) * 86_400_000);
+    return { ...key, usage: await this.store.usage(id, utcDay(since)) };
+  }
+
+  async authenticate(secret: string | undefined): Promise<ApiKey> {
+    if (!secret) {
+      throw new UnauthorizedException('An API key is required (X-API-Key header)');
+    }
+    const key = await this.store.findBySecretHash(hashSecret(secret));
+    if (!key || key.revokedAt) {
+      throw new UnauthorizedException('Invalid or revoked API key');
+    }
+    return key;
+  }
+
+  // Counts the request against the key's limits, or throws when one is used up
+  async admit(key: ApiKey): Promise<void> {
+    const now = Date.now();
+    if (key.requestsPerMinute > 0) {
+      let window = this.windows.get(key.id);
+      if (!window || now - window.start >= 60_000) {
+        window = { start: now, count: 0 };
+        this.windows.set(key.id, window);
+      }
+      if (window.count >= key.requestsPerMinute) {
+        throw new RateLimitExceededError(
+          `more than ${key.requestsPerMinute} requests per minute`,
+          key.requestsPerMinute,
+          new Date(window.start + 60_000),
+        );
+      }
+      window.count++;
+    }
+
+    if (key.dailyTokenBudget > 0) {
+      const [today] = await this.store.usage(key.id, utcDay());
+      if (today && today.totalTokens >= key.dailyTokenBudget) {
+        const midnight = new Date(now);
+        midnight.setUTCHours(24, 0, 0, 0);
+        throw new RateLimitExceededError(
+          `daily budget of ${key.dailyTokenBudget} LLM tokens used up`,
+          key.dailyTokenBudget,
+          midnight,
+        );
+      }
+    }
+  }
+
+  async recordUsage(key: ApiKey, usage: LlmUsageTotals): Promise<void> {
+    const entry: ApiKeyUsage = {
+      day: utcDay(),
+      requests: 1,
+      llmCalls: usage.calls,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+    };
+    await this.store.addUsage(key.id, entry);
+  }
+}
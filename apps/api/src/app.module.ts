@@ -1,13 +1,114 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { loadConfig } from './config';
 import { QueryController } from './query.controller';
 import { DbService } from './db.service';
 import { Nl2SqlService } from './nl2sql.service';
 import { ReactAgentService } from './react-agent.service';
-import { PineconeService } from './pinecone.service';
 import { TableEmbeddingsService } from './table-embeddings.service';
+import { SqlGuardService } from './sql-guard.service';
+import { SqlErrorAnalyzerService } from './sql-error-analyzer.service';
+import { SchemaController } from './schema.controller';
+import { SchemaAdminController } from './schema-admin.controller';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { SchemaLinkerService } from './schema-linker.service';
+import { LLM_PROVIDER, createLlmProvider } from './llm.provider';
+import { EMBEDDING_PROVIDER, createEmbeddingProvider } from './embedding.provider';
+import { VECTOR_STORE, createVectorStore } from './vector-store';
+import { SessionController } from './session.controller';
+import { DatasourceController } from './datasource.controller';
+import { DatasourceRegistry } from './datasource-registry';
+import { SessionService } from './session.service';
+import { PaginationService } from './pagination.service';
+import { AnswerSynthesisService } from './answer-synthesis.service';
+import { PolicyService } from './policy.service';
+import { SESSION_STORE, createSessionStore } from './session-store';
+import { AgentToolRegistry } from './agent-tools';
+import { ApiKeyController } from './api-key.controller';
+import { ApiKeyService } from './api-key.service';
+import { API_KEY_STORE, createApiKeyStore } from './api-key-store';
+import { HistoryController } from './history.controller';
+import { QueryHistoryService } from './query-history.service';
+import { HISTORY_STORE, createHistoryStore } from './history-store';
+import { SavedQueryController } from './saved-query.controller';
+import { SavedQueryService } from './saved-query.service';
+import { SAVED_QUERY_STORE, createSavedQueryStore } from './saved-query-store';
+import { FeedbackController } from './feedback.controller';
+import { FeedbackAdminController } from './feedback-admin.controller';
+import { FewShotService } from './few-shot.service';
+import { SqlExplainService } from './sql-explain.service';
+import { FEEDBACK_STORE, createFeedbackStore } from './feedback-store';
+import { ApiExceptionFilter } from './api-exception.filter';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
 
 @Module({
-  controllers: [QueryController],
-  providers: [DbService, Nl2SqlService, ReactAgentService, PineconeService, TableEmbeddingsService],
+  // Reads .env and fails startup with a ConfigError listing every invalid setting
+  imports: [ConfigModule.forRoot({ isGlobal: true, validate: loadConfig })],
+  controllers: [
+    QueryController,
+    SchemaController,
+    SchemaAdminController,
+    SessionController,
+    DatasourceController,
+    ApiKeyController,
+    HistoryController,
+    SavedQueryController,
+    FeedbackController,
+    FeedbackAdminController,
+    HealthController,
+  ],
+  providers: [
+    DatasourceRegistry,
+    DbService,
+    Nl2SqlService,
+    ReactAgentService,
+    TableEmbeddingsService,
+    SqlGuardService,
+    SqlErrorAnalyzerService,
+    SchemaCatalogService,
+    SchemaLinkerService,
+    SessionService,
+    PaginationService,
+    AnswerSynthesisService,
+    PolicyService,
+    ApiKeyService,
+    QueryHistoryService,
+    SavedQueryService,
+    FewShotService,
+    SqlExplainService,
+    HealthService,
+    AgentToolRegistry,
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+    { provide: LLM_PROVIDER, useFactory: createLlmProvider, inject: [ConfigService] },
+    { provide: EMBEDDING_PROVIDER, useFactory: createEmbeddingProvider, inject: [ConfigService] },
+    {
+      provide: VECTOR_STORE,
+      useFactory: createVectorStore,
+      inject: [DbService, EMBEDDING_PROVIDER, ConfigService],
+    },
+    {
+      provide: SESSION_STORE,
+      useFactory: createSessionStore,
+      inject: [DbService, ConfigService],
+    },
+    { provide: API_KEY_STORE, useFactory: createApiKeyStore, inject: [DbService, ConfigService] },
+    {
+      provide: HISTORY_STORE,
+      useFactory: createHistoryStore,
+      inject: [DbService, ConfigService],
+    },
+    {
+      provide: SAVED_QUERY_STORE,
+      useFactory: createSavedQueryStore,
+      inject: [DbService, ConfigService],
+    },
+    {
+      provide: FEEDBACK_STORE,
+      useFactory: createFeedbackStore,
+      inject: [DbService, ConfigService],
+    },
+  ],
 })
 export class AppModule {}
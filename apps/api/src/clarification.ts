@@ -0,0 +1,72 @@
+import { HttpStatus } from '@nestjs/common';
+import { ApiError } from './errors';
+import { Clarification, ClarificationAnswer, ClarificationReason, QueryRunOptions } from './types';
+import { AppConfig } from './config';
+
+const REASONS: ClarificationReason[] = ['entity', 'time_range', 'column'];
+const MAX_OPTIONS = 6;
+
+/**
+ * The model found the question ambiguous and asks instead of guessing.
+ * /api/query answers it with a `clarification`; elsewhere (exports,
+ * replays) it is a 422 carrying the same clarification.
+ */
+export class ClarificationNeededError extends ApiError {
+  constructor(readonly clarification: Clarification) {
+    super(
+      'CLARIFICATION_NEEDED',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      `Clarification needed: ${clarification.question}`,
+      { clarification },
+    );
+  }
+}
+
+/**
+ * Whether the model may still ask: CLARIFICATION_ENABLED is not false and
+ * fewer than CLARIFICATION_MAX_ROUNDS questions were answered, so a run
+ * never asks forever.
+ */
+export function canClarify(
+  run: QueryRunOptions,
+  { enabled, maxRounds }: AppConfig['clarification'],
+): boolean {
+  return enabled && (run.clarifications?.length || 0) < maxRounds;
+}
+
+// Renders the answered questions for the prompt; empty when there are none
+export function formatClarifications(answers: ClarificationAnswer[] = []): string {
+  if (answers.length === 0) return '';
+  return [
+    'Clarified by the user (apply these, do not ask about them again):',
+    ...answers.map((item) => `- ${item.question} → ${item.answer}`),
+  ].join('\n');
+}
+
+// A clarification from model output or tool arguments, or null when it is not one
+export function toClarification(raw: any): Clarification | null {
+  if (!raw || typeof raw.question !== 'string' || !raw.question.trim()) return null;
+  const options = Array.isArray(raw.options)
+    ? raw.options.filter((option: unknown) => typeof option === 'string' && option.trim())
+    : [];
+  return {
+    question: raw.question.trim(),
+    reason: REASONS.includes(raw.reason) ? raw.reason : 'entity',
+    options: options.slice(0, MAX_OPTIONS).map((option: string) => option.trim()),
+  };
+}
+
+// Direct mode asks with `{"clarification": {...}}` in place of SQL
+export function parseClarification(text: string): Clarification | null {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?/i, '')
+    .replace(/```$/, '')
+    .trim();
+  if (!json.startsWith('{')) return null;
+  try {
+    return toClarification(JSON.parse(json).clarification);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,112 @@
+import { ConfigError, loadConfig } from './config';
+
+describe('loadConfig', () => {
+  // What the fixture app runs with: no provider needs an API key
+  const OFFLINE = { LLM_PROVIDER: 'fixture', EMBEDDING_PROVIDER: 'hash', VECTOR_STORE: 'memory' };
+
+  const problems = (env: Record<string, string>): string[] => {
+    try {
+      loadConfig(env);
+    } catch (error) {
+      if (error instanceof ConfigError) return error.problems;
+      throw error;
+    }
+    return [];
+  };
+
+  it('takes the defaults for unset and empty variables', () => {
+    const config = loadConfig({ ...OFFLINE, SQL_MAX_ROWS: '', REACT_MODE_ENABLED: ' ' });
+
+    expect(config.port).toBe(3000);
+    expect(config.sql.maxRows).toBe(1000);
+    expect(config.react.enabled).toBe(false);
+    expect(config.query.overrides).toContain('maxRows');
+    expect(config.sessions.store).toBe('memory');
+  });
+
+  it('reads typed values', () => {
+    const config = loadConfig({
+      ...OFFLINE,
+      API_PORT: '8080',
+      ALLOW_WRITE_SQL: 'TRUE',
+      FEW_SHOT_MIN_SCORE: '0.75',
+      OPENAI_MODEL: 'gpt-4o',
+      LLM_ALLOWED_MODELS: 'gpt-4o-mini, gpt-4o',
+      QUERY_OVERRIDES: 'maxRows,model',
+      DATASOURCES: '{"crm": {"driver": "sqlite", "path": "crm.sqlite"}}',
+    });
+
+    expect(config.port).toBe(8080);
+    expect(config.sql.allowWrites).toBe(true);
+    expect(config.fewShot.minScore).toBe(0.75);
+    expect(config.llm.allowedModels).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    expect(config.query.overrides).toEqual(['maxRows', 'model']);
+    expect(config.datasources).toEqual({ crm: { driver: 'sqlite', path: 'crm.sqlite' } });
+  });
+
+  it('lists every invalid setting at once', () => {
+    expect(
+      problems({
+        ...OFFLINE,
+        API_PORT: '70000',
+        SQL_MAX_ROWS: 'many',
+        LLM_TEMPERATURE: 'hot',
+        REACT_MODE_ENABLED: 'yes',
+        SESSION_STORE: 'redis',
+        DATASOURCES: '[]',
+        QUERY_OVERRIDES: 'maxRows,allowWrites',
+      }),
+    ).toEqual([
+      expect.stringMatching(
+        /^QUERY_OVERRIDES may only list .*maxRows.* \(got "maxRows,allowWrites"\)$/,
+      ),
+      'API_PORT must be at most 65535 (got "70000")',
+      'LLM_TEMPERATURE must be a number (got "hot")',
+      'DATASOURCES must be a JSON object (got "[]")',
+      'SQL_MAX_ROWS must be an integer (got "many")',
+      'REACT_MODE_ENABLED must be true or false (got "yes")',
+      'SESSION_STORE must be one of memory, postgres (got "redis")',
+    ]);
+  });
+
+  it('checks every DATASOURCES entry', () => {
+    expect(
+      problems({
+        ...OFFLINE,
+        DATASOURCES: JSON.stringify({
+          crm: { driver: 'mysql', dialect: 'postgresql' },
+          local: { driver: 'sqlite', url: 'file.sqlite', poolSize: 0 },
+          legacy: { driver: 'oracle', url: 'oracle://db' },
+          warehouse: { driver: 'mysql', dialect: 'mariadb', url: 'mysql://db/warehouse' },
+          broken: 'postgres://db',
+        }),
+      }),
+    ).toEqual([
+      'DATASOURCES.crm: dialect must be mysql or mariadb with driver mysql (got "postgresql")',
+      'DATASOURCES.crm: url is required with driver mysql',
+      'DATASOURCES.local: path is required with driver sqlite',
+      'DATASOURCES.local: poolSize must be a positive integer (got "0")',
+      'DATASOURCES.legacy: driver must be one of postgres, mysql, sqlite (got "oracle")',
+      'DATASOURCES.broken: must be an object with a driver',
+    ]);
+  });
+
+  it('requires the API keys of the chosen providers', () => {
+    expect(problems({})).toEqual([
+      'OPENAI_API_KEY is required when LLM_PROVIDER=openai',
+      'OPENAI_API_KEY is required when EMBEDDING_PROVIDER=openai',
+      'PINECONE_API_KEY is required when VECTOR_STORE=pinecone',
+    ]);
+    expect(problems({ ...OFFLINE, LLM_PROVIDER: 'openai-compatible' })).toEqual([
+      'LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible',
+    ]);
+  });
+
+  it('throws one ConfigError whose message names every problem', () => {
+    expect(() => loadConfig({ ...OFFLINE, PAGE_SIZE: '0', SQL_MAX_ATTEMPTS: '-1' })).toThrow(
+      'Invalid configuration:\n' +
+        '  - SQL_MAX_ATTEMPTS must be at least 1 (got "-1")\n' +
+        '  - PAGE_SIZE must be at least 1 (got "0")',
+    );
+  });
+});
@@ -0,0 +1,420 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiKeyStoreName,
+  DatasourceConfig,
+  DatasourceDriverName,
+  EmbeddingProviderName,
+  FeedbackStoreName,
+  HistoryStoreName,
+  LlmProviderName,
+  QueryOverride,
+  SavedQueryStoreName,
+  SessionStoreName,
+  SqlDialect,
+  VectorStoreName,
+} from './types';
+
+const QUERY_OVERRIDES: readonly QueryOverride[] = [
+  'model',
+  'maxIterations',
+  'maxRows',
+  'timeoutMs',
+  'answer',
+];
+const STORE_NAMES = ['memory', 'postgres'] as const;
+
+// The first dialect is the driver's default
+export const DRIVER_DIALECTS: Record<DatasourceDriverName, SqlDialect[]> = {
+  postgres: ['postgresql'],
+  mysql: ['mysql', 'mariadb'],
+  sqlite: ['sqlite'],
+};
+
+/**
+ * Every setting the API reads, typed and with its default. Validated from
+ * the environment and .env by ConfigModule (see app.module.ts) and injected
+ * as ConfigService<AppConfig, true>; see .env.example for the variables.
+ */
+export interface AppConfig {
+  port: number;
+  // Allowed CORS origins; any origin when unset
+  corsOrigins?: string[];
+  llm: {
+    provider: LlmProviderName;
+    model: string;
+    // Models a request may pick with `model`; always includes `model`
+    allowedModels: string[];
+    temperature: number;
+    openaiApiKey?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    fixturesPath: string;
+    recordFixtures: boolean;
+  };
+  embeddings: {
+    provider: EmbeddingProviderName;
+    model: string;
+    dimensions: number;
+    baseUrl?: string;
+    apiKey?: string;
+  };
+  vectorStore: {
+    name: VectorStoreName;
+    pineconeApiKey?: string;
+    pineconeIndexName: string;
+  };
+  postgres: {
+    host: string;
+    port: number;
+    database: string;
+    user: string;
+    password: string;
+  };
+  datasources: Record<string, DatasourceConfig>;
+  defaultDatasource?: string;
+  sql: {
+    allowWrites: boolean;
+    maxAttempts: number;
+    statementTimeoutMs: number;
+    maxRows: number;
+    exportMaxRows: number;
+    maxPlanCost: number;
+    maxPlanRows: number;
+  };
+  query: {
+    promptMaxLength: number;
+    // Settings a request may override, within the limits above and below
+    overrides: QueryOverride[];
+  };
+  react: { enabled: boolean; maxIterations: number };
+  answers: { enabled: boolean; sampleRows: number };
+  clarification: { enabled: boolean; maxRounds: number };
+  fewShot: { enabled: boolean; autoApprove: boolean; topK: number; minScore: number };
+  schemaLinking: { enabled: boolean; topK: number; columnTopK: number; minScore: number };
+  pagination: { pageSize: number; tokenSecret?: string; tokenTtlSeconds: number };
+  sessions: { store: SessionStoreName; historyWindow: number };
+  stores: {
+    history: HistoryStoreName;
+    savedQueries: SavedQueryStoreName;
+    feedback: FeedbackStoreName;
+    apiKeys: ApiKeyStoreName;
+  };
+  apiKeys: {
+    enabled: boolean;
+    adminKey?: string;
+    requestsPerMinute: number;
+    dailyTokenBudget: number;
+  };
+  policyPath?: string;
+  healthCheckTimeoutMs: number;
+  tracing: { otlpEndpoint?: string; serviceName: string };
+}
+
+// Settings that failed validation, all of them at once
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Reads environment variables, collecting every problem instead of stopping
+ * at the first one. Unset and empty variables take the default.
+ */
+class EnvReader {
+  readonly problems: string[] = [];
+
+  constructor(private readonly env: Record<string, unknown>) {}
+
+  string(name: string): string | undefined;
+  string(name: string, fallback: string): string;
+  string(name: string, fallback?: string): string | undefined {
+    const value = this.env[name] === undefined ? '' : String(this.env[name]).trim();
+    return value ? value : fallback;
+  }
+
+  integer(name: string, fallback: number, range: { min?: number; max?: number } = {}): number {
+    const value = this.string(name);
+    if (value === undefined) return fallback;
+    return /^-?\d+$/.test(value)
+      ? this.inRange(name, parseInt(value), range, fallback)
+      : this.fail(name, 'must be an integer', fallback);
+  }
+
+  number(name: string, fallback: number, range: { min?: number; max?: number } = {}): number {
+    const value = this.string(name);
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    return Number.isFinite(number)
+      ? this.inRange(name, number, range, fallback)
+      : this.fail(name, 'must be a number', fallback);
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.string(name)?.toLowerCase();
+    if (value === undefined) return fallback;
+    if (value === 'true' || value === 'false') return value === 'true';
+    return this.fail(name, 'must be true or false', fallback);
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+    const value = this.string(name);
+    if (value === undefined) return fallback;
+    return values.includes(value as T)
+      ? (value as T)
+      : this.fail(name, `must be one of ${values.join(', ')}`, fallback);
+  }
+
+  // Comma-separated
+  list(name: string): string[] | undefined {
+    const value = this.string(name);
+    if (value === undefined) return undefined;
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  jsonObject<T extends object>(name: string, fallback: T): T {
+    const value = this.string(name);
+    if (value === undefined) return fallback;
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // Reported below
+    }
+    return this.fail(name, 'must be a JSON object', fallback);
+  }
+
+  // A JSON object of DatasourceConfig; every entry's problems are reported
+  datasources(name: string): Record<string, DatasourceConfig> {
+    const entries = this.jsonObject<Record<string, DatasourceConfig>>(name, {});
+    for (const [key, entry] of Object.entries(entries)) {
+      for (const problem of datasourceProblems(entry)) {
+        this.problems.push(`${name}.${key}: ${problem}`);
+      }
+    }
+    return entries;
+  }
+
+  // `name` must be set when `condition` holds
+  require(name: string, condition: boolean, when: string): void {
+    if (condition && this.string(name) === undefined) {
+      this.problems.push(`${name} is required when ${when}`);
+    }
+  }
+
+  fail<T>(name: string, message: string, fallback: T): T {
+    this.problems.push(`${name} ${message} (got "${this.env[name]}")`);
+    return fallback;
+  }
+
+  private inRange(
+    name: string,
+    value: number,
+    range: { min?: number; max?: number },
+    fallback: number,
+  ): number {
+    if (range.min !== undefined && value < range.min) {
+      return this.fail(name, `must be at least ${range.min}`, fallback);
+    }
+    if (range.max !== undefined && value > range.max) {
+      return this.fail(name, `must be at most ${range.max}`, fallback);
+    }
+    return value;
+  }
+}
+
+function datasourceProblems(entry: DatasourceConfig): string[] {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return ['must be an object with a driver'];
+  }
+  const drivers = Object.keys(DRIVER_DIALECTS) as DatasourceDriverName[];
+  if (!drivers.includes(entry.driver)) {
+    return [`driver must be one of ${drivers.join(', ')} (got "${entry.driver}")`];
+  }
+
+  const problems: string[] = [];
+  const dialects = DRIVER_DIALECTS[entry.driver];
+  if (entry.dialect !== undefined && !dialects.includes(entry.dialect)) {
+    problems.push(
+      `dialect must be ${dialects.join(' or ')} with driver ${entry.driver} (got "${entry.dialect}")`,
+    );
+  }
+  const location = entry.driver === 'sqlite' ? 'path' : 'url';
+  if (typeof entry[location] !== 'string' || !entry[location]!.trim()) {
+    problems.push(`${location} is required with driver ${entry.driver}`);
+  }
+  if (entry.poolSize !== undefined && !(Number.isInteger(entry.poolSize) && entry.poolSize >= 1)) {
+    problems.push(`poolSize must be a positive integer (got "${entry.poolSize}")`);
+  }
+  return problems;
+}
+
+function isQueryOverride(name: string): name is QueryOverride {
+  return (QUERY_OVERRIDES as readonly string[]).includes(name);
+}
+
+/**
+ * Validates the environment into an AppConfig; throws a ConfigError listing
+ * every invalid setting, including API keys missing for the chosen providers.
+ * ConfigModule calls it with .env merged into process.env.
+ */
+export function loadConfig(env: Record<string, unknown>): AppConfig {
+  const read = new EnvReader(env);
+  const score = { min: -1, max: 1 };
+
+  const llmProvider = read.oneOf<LlmProviderName>(
+    'LLM_PROVIDER',
+    ['openai', 'openai-compatible', 'fixture'],
+    'openai',
+  );
+  const model = read.string('OPENAI_MODEL', 'gpt-4o-mini');
+  const embeddingProvider = read.oneOf<EmbeddingProviderName>(
+    'EMBEDDING_PROVIDER',
+    ['openai', 'openai-compatible', 'hash'],
+    'openai',
+  );
+  const vectorStore = read.oneOf<VectorStoreName>(
+    'VECTOR_STORE',
+    ['pinecone', 'pgvector', 'memory'],
+    'pinecone',
+  );
+  read.require('OPENAI_API_KEY', llmProvider === 'openai', 'LLM_PROVIDER=openai');
+  read.require(
+    'LLM_BASE_URL',
+    llmProvider === 'openai-compatible',
+    'LLM_PROVIDER=openai-compatible',
+  );
+  read.require('OPENAI_API_KEY', embeddingProvider === 'openai', 'EMBEDDING_PROVIDER=openai');
+  read.require(
+    'EMBEDDING_BASE_URL',
+    embeddingProvider === 'openai-compatible',
+    'EMBEDDING_PROVIDER=openai-compatible',
+  );
+  read.require('PINECONE_API_KEY', vectorStore === 'pinecone', 'VECTOR_STORE=pinecone');
+
+  const overrides = read.list('QUERY_OVERRIDES') ?? QUERY_OVERRIDES;
+  const unknownOverrides = overrides.filter((name) => !isQueryOverride(name));
+  if (unknownOverrides.length > 0) {
+    read.fail('QUERY_OVERRIDES', `may only list ${QUERY_OVERRIDES.join(', ')}`, undefined);
+  }
+
+  const config: AppConfig = {
+    port: read.integer('API_PORT', 3000, { min: 1, max: 65535 }),
+    corsOrigins: read.list('CORS_ORIGINS'),
+    llm: {
+      provider: llmProvider,
+      model,
+      allowedModels: [...new Set([model, ...(read.list('LLM_ALLOWED_MODELS') || [])])],
+      temperature: read.number('LLM_TEMPERATURE', 0, { min: 0, max: 2 }),
+      openaiApiKey: read.string('OPENAI_API_KEY'),
+      baseUrl: read.string('LLM_BASE_URL'),
+      apiKey: read.string('LLM_API_KEY'),
+      fixturesPath: read.string('LLM_FIXTURES_PATH', 'fixtures/llm.json'),
+      recordFixtures: read.boolean('LLM_FIXTURES_RECORD', false),
+    },
+    embeddings: {
+      provider: embeddingProvider,
+      model: read.string('EMBEDDING_MODEL', 'text-embedding-3-small'),
+      dimensions: read.integer('EMBEDDING_DIMENSIONS', 512, { min: 1 }),
+      baseUrl: read.string('EMBEDDING_BASE_URL'),
+      apiKey: read.string('EMBEDDING_API_KEY'),
+    },
+    vectorStore: {
+      name: vectorStore,
+      pineconeApiKey: read.string('PINECONE_API_KEY'),
+      pineconeIndexName: read.string('PINECONE_INDEX_NAME', 'table-embeddings'),
+    },
+    postgres: {
+      host: read.string('POSTGRES_HOST', 'localhost'),
+      // Default to 5433 to avoid clashing with a local Postgres on 5432
+      port: read.integer('POSTGRES_PORT', 5433, { min: 1, max: 65535 }),
+      database: read.string('POSTGRES_DB', 'sql_ai_db'),
+      user: read.string('POSTGRES_USER', 'sql_ai_user'),
+      password: read.string('POSTGRES_PASSWORD', 'sql_ai_password'),
+    },
+    datasources: read.datasources('DATASOURCES'),
+    defaultDatasource: read.string('DEFAULT_DATASOURCE'),
+    sql: {
+      allowWrites: read.boolean('ALLOW_WRITE_SQL', false),
+      maxAttempts: read.integer('SQL_MAX_ATTEMPTS', 3, { min: 1 }),
+      statementTimeoutMs: read.integer('SQL_STATEMENT_TIMEOUT_MS', 10000, { min: 1 }),
+      maxRows: read.integer('SQL_MAX_ROWS', 1000, { min: 1 }),
+      exportMaxRows: read.integer('SQL_EXPORT_MAX_ROWS', 100000, { min: 1 }),
+      maxPlanCost: read.number('SQL_MAX_PLAN_COST', 1000000, { min: 0 }),
+      maxPlanRows: read.number('SQL_MAX_PLAN_ROWS', 1000000, { min: 0 }),
+    },
+    query: {
+      promptMaxLength: read.integer('QUERY_PROMPT_MAX_LENGTH', 2000, { min: 1 }),
+      overrides: overrides.filter(isQueryOverride),
+    },
+    react: {
+      enabled: read.boolean('REACT_MODE_ENABLED', false),
+      maxIterations: read.integer('REACT_MAX_ITERATIONS', 5, { min: 1 }),
+    },
+    answers: {
+      enabled: read.boolean('ANSWER_SYNTHESIS_ENABLED', true),
+      sampleRows: read.integer('ANSWER_SAMPLE_ROWS', 20, { min: 1 }),
+    },
+    clarification: {
+      enabled: read.boolean('CLARIFICATION_ENABLED', true),
+      maxRounds: read.integer('CLARIFICATION_MAX_ROUNDS', 2, { min: 0 }),
+    },
+    fewShot: {
+      enabled: read.boolean('FEW_SHOT_ENABLED', true),
+      autoApprove: read.boolean('FEW_SHOT_AUTO_APPROVE', false),
+      topK: read.integer('FEW_SHOT_TOP_K', 3, { min: 1 }),
+      minScore: read.number('FEW_SHOT_MIN_SCORE', 0.5, score),
+    },
+    schemaLinking: {
+      enabled: read.boolean('SCHEMA_LINKING_ENABLED', false),
+      topK: read.integer('SCHEMA_LINK_TOP_K', 5, { min: 1 }),
+      columnTopK: read.integer('SCHEMA_LINK_COLUMN_TOP_K', 15, { min: 1 }),
+      minScore: read.number('SCHEMA_LINK_MIN_SCORE', 0.2, score),
+    },
+    pagination: {
+      pageSize: read.integer('PAGE_SIZE', 100, { min: 1 }),
+      tokenSecret: read.string('PAGE_TOKEN_SECRET'),
+      tokenTtlSeconds: read.integer('PAGE_TOKEN_TTL_SECONDS', 3600, { min: 1 }),
+    },
+    sessions: {
+      store: read.oneOf('SESSION_STORE', STORE_NAMES, 'memory'),
+      historyWindow: read.integer('SESSION_HISTORY_WINDOW', 5, { min: 0 }),
+    },
+    stores: {
+      history: read.oneOf('HISTORY_STORE', STORE_NAMES, 'memory'),
+      savedQueries: read.oneOf('SAVED_QUERY_STORE', STORE_NAMES, 'memory'),
+      feedback: read.oneOf('FEEDBACK_STORE', STORE_NAMES, 'memory'),
+      apiKeys: read.oneOf('API_KEY_STORE', STORE_NAMES, 'memory'),
+    },
+    apiKeys: {
+      enabled: read.boolean('API_KEYS_ENABLED', false),
+      adminKey: read.string('ADMIN_API_KEY'),
+      requestsPerMinute: read.integer('API_KEY_REQUESTS_PER_MINUTE', 60, { min: 0 }),
+      dailyTokenBudget: read.integer('API_KEY_DAILY_TOKEN_BUDGET', 200000, { min: 0 }),
+    },
+    policyPath: read.string('POLICY_PATH'),
+    healthCheckTimeoutMs: read.integer('HEALTH_CHECK_TIMEOUT_MS', 3000, { min: 1 }),
+    tracing: {
+      otlpEndpoint:
+        read.string('OTEL_EXPORTER_OTLP_ENDPOINT') ||
+        read.string('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'),
+      serviceName: read.string('OTEL_SERVICE_NAME', 'sql-ai-api'),
+    },
+  };
+
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+  return config;
+}
+
+/**
+ * Sections are read with get('sql', { infer: true }). Injected constructor
+ * parameters spell out ConfigService<AppConfig, true>: Nest resolves them by
+ * the emitted class, which this alias hides.
+ */
+export type AppConfigService = ConfigService<AppConfig, true>;
@@ -0,0 +1,74 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Datasource, createDatasource } from './datasource';
+import { PostgresDatasource } from './postgres-datasource';
+import { DatasourceInfo } from './types';
+import { AppConfig } from './config';
+
+// The application's own database (sessions, embeddings); also queryable under this name
+export const INTERNAL_DATASOURCE = 'postgres';
+
+/**
+ * Named databases that questions can be asked against. The built-in
+ * `postgres` datasource comes from the POSTGRES_* variables and also holds the
+ * application tables; more are declared as JSON in DATASOURCES, e.g.
+ * {"crm":{"driver":"mysql","url":"mysql://..."},"local":{"driver":"sqlite","path":"./data.db"}}.
+ */
+@Injectable()
+export class DatasourceRegistry {
+  private readonly logger = new Logger(DatasourceRegistry.name);
+  private readonly datasources = new Map<string, Datasource>();
+  private readonly internalDatasource: PostgresDatasource;
+  readonly defaultName: string;
+
+  constructor(config: ConfigService<AppConfig, true>) {
+    const postgres = config.get('postgres', { infer: true });
+    const { allowWrites } = config.get('sql', { infer: true });
+    this.internalDatasource = new PostgresDatasource(INTERNAL_DATASOURCE, { ...postgres, max: 10 });
+    this.datasources.set(INTERNAL_DATASOURCE, this.internalDatasource);
+    this.logger.log(`Connected to PostgreSQL at ${postgres.host}:${postgres.port}`);
+
+    for (const [name, datasourceConfig] of Object.entries(
+      config.get('datasources', { infer: true }),
+    )) {
+      if (this.datasources.has(name)) {
+        throw new Error(`Datasource name ${name} is reserved`);
+      }
+      const datasource = createDatasource(name, datasourceConfig, { allowWrites });
+      this.datasources.set(name, datasource);
+      this.logger.log(`Datasource ${name}: ${datasource.driver} (${datasource.dialect})`);
+    }
+
+    this.defaultName = config.get('defaultDatasource', { infer: true }) || INTERNAL_DATASOURCE;
+    if (!this.datasources.has(this.defaultName)) {
+      throw new Error(`DEFAULT_DATASOURCE ${this.defaultName} is not configured`);
+    }
+  }
+
+  // The named datasource, or the default one
+  get(name?: string): Datasource {
+    const datasource = this.datasources.get(name || this.defaultName);
+    if (!datasource) {
+      throw new BadRequestException(`Unknown datasource: ${name}`);
+    }
+    return datasource;
+  }
+
+  internal(): PostgresDatasource {
+    return this.internalDatasource;
+  }
+
+  list(): DatasourceInfo[] {
+    return [...this.datasources.values()].map((datasource) => ({
+      name: datasource.name,
+      driver: datasource.driver,
+      dialect: datasource.dialect,
+      default: datasource.name === this.defaultName,
+    }));
+  }
+
+  async onModuleDestroy() {
+    await Promise.all([...this.datasources.values()].map((datasource) => datasource.close()));
+    this.logger.log('Datasource connections closed');
+  }
+}
@@ -0,0 +1,15 @@
+import { Controller, Get, UseGuards, UseInterceptors } from '@nestjs/common';
+import { DatasourceRegistry } from './datasource-registry';
+import { ApiKeyGuard, ApiKeyUsageInterceptor } from './api-key.guard';
+
+@Controller('api/datasources')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
+export class DatasourceController {
+  constructor(private readonly datasources: DatasourceRegistry) {}
+
+  @Get()
+  list() {
+    return this.datasources.list();
+  }
+}
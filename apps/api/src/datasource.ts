@@ -0,0 +1,96 @@
+import {
+  CatalogTable,
+  DatasourceConfig,
+  DatasourceDriverName,
+  PlanEstimate,
+  QueryLimits,
+  ResultColumn,
+  SqlDialect,
+} from './types';
+import { DRIVER_DIALECTS } from './config';
+import { PostgresDatasource } from './postgres-datasource';
+import { MysqlDatasource } from './mysql-datasource';
+import { SqliteDatasource } from './sqlite-datasource';
+
+export const DIALECT_LABELS: Record<SqlDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  sqlite: 'SQLite',
+};
+
+export interface DatasourceRunOptions {
+  params: any[];
+  limits: QueryLimits;
+  batchSize: number;
+  // From the guard: only a SELECT is read in batches and capped at limits.maxRows
+  statementType: string;
+  allowWrites: boolean;
+  // Rows of a SELECT to skip before the first batch, for pagination
+  offset?: number;
+}
+
+export interface PreparedStatementInfo {
+  // Returns rows
+  reader: boolean;
+  // Cannot change the database
+  readonly: boolean;
+}
+
+export type BatchHandler<T = any> = (rows: T[], columns: ResultColumn[]) => Promise<boolean | void>;
+
+/**
+ * A database that generated SQL can run against. Each driver enforces
+ * read-only execution, the statement timeout and the row cap in its own way;
+ * the guard and the cost check run before, in DbService.
+ */
+export interface Datasource {
+  readonly name: string;
+  readonly driver: DatasourceDriverName;
+  readonly dialect: SqlDialect;
+  // Schema (the database on MySQL) that is introspected and queried
+  readonly schema: string;
+  // Plans without running, so planner errors surface early. No planRows when the driver has no estimate.
+  estimate(sql: string, params: any[], timeoutMs: number): Promise<PlanEstimate>;
+  // Compiles without running, for SQL the guard cannot parse; only engines that can do it cheaply
+  prepare?(sql: string): PreparedStatementInfo;
+  // Calls onBatch at least once, even with no rows; returning false stops reading.
+  // The SQL runs as written: wrapping it in a subquery breaks duplicate column names.
+  run(
+    sql: string,
+    options: DatasourceRunOptions,
+    onBatch: BatchHandler,
+  ): Promise<{ rowCount: number; truncated: boolean }>;
+  introspect(): Promise<CatalogTable[]>;
+  close(): Promise<void>;
+}
+
+export function createDatasource(
+  name: string,
+  config: DatasourceConfig,
+  options: { allowWrites: boolean },
+): Datasource {
+  const dialects = DRIVER_DIALECTS[config.driver];
+  if (!dialects) {
+    throw new Error(`Datasource ${name}: unknown driver ${config.driver}`);
+  }
+  const dialect = config.dialect || dialects[0];
+  if (!dialects.includes(dialect)) {
+    throw new Error(`Datasource ${name}: driver ${config.driver} does not speak ${dialect}`);
+  }
+
+  switch (config.driver) {
+    case 'postgres':
+      if (!config.url) throw new Error(`Datasource ${name}: url is required`);
+      return new PostgresDatasource(name, {
+        connectionString: config.url,
+        max: config.poolSize || 10,
+      });
+    case 'mysql':
+      if (!config.url) throw new Error(`Datasource ${name}: url is required`);
+      return new MysqlDatasource(name, dialect, config.url, config.poolSize || 10);
+    case 'sqlite':
+      if (!config.path) throw new Error(`Datasource ${name}: path is required`);
+      return new SqliteDatasource(name, config.path, options.allowWrites);
+  }
+}
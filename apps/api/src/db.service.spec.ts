@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { Datasource } from './datasource';
+import { DatasourceRegistry } from './datasource-registry';
+import { DbService, QueryCostError } from './db.service';
+import { PolicyService } from './policy.service';
+import { SqlGuardError, SqlGuardService } from './sql-guard.service';
+import { QueryLimits } from './types';
+
+describe('DbService guardrails', () => {
+  const config = new ConfigService<AppConfig, true>({
+    sql: {
+      allowWrites: false,
+      maxAttempts: 3,
+      statementTimeoutMs: 2500,
+      maxRows: 100,
+      exportMaxRows: 1000,
+      maxPlanCost: 1000,
+      maxPlanRows: 500,
+    },
+  });
+  const limits: QueryLimits = { timeoutMs: 1500, maxRows: 2, maxPlanCost: 1000, maxPlanRows: 500 };
+  let datasource: { [K in keyof Datasource]: any };
+  let db: DbService;
+
+  beforeEach(() => {
+    datasource = {
+      name: 'postgres',
+      driver: 'postgres',
+      dialect: 'postgresql',
+      schema: 'public',
+      estimate: jest.fn(async () => ({ totalCost: 12, planRows: 40 })),
+      run: jest.fn(async (_sql, _options, onBatch) => {
+        await onBatch([{ id: 1 }, { id: 2 }], [{ name: 'id', dataTypeID: 23 }]);
+        return { rowCount: 2, truncated: true };
+      }),
+      introspect: jest.fn(),
+      close: jest.fn(),
+    };
+    db = new DbService(
+      new SqlGuardService(),
+      { get: () => datasource } as unknown as DatasourceRegistry,
+      { enforce: async (sql: string) => sql } as unknown as PolicyService,
+      config,
+    );
+  });
+
+  it('plans within the statement timeout and passes cheap SQL', async () => {
+    expect(await db.checkCost('SELECT id FROM contacts', limits)).toEqual({
+      totalCost: 12,
+      planRows: 40,
+    });
+    expect(datasource.estimate).toHaveBeenCalledWith('SELECT id FROM contacts', [], 1500);
+  });
+
+  it('rejects a plan over the cost or row limit with its estimate', async () => {
+    datasource.estimate.mockResolvedValueOnce({ totalCost: 5000, planRows: 40 });
+    await expect(db.checkCost('SELECT * FROM contacts', limits)).rejects.toThrow(
+      'Cost guard: estimated cost 5000 exceeds the limit of 1000',
+    );
+
+    datasource.estimate.mockResolvedValueOnce({ totalCost: 12, planRows: 9000 });
+    const error = await db.checkCost('SELECT * FROM contacts', limits).catch((error) => error);
+    expect(error).toBeInstanceOf(QueryCostError);
+    expect(error.estimate).toEqual({ totalCost: 12, planRows: 9000 });
+  });
+
+  it('runs read-only with the row cap and the statement timeout', async () => {
+    const result = await db.execGenerated('SELECT id FROM contacts', limits);
+
+    expect(result).toEqual({
+      rows: [{ id: 1 }, { id: 2 }],
+      truncated: true,
+      rowLimit: 2,
+      estimate: { totalCost: 12, planRows: 40 },
+    });
+    expect(datasource.run).toHaveBeenCalledWith(
+      'SELECT id FROM contacts',
+      expect.objectContaining({ limits, allowWrites: false, statementType: 'SelectStmt' }),
+      expect.any(Function),
+    );
+  });
+
+  it('passes the page offset to the datasource', async () => {
+    await db.execGenerated('SELECT id FROM contacts', limits, { offset: 4 });
+
+    expect(datasource.run).toHaveBeenCalledWith(
+      'SELECT id FROM contacts',
+      expect.objectContaining({ offset: 4 }),
+      expect.any(Function),
+    );
+  });
+
+  it('never runs SQL the guard rejects', async () => {
+    await expect(db.execGenerated('UPDATE contacts SET first_name = NULL', limits)).rejects.toThrow(
+      SqlGuardError,
+    );
+    expect(datasource.estimate).not.toHaveBeenCalled();
+    expect(datasource.run).not.toHaveBeenCalled();
+  });
+});
@@ -1,45 +1,231 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Pool } from 'pg';
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Span } from '@opentelemetry/api';
+import { SqlGuardService } from './sql-guard.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { Datasource } from './datasource';
+import { PolicyService } from './policy.service';
+import { resolveQueryLimits } from './query-run';
+import { recordGeneratedSql } from './sql-trace';
+import { ApiError, SqlExecutionError } from './errors';
+import { sqlExecutionDuration } from './metrics';
+import { withSpan } from './tracing';
+import {
+  GeneratedQueryResult,
+  GeneratedStreamResult,
+  PlanEstimate,
+  QueryLimits,
+  ResultColumn,
+} from './types';
+import { AppConfig } from './config';
+
+export class QueryCostError extends ApiError {
+  constructor(
+    readonly estimate: PlanEstimate,
+    reason: string,
+  ) {
+    super('COST_LIMIT_EXCEEDED', HttpStatus.UNPROCESSABLE_ENTITY, `Cost guard: ${reason}`, {
+      estimate,
+    });
+  }
+}
 
 @Injectable()
 export class DbService {
   private readonly logger = new Logger(DbService.name);
-  private readonly pool: Pool;
-
-  constructor() {
-    this.pool = new Pool({
-      host: process.env.POSTGRES_HOST || 'localhost',
-      // Default to 5433 to avoid clashing with a local Postgres on 5432
-      port: parseInt(process.env.POSTGRES_PORT || '5433'),
-      database: process.env.POSTGRES_DB || 'sql_ai_db',
-      user: process.env.POSTGRES_USER || 'sql_ai_user',
-      password: process.env.POSTGRES_PASSWORD || 'sql_ai_password',
-      max: 10,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
+
+  constructor(
+    private readonly sqlGuard: SqlGuardService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly policies: PolicyService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  // Read-only guard by default (single SELECT, no denied functions or reserved schemas). Runs on the internal database.
+  async execSelect<T = unknown>(sql: string, params: any[] = []): Promise<T[]> {
+    await this.sqlGuard.assertSafe(sql, {
+      allowWrites: this.config.get('sql', { infer: true }).allowWrites,
     });
-    this.logger.log(`Connected to PostgreSQL at ${process.env.POSTGRES_HOST || 'localhost'}:${process.env.POSTGRES_PORT || '5433'}`);
+    const internal = this.datasources.internal();
+    return this.traced('query', internal, sql, () => internal.query<T>(sql, params));
   }
 
-  // SELECT-only guard by default
-  async execSelect<T = unknown>(sql: string, params: any[] = []): Promise<T[]> {
-    if (String(process.env.ALLOW_WRITE_SQL) !== 'true') {
-      if (!/^\s*select\s/i.test(sql)) {
-        throw new Error('Guard: Only SELECT statements are allowed.');
-      }
+  // Rejects statements whose planner estimate exceeds the cost or row limits
+  async checkCost(
+    sql: string,
+    limits: QueryLimits = resolveQueryLimits(this.config.get('sql', { infer: true })),
+    options: { params?: any[]; datasource?: string; role?: string } = {},
+  ): Promise<PlanEstimate> {
+    recordGeneratedSql(sql);
+    const datasource = this.datasources.get(options.datasource);
+    const enforced = await this.enforce(sql, datasource.name, options.role);
+    return this.estimateCost(enforced, limits, datasource.name, options.params || []);
+  }
+
+  // The planner estimate under the guard and the caller's access policy, whatever its cost
+  async plan(
+    sql: string,
+    options: { params?: any[]; datasource?: string; role?: string } = {},
+  ): Promise<PlanEstimate> {
+    const datasource = this.datasources.get(options.datasource);
+    const enforced = await this.enforce(sql, datasource.name, options.role);
+    const { timeoutMs } = resolveQueryLimits(this.config.get('sql', { infer: true }));
+    return this.traced('plan', datasource, enforced, () =>
+      datasource.estimate(enforced, options.params || [], timeoutMs),
+    ).catch((error) => {
+      throw SqlExecutionError.from(error);
+    });
+  }
+
+  private async enforce(sql: string, datasource: string, role?: string): Promise<string> {
+    await this.sqlGuard.assertSafe(sql, {
+      allowWrites: this.config.get('sql', { infer: true }).allowWrites,
+      datasource: this.datasources.get(datasource),
+    });
+    return this.policies.enforce(sql, { role, datasource });
+  }
+
+  private async estimateCost(
+    sql: string,
+    limits: QueryLimits,
+    datasource: string,
+    params: any[],
+  ): Promise<PlanEstimate> {
+    // Plans the statement without running it, so planner errors (unknown
+    // columns, type mismatches) surface before any rows are read
+    const source = this.datasources.get(datasource);
+    const estimate = await this.traced('plan', source, sql, () =>
+      source.estimate(sql, params, limits.timeoutMs),
+    ).catch((error) => {
+      throw SqlExecutionError.from(error);
+    });
+
+    if (estimate.totalCost > limits.maxPlanCost) {
+      throw new QueryCostError(
+        estimate,
+        `estimated cost ${estimate.totalCost} exceeds the limit of ${limits.maxPlanCost}`,
+      );
     }
-    
-    const client = await this.pool.connect();
-    try {
-      const result = await client.query(sql, params);
-      return result.rows as T[];
-    } finally {
-      client.release();
+    if (estimate.planRows !== undefined && estimate.planRows > limits.maxPlanRows) {
+      throw new QueryCostError(
+        estimate,
+        `estimated ${estimate.planRows} rows exceeds the limit of ${limits.maxPlanRows}`,
+      );
     }
+    return estimate;
+  }
+
+  /**
+   * Runs model-generated SQL with guardrails: the guard, the caller's access
+   * policy, a plan cost check (skipped when an estimate is passed in), then
+   * the datasource's read-only execution with its statement timeout, reading
+   * at most maxRows rows after skipping `offset`.
+   */
+  async execGenerated<T = any>(
+    sql: string,
+    limits: QueryLimits = resolveQueryLimits(this.config.get('sql', { infer: true })),
+    options: {
+      params?: any[];
+      estimate?: PlanEstimate;
+      datasource?: string;
+      role?: string;
+      offset?: number;
+    } = {},
+  ): Promise<GeneratedQueryResult<T>> {
+    const rows: T[] = [];
+    const { truncated, estimate } = await this.streamGenerated<T>(
+      sql,
+      limits,
+      async (batch) => {
+        rows.push(...batch);
+      },
+      { ...options, batchSize: limits.maxRows },
+    );
+    return { rows, truncated, rowLimit: limits.maxRows, estimate };
+  }
+
+  /**
+   * Same guardrails as execGenerated, but hands rows to onBatch in batches
+   * as the driver reads them. The first call always comes, even with no rows,
+   * so writers can emit headers. Returning false from onBatch stops reading.
+   */
+  async streamGenerated<T = any>(
+    sql: string,
+    limits: QueryLimits,
+    onBatch: (rows: T[], columns: ResultColumn[]) => Promise<boolean | void>,
+    options: {
+      params?: any[];
+      estimate?: PlanEstimate;
+      batchSize?: number;
+      datasource?: string;
+      role?: string;
+      offset?: number;
+    } = {},
+  ): Promise<GeneratedStreamResult> {
+    const datasource = this.datasources.get(options.datasource);
+    const params = options.params || [];
+    const allowWrites = this.config.get('sql', { infer: true }).allowWrites;
+    const statementType = await this.sqlGuard.assertSafe(sql, { allowWrites, datasource });
+    const enforced = await this.policies.enforce(sql, {
+      role: options.role,
+      datasource: datasource.name,
+    });
+    const estimate =
+      options.estimate || (await this.estimateCost(enforced, limits, datasource.name, params));
+
+    const stopTimer = sqlExecutionDuration.startTimer({ datasource: datasource.name });
+    const { rowCount, truncated } = await this.traced('run', datasource, enforced, async (span) => {
+      const run = await datasource.run(
+        enforced,
+        {
+          params,
+          limits,
+          batchSize: Math.max(1, options.batchSize || 500),
+          statementType,
+          allowWrites,
+          offset: options.offset,
+        },
+        onBatch,
+      );
+      span.setAttributes({
+        'db.response.returned_rows': run.rowCount,
+        'db.truncated': run.truncated,
+      });
+      return run;
+    }).then(
+      (run) => {
+        stopTimer({ outcome: 'success' });
+        return run;
+      },
+      (error) => {
+        stopTimer({ outcome: 'error' });
+        throw SqlExecutionError.from(error);
+      },
+    );
+    if (truncated) {
+      this.logger.warn(`Result capped at ${limits.maxRows} rows`);
+    }
+    return { rowCount, truncated, rowLimit: limits.maxRows, estimate };
+  }
+
+  // Application-owned statements (internal tables, DDL). Never pass generated SQL here.
+  async exec<T = unknown>(sql: string, params: any[] = []): Promise<T[]> {
+    const internal = this.datasources.internal();
+    return this.traced('query', internal, sql, () => internal.query<T>(sql, params));
   }
 
-  async onModuleDestroy() {
-    await this.pool.end();
-    this.logger.log('PostgreSQL connection pool closed');
+  // One span per statement; bound parameters are left out
+  private traced<T>(
+    operation: 'query' | 'plan' | 'run',
+    datasource: Datasource,
+    sql: string,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const attributes = {
+      'db.system': datasource.driver,
+      'db.namespace': datasource.name,
+      'db.query.text': sql,
+    };
+    return withSpan(`db.${operation}`, attributes, fn);
   }
-}
\ No newline at end of file
+}
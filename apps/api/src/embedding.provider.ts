@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+import { EmbeddingProviderName } from './types';
+import { AppConfigService } from './config';
+import { OpenAiEmbeddingProvider } from './openai-embedding.provider';
+import { HashEmbeddingProvider } from './hash-embedding.provider';
+
+export const EMBEDDING_PROVIDER = 'EMBEDDING_PROVIDER';
+
+/**
+ * Turns text into vectors for the vector store. Inject it with
+ * `@Inject(EMBEDDING_PROVIDER)`; the implementation is chosen by EMBEDDING_PROVIDER.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  embedMany(texts: string[]): Promise<number[][]>;
+}
+
+export function createEmbeddingProvider(config: AppConfigService): EmbeddingProvider {
+  const logger = new Logger('EmbeddingProvider');
+  const embeddings = config.get('embeddings', { infer: true });
+  const llm = config.get('llm', { infer: true });
+  const { provider: name, model, dimensions } = embeddings;
+
+  let provider: EmbeddingProvider;
+  switch (name) {
+    case 'openai':
+      provider = new OpenAiEmbeddingProvider('openai', dimensions, {
+        apiKey: llm.openaiApiKey,
+        model,
+      });
+      break;
+    case 'openai-compatible':
+      provider = new OpenAiEmbeddingProvider('openai-compatible', dimensions, {
+        apiKey: embeddings.apiKey || 'not-needed',
+        model,
+        baseURL: embeddings.baseUrl,
+      });
+      break;
+    case 'hash':
+      provider = new HashEmbeddingProvider(dimensions);
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${name}`);
+  }
+
+  logger.log(`Using ${provider.name} embeddings (${provider.dimensions} dimensions)`);
+  return provider;
+}
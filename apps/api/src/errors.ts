@@ -0,0 +1,144 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { QueryCancelledError } from './query-run';
+import { ApiErrorBody, ApiErrorCode, FieldError } from './types';
+
+// Codes for Nest's own exceptions and for ours that carry none
+const STATUS_CODES: Partial<Record<number, ApiErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: 'BAD_REQUEST',
+  [HttpStatus.UNAUTHORIZED]: 'UNAUTHORIZED',
+  [HttpStatus.FORBIDDEN]: 'FORBIDDEN',
+  [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+  [HttpStatus.CONFLICT]: 'CONFLICT',
+  [HttpStatus.GONE]: 'GONE',
+  [HttpStatus.UNPROCESSABLE_ENTITY]: 'UNPROCESSABLE',
+  [HttpStatus.TOO_MANY_REQUESTS]: 'RATE_LIMITED',
+};
+
+// Nginx's "client closed request"; nobody is left to read it
+const CLIENT_CLOSED_REQUEST = 499;
+
+// Node socket errors, mysql2's lost connection, SQLSTATE class 08 and admin shutdowns
+const UNAVAILABLE_CODES =
+  /^(ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EHOSTUNREACH|PROTOCOL_CONNECTION_LOST|08\w{3}|57P0[123])$/;
+
+/**
+ * Base of the API's own errors: an HTTP status and a stable `errorCode`.
+ * Details are rendered next to the message; ApiExceptionFilter turns these
+ * and Nest's built-in exceptions into the same ApiErrorBody.
+ */
+export class ApiError extends HttpException {
+  constructor(
+    readonly errorCode: ApiErrorCode,
+    status: number,
+    message: string,
+    details: Record<string, unknown> = {},
+  ) {
+    super({ message, ...details }, status);
+    this.name = new.target.name;
+  }
+}
+
+// A request body that failed validation; every problem is listed in `errors`
+export class RequestValidationError extends ApiError {
+  constructor(readonly errors: FieldError[]) {
+    super(
+      'VALIDATION_FAILED',
+      HttpStatus.BAD_REQUEST,
+      `Invalid request: ${errors.map((error) => `${error.field} ${error.message}`).join('; ')}`,
+      { errors },
+    );
+  }
+}
+
+/**
+ * The database failed a statement (422), or could not be reached (503).
+ * `code` keeps the driver's error code (SQLSTATE, mysql2 code) for
+ * SqlErrorAnalyzerService.
+ */
+export class SqlExecutionError extends ApiError {
+  constructor(
+    message: string,
+    readonly code?: string,
+    details: Record<string, unknown> = {},
+  ) {
+    const unavailable = !!code && UNAVAILABLE_CODES.test(code);
+    super(
+      unavailable ? 'DATABASE_UNAVAILABLE' : 'SQL_EXECUTION_FAILED',
+      unavailable ? HttpStatus.SERVICE_UNAVAILABLE : HttpStatus.UNPROCESSABLE_ENTITY,
+      message,
+      details,
+    );
+  }
+
+  // Driver errors become SqlExecutionErrors; API errors and cancellations pass through
+  static from(error: any): Error {
+    if (error instanceof HttpException || error instanceof QueryCancelledError) return error;
+    const code = error.code === undefined ? undefined : String(error.code);
+    return new SqlExecutionError(error.message, code, code ? { driverCode: code } : {});
+  }
+}
+
+// The LLM provider failed or could not be reached
+export class LlmUpstreamError extends ApiError {
+  constructor(provider: string, cause: any) {
+    super('LLM_UPSTREAM_FAILED', HttpStatus.BAD_GATEWAY, `LLM: ${cause.message}`, {
+      provider,
+      upstreamStatus: typeof cause.status === 'number' ? cause.status : undefined,
+    });
+  }
+}
+
+// The vector store, or the embeddings it is queried with, failed
+export class VectorStoreError extends ApiError {
+  constructor(cause: any) {
+    super('VECTOR_STORE_FAILED', HttpStatus.SERVICE_UNAVAILABLE, `Vector store: ${cause.message}`);
+  }
+
+  static from(error: any): Error {
+    return error instanceof HttpException ? error : new VectorStoreError(error);
+  }
+}
+
+/**
+ * The status and envelope for any error. Unexpected errors are a 500 whose
+ * message is not shown, as Nest does by default.
+ */
+export function toErrorBody(error: unknown): ApiErrorBody {
+  if (error instanceof HttpException) {
+    const statusCode = error.getStatus();
+    const response = error.getResponse();
+    const {
+      message,
+      statusCode: _status,
+      error: _error,
+      ...details
+    } = typeof response === 'object' ? (response as Record<string, any>) : { message: response };
+    return {
+      statusCode,
+      code:
+        error instanceof ApiError
+          ? error.errorCode
+          : STATUS_CODES[statusCode] || (statusCode >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST'),
+      // Nest's own ValidationPipe style lists several messages
+      message: Array.isArray(message) ? message.join('; ') : String(message ?? error.message),
+      ...details,
+    };
+  }
+  // Lost connections outside DbService, e.g. while introspecting the schema
+  if (
+    typeof error === 'object' &&
+    error &&
+    'code' in error &&
+    UNAVAILABLE_CODES.test(String(error.code))
+  ) {
+    return toErrorBody(SqlExecutionError.from(error));
+  }
+  if (error instanceof QueryCancelledError) {
+    return { statusCode: CLIENT_CLOSED_REQUEST, code: 'CANCELLED', message: error.message };
+  }
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    code: 'INTERNAL_ERROR',
+    message: 'Internal server error',
+  };
+}
@@ -0,0 +1,51 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { FewShotService } from './few-shot.service';
+import { AdminKeyGuard } from './api-key.guard';
+import { ExampleStatus } from './types';
+
+const STATUSES = ['pending', 'approved', 'rejected'];
+
+@Controller('api/admin/feedback')
+@UseGuards(AdminKeyGuard)
+export class FeedbackAdminController {
+  constructor(private readonly fewShot: FewShotService) {}
+
+  @Get()
+  async list(@Query('status') status?: string) {
+    if (status && !STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of ${STATUSES.join(', ')}`);
+    }
+    return await this.fewShot.list(status as ExampleStatus);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return await this.fewShot.get(id);
+  }
+
+  @Post(':id/approve')
+  async approve(@Param('id') id: string) {
+    return await this.fewShot.review(id, 'approved');
+  }
+
+  @Post(':id/reject')
+  async reject(@Param('id') id: string) {
+    return await this.fewShot.review(id, 'rejected');
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(@Param('id') id: string) {
+    await this.fewShot.delete(id);
+  }
+}
@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { ExampleStatus, FeedbackStoreName, QueryFeedback } from './types';
+import { AppConfigService } from './config';
+import { MemoryFeedbackStore } from './memory-feedback-store';
+import { PgFeedbackStore } from './pg-feedback-store';
+
+export const FEEDBACK_STORE = 'FEEDBACK_STORE';
+
+/**
+ * Persistence for feedback on query results. Inject it with
+ * `@Inject(FEEDBACK_STORE)`; the implementation is chosen by FEEDBACK_STORE.
+ */
+export interface FeedbackStore {
+  readonly name: FeedbackStoreName;
+  // Creates the entry, or replaces the one with the same id
+  save(feedback: QueryFeedback): Promise<void>;
+  get(id: string): Promise<QueryFeedback | null>;
+  // Newest first, optionally only entries whose example has `status`
+  list(status?: ExampleStatus): Promise<QueryFeedback[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export function createFeedbackStore(db: DbService, config: AppConfigService): FeedbackStore {
+  const logger = new Logger('FeedbackStore');
+  const name = config.get('stores', { infer: true }).feedback;
+
+  let store: FeedbackStore;
+  switch (name) {
+    case 'memory':
+      store = new MemoryFeedbackStore();
+      break;
+    case 'postgres':
+      store = new PgFeedbackStore(db);
+      break;
+    default:
+      throw new Error(`Unknown FEEDBACK_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} feedback store`);
+  return store;
+}
@@ -0,0 +1,22 @@
+import { Body, Controller, Post, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FewShotService } from './few-shot.service';
+import { ApiKeyGuard, ApiKeyUsageInterceptor, Caller } from './api-key.guard';
+import { parseFeedbackRequest } from './query-request';
+import { FeedbackRequest, QueryCaller } from './types';
+import { ValidBody } from './validation';
+
+@Controller('api/feedback')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
+export class FeedbackController {
+  constructor(private readonly fewShot: FewShotService) {}
+
+  // A rating of a query result, or the SQL it should have had
+  @Post()
+  async submit(
+    @Body(ValidBody(parseFeedbackRequest)) body: FeedbackRequest,
+    @Caller() caller: QueryCaller,
+  ) {
+    return await this.fewShot.submit(body, caller);
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { FEEDBACK_STORE, FeedbackStore } from './feedback-store';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from './embedding.provider';
+import { DbService } from './db.service';
+import { SqlGuardService } from './sql-guard.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { PolicyService } from './policy.service';
+import {
+  ExampleStatus,
+  FeedbackRequest,
+  FewShotExample,
+  QueryCaller,
+  QueryFeedback,
+} from './types';
+import { AppConfig } from './config';
+
+const EXAMPLE_NAMESPACE = 'examples';
+
+/**
+ * Few-shot examples learned from feedback. A rating up or a corrected SQL
+ * proposes a prompt→SQL example; once approved (by an admin, or right away
+ * with FEW_SHOT_AUTO_APPROVE=true) its question is embedded into the vector
+ * store, and the most similar approved examples are put into the prompt of
+ * later questions on the same datasource. Examples reading tables the
+ * caller's role may not see are left out. Retrieval failures are logged and
+ * never fail the query.
+ */
+@Injectable()
+export class FewShotService {
+  private readonly logger = new Logger(FewShotService.name);
+
+  constructor(
+    @Inject(FEEDBACK_STORE) private readonly store: FeedbackStore,
+    @Inject(VECTOR_STORE) private readonly vectorStore: VectorStore,
+    @Inject(EMBEDDING_PROVIDER) private readonly embeddings: EmbeddingProvider,
+    private readonly db: DbService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly policies: PolicyService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  // The request was validated by parseFeedbackRequest
+  async submit(request: FeedbackRequest, caller: QueryCaller): Promise<QueryFeedback> {
+    const datasource = this.datasources.get(request.datasource).name;
+    const exampleSql = request.correctedSql || (request.rating === 'up' ? request.sql : undefined);
+    if (exampleSql) {
+      await this.assertRuns(exampleSql, datasource, caller.role);
+    }
+
+    const { autoApprove } = this.config.get('fewShot', { infer: true });
+    const now = new Date().toISOString();
+    const feedback: QueryFeedback = {
+      id: randomUUID(),
+      prompt: request.prompt,
+      sql: request.sql,
+      rating: request.rating,
+      correctedSql: request.correctedSql,
+      comment: request.comment,
+      datasource,
+      caller,
+      exampleSql,
+      status: exampleSql ? (autoApprove ? 'approved' : 'pending') : undefined,
+      createdAt: now,
+      reviewedAt: exampleSql && autoApprove ? now : undefined,
+    };
+    await this.store.save(feedback);
+    if (feedback.status === 'approved') {
+      await this.index(feedback);
+    }
+    this.logger.log(
+      `Feedback ${feedback.id} (${feedback.rating || 'correction'})${feedback.status ? `, example ${feedback.status}` : ''}`,
+    );
+    return feedback;
+  }
+
+  async list(status?: ExampleStatus): Promise<QueryFeedback[]> {
+    return await this.store.list(status);
+  }
+
+  async get(id: string): Promise<QueryFeedback> {
+    const feedback = await this.store.get(id);
+    if (!feedback) {
+      throw new NotFoundException(`Feedback ${id} not found`);
+    }
+    return feedback;
+  }
+
+  // Approving embeds the example; rejecting takes it out of retrieval
+  async review(id: string, status: 'approved' | 'rejected'): Promise<QueryFeedback> {
+    const feedback = await this.get(id);
+    if (!feedback.exampleSql) {
+      throw new BadRequestException(`Feedback ${id} has no example to review`);
+    }
+    const reviewed = { ...feedback, status, reviewedAt: new Date().toISOString() };
+    if (status === 'approved') {
+      await this.index(reviewed);
+    } else {
+      await this.vectorStore.delete([id], EXAMPLE_NAMESPACE);
+    }
+    await this.store.save(reviewed);
+    this.logger.log(`Example ${id} ${status}`);
+    return reviewed;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.store.delete(id))) {
+      throw new NotFoundException(`Feedback ${id} not found`);
+    }
+    await this.vectorStore.delete([id], EXAMPLE_NAMESPACE);
+  }
+
+  // The approved examples most similar to the question, best first
+  async findSimilar(prompt: string, datasource?: string, role?: string): Promise<FewShotExample[]> {
+    const { enabled, topK, minScore } = this.config.get('fewShot', { infer: true });
+    if (!enabled) return [];
+    const name = this.datasources.get(datasource).name;
+
+    try {
+      const matches = await this.vectorStore.query(await this.embeddings.embed(prompt), {
+        topK,
+        namespace: EXAMPLE_NAMESPACE,
+        filter: { datasource: name },
+      });
+      const visible = await this.policies.visibleSelection(role, name);
+      const { dialect } = this.datasources.get(name);
+
+      const examples: FewShotExample[] = [];
+      for (const match of matches) {
+        if (match.score < minScore) continue;
+        const sql = String(match.metadata.sql);
+        if (visible) {
+          const refs = await this.sqlGuard.references(sql, dialect).catch(() => undefined);
+          if (!refs) continue;
+          const ctes = new Set(refs.ctes);
+          const hidden = refs.tables.some(
+            (table) => !ctes.has(table.name) && !visible.has(table.name),
+          );
+          if (hidden) continue;
+        }
+        examples.push({
+          id: match.id,
+          prompt: String(match.metadata.prompt),
+          sql,
+          score: match.score,
+        });
+      }
+      if (examples.length > 0) {
+        this.logger.log(
+          `Few-shot examples: ${examples.map((example) => `${example.id} (${example.score.toFixed(3)})`).join(', ')}`,
+        );
+      }
+      return examples;
+    } catch (error) {
+      this.logger.warn(`Few-shot retrieval failed, using no examples: ${error.message}`);
+      return [];
+    }
+  }
+
+  // Prompt section for the examples
+  render(examples: FewShotExample[]): string {
+    return [
+      'APPROVED EXAMPLES (similar questions answered correctly before):',
+      ...examples.map((example) => `- "${example.prompt}" → ${example.sql}`),
+    ].join('\n');
+  }
+
+  private async index(feedback: QueryFeedback): Promise<void> {
+    await this.vectorStore.upsert(
+      [
+        {
+          id: feedback.id,
+          values: await this.embeddings.embed(feedback.prompt),
+          metadata: {
+            prompt: feedback.prompt,
+            sql: feedback.exampleSql,
+            datasource: feedback.datasource,
+          },
+        },
+      ],
+      EXAMPLE_NAMESPACE,
+    );
+  }
+
+  // Examples must pass the guard, the submitter's access policy and EXPLAIN
+  private async assertRuns(sql: string, datasource: string, role?: string): Promise<void> {
+    const guard = await this.sqlGuard.validate(sql, {
+      allowWrites: false,
+      datasource: this.datasources.get(datasource),
+    });
+    if (guard.allowed === false) {
+      throw new BadRequestException({ message: `Guard: ${guard.reason}`, rule: guard.rule });
+    }
+    try {
+      await this.db.checkCost(sql, undefined, { datasource, role });
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      throw new BadRequestException(`The example SQL does not run: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureLlmProvider, LlmFixtureFile, RecordingLlmProvider } from './fixture-llm.provider';
+import { LlmProvider } from './llm.provider';
+import { QueryCancelledError } from './query-run';
+
+describe('FixtureLlmProvider', () => {
+  let dir: string;
+  let path: string;
+
+  const direct = [
+    new SystemMessage('Return only the PostgreSQL SQL.'),
+    new HumanMessage('how many contacts'),
+  ];
+  // A ReAct run asks twice: before and after it has seen the query result
+  const reactStart = [
+    new SystemMessage('Please respond with Thought, Action and Action Input.'),
+    new HumanMessage('Question: how many contacts'),
+  ];
+  const reactObserved = [
+    ...reactStart,
+    new AIMessage('Action: sql-query\nAction Input: SELECT COUNT(*) FROM contacts'),
+    new HumanMessage('Observation: [{"count":"132"}]'),
+  ];
+
+  const writeFixtures = (file: LlmFixtureFile) =>
+    writeFileSync(path, JSON.stringify(file, null, 2));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+    path = join(dir, 'llm.json');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('replays a direct-mode completion recorded from a real provider', async () => {
+    const inner = {
+      name: 'openai',
+      model: 'gpt-4o-mini',
+      invoke: jest.fn(async () => ({
+        content: 'SELECT COUNT(*) FROM contacts',
+        usage: { promptTokens: 20, completionTokens: 6, totalTokens: 26 },
+      })),
+    } as unknown as LlmProvider;
+    await new RecordingLlmProvider(inner, path).invoke(direct);
+
+    const replayed = await new FixtureLlmProvider(path).invoke(direct);
+
+    expect(replayed).toEqual({
+      content: 'SELECT COUNT(*) FROM contacts',
+      usage: { promptTokens: 20, completionTokens: 6, totalTokens: 26 },
+    });
+  });
+
+  it('replays each step of a ReAct run by matching the conversation', async () => {
+    writeFixtures({
+      entries: [
+        {
+          match: ['please respond with thought', 'how many contacts', 'observation:'],
+          completion: 'Final Answer: There are 132 contacts.',
+        },
+        {
+          match: ['please respond with thought', 'how many contacts'],
+          completion: 'Action: sql-query\nAction Input: SELECT COUNT(*) FROM contacts',
+        },
+      ],
+    });
+    const provider = new FixtureLlmProvider(path);
+
+    expect((await provider.invoke(reactStart)).content).toContain('Action: sql-query');
+    expect((await provider.invoke(reactObserved)).content).toBe(
+      'Final Answer: There are 132 contacts.',
+    );
+  });
+
+  it('skips entries whose excluded text appears in the conversation', async () => {
+    writeFixtures({
+      entries: [
+        { match: 'how many contacts', exclude: 'postgresql', completion: 'SELECT 1' },
+        { match: 'how many contacts', completion: 'SELECT COUNT(*) FROM contacts' },
+      ],
+    });
+
+    expect((await new FixtureLlmProvider(path).invoke(direct)).content).toBe(
+      'SELECT COUNT(*) FROM contacts',
+    );
+  });
+
+  it('fails when no fixture matches instead of inventing a completion', async () => {
+    writeFixtures({ entries: [] });
+
+    await expect(new FixtureLlmProvider(path).invoke(direct)).rejects.toThrow(
+      'No LLM fixture for key',
+    );
+  });
+
+  it('throws QueryCancelledError once the run is cancelled', async () => {
+    writeFixtures({ entries: [{ match: 'how many contacts', completion: 'SELECT 1' }] });
+    const abort = new AbortController();
+    abort.abort();
+
+    await expect(
+      new FixtureLlmProvider(path).invoke(direct, { signal: abort.signal }),
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+  });
+});
@@ -0,0 +1,185 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { BaseMessage } from '@langchain/core/messages';
+import { LlmCallOptions, LlmProvider } from './llm.provider';
+import { recordLlmUsage } from './llm-usage';
+import { LlmUpstreamError } from './errors';
+import { throwIfCancelled } from './query-run';
+import { LlmCompletion, LlmToolCall, LlmUsage } from './types';
+
+/**
+ * A recorded or hand-written completion. Recorded entries are looked up by
+ * `key` (a hash of the whole conversation); hand-written ones use `match`,
+ * substrings that must all appear in the conversation, and optionally
+ * `exclude`, substrings that must not. The conversation is matched as
+ * `[role] content` lines, so `[tool]` only matches once a tool has returned.
+ */
+export interface LlmFixtureEntry {
+  key?: string;
+  match?: string | string[];
+  exclude?: string | string[];
+  prompt?: string;
+  completion?: string;
+  toolCalls?: Array<Pick<LlmToolCall, 'name' | 'args'>>;
+  usage?: LlmUsage;
+}
+
+export interface LlmFixtureFile {
+  entries: LlmFixtureEntry[];
+}
+
+// Tool call ids differ between runs, so only names and arguments are kept
+function messageToolCalls(message: BaseMessage): string[] {
+  return (message.additional_kwargs?.tool_calls || []).map(
+    (call) => `${call.function.name}(${call.function.arguments})`,
+  );
+}
+
+export function fixtureKey(messages: BaseMessage[]): string {
+  const normalized = messages.map((message) => {
+    const toolCalls = messageToolCalls(message);
+    return {
+      role: message._getType(),
+      content: String(message.content),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  });
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').substring(0, 16);
+}
+
+function conversationText(messages: BaseMessage[]): string {
+  return messages
+    .map((message) =>
+      [`[${message._getType()}] ${String(message.content)}`, ...messageToolCalls(message)].join(
+        '\n',
+      ),
+    )
+    .join('\n')
+    .toLowerCase();
+}
+
+function lastPrompt(messages: BaseMessage[]): string {
+  return String(messages[messages.length - 1]?.content ?? '');
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).map((item) => item.toLowerCase());
+}
+
+/**
+ * Deterministic offline provider that replays completions from a JSON
+ * fixture file. Used in CI and local development without an API key.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture' as const;
+  readonly model = 'fixture';
+  private readonly logger = new Logger(FixtureLlmProvider.name);
+  private readonly entries: LlmFixtureEntry[];
+
+  constructor(private readonly path: string) {
+    if (!existsSync(path)) {
+      throw new Error(`LLM fixture file not found: ${path}`);
+    }
+    const file = JSON.parse(readFileSync(path, 'utf8')) as LlmFixtureFile;
+    this.entries = file.entries || [];
+    this.logger.log(`Loaded ${this.entries.length} LLM fixtures from ${path}`);
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmCallOptions = {}): Promise<LlmCompletion> {
+    throwIfCancelled(options.signal);
+    const key = fixtureKey(messages);
+    const entry = this.entries.find((item) => item.key === key) || this.findByMatch(messages);
+
+    if (!entry) {
+      throw new LlmUpstreamError(
+        this.name,
+        new Error(
+          `No LLM fixture for key ${key} (prompt: ${lastPrompt(messages).substring(0, 120)})`,
+        ),
+      );
+    }
+
+    const content = entry.completion || '';
+    if (options.onToken) {
+      // Replay word by word so streaming clients see incremental tokens
+      for (const token of content.match(/\S+\s*|\s+/g) || []) {
+        options.onToken(token);
+      }
+    }
+
+    const toolCalls = (entry.toolCalls || []).map((call, i) => ({
+      id: `call_${messages.length}_${i}`,
+      name: call.name,
+      args: call.args || {},
+    }));
+    recordLlmUsage(entry.usage);
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: entry.usage,
+    };
+  }
+
+  // The fixtures were loaded in the constructor
+  async ping(): Promise<void> {}
+
+  private findByMatch(messages: BaseMessage[]): LlmFixtureEntry | undefined {
+    const text = conversationText(messages);
+    return this.entries.find((entry) => {
+      const required = toList(entry.match);
+      if (required.length === 0) return false;
+      return (
+        required.every((needle) => text.includes(needle)) &&
+        !toList(entry.exclude).some((needle) => text.includes(needle))
+      );
+    });
+  }
+}
+
+/**
+ * Wraps a real provider and writes every prompt→completion pair to the
+ * fixture file, so the run can later be replayed with FixtureLlmProvider.
+ */
+export class RecordingLlmProvider implements LlmProvider {
+  private readonly logger = new Logger(RecordingLlmProvider.name);
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly path: string,
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmCallOptions = {}): Promise<LlmCompletion> {
+    const completion = await this.inner.invoke(messages, options);
+    const key = fixtureKey(messages);
+
+    const file: LlmFixtureFile = existsSync(this.path)
+      ? JSON.parse(readFileSync(this.path, 'utf8'))
+      : { entries: [] };
+    file.entries = (file.entries || []).filter((entry) => entry.key !== key);
+    file.entries.push({
+      key,
+      prompt: lastPrompt(messages),
+      completion: completion.content,
+      toolCalls: completion.toolCalls?.map((call) => ({ name: call.name, args: call.args })),
+      usage: completion.usage,
+    });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n');
+
+    this.logger.log(`Recorded LLM fixture ${key}`);
+    return completion;
+  }
+
+  async ping(): Promise<void> {
+    await this.inner.ping();
+  }
+}
@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import { EmbeddingProvider } from './embedding.provider';
+
+/**
+ * Deterministic bag-of-words feature hashing. No model, no network: good
+ * enough for keyword-level similarity in tests and offline runs.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash' as const;
+
+  constructor(readonly dimensions: number) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    for (const token of tokens) {
+      const digest = createHash('md5').update(token).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, Header, HttpStatus, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { HealthService } from './health.service';
+import { metricsRegistry } from './metrics';
+
+/**
+ * Probes and metrics for orchestrators and Prometheus. Not behind the API
+ * key guard: they expose no data, and scrapers and kubelets carry no keys.
+ */
+@Controller()
+export class HealthController {
+  constructor(private readonly health: HealthService) {}
+
+  // The process is up and serving; dependencies are not checked
+  @Get('health/live')
+  live() {
+    return { status: 'up' };
+  }
+
+  // 503 until the database, the LLM provider and the vector store all answer
+  @Get('health/ready')
+  async ready(@Res({ passthrough: true }) res: Response) {
+    const report = await this.health.readiness();
+    res.status(report.status === 'up' ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE);
+    return report;
+  }
+
+  @Get('metrics')
+  @Header('Content-Type', metricsRegistry.contentType)
+  async metrics() {
+    return await metricsRegistry.metrics();
+  }
+}
@@ -0,0 +1,61 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { HealthService } from './health.service';
+import { LlmProvider } from './llm.provider';
+import { VectorStore } from './vector-store';
+
+describe('HealthService', () => {
+  const config = new ConfigService<AppConfig, true>({ healthCheckTimeoutMs: 50 });
+  let internal: { name: string; query: jest.Mock; poolStats: () => object };
+  let llm: { name: string; model: string; ping: jest.Mock };
+  let health: HealthService;
+
+  beforeEach(() => {
+    internal = {
+      name: 'postgres',
+      query: jest.fn(async () => [{ '?column?': 1 }]),
+      poolStats: () => ({ total: 2, idle: 2, waiting: 0 }),
+    };
+    llm = { name: 'fixture', model: 'gpt-4o-mini', ping: jest.fn(async () => undefined) };
+    health = new HealthService(
+      { internal: () => internal } as unknown as DatasourceRegistry,
+      llm as unknown as LlmProvider,
+      { name: 'memory', ping: async () => undefined } as unknown as VectorStore,
+      config,
+    );
+  });
+
+  it('is up when every dependency answers', async () => {
+    const report = await health.readiness();
+
+    expect(report.status).toBe('up');
+    expect(report.checks.database).toMatchObject({
+      status: 'up',
+      details: { datasource: 'postgres', pool: { total: 2, idle: 2, waiting: 0 } },
+    });
+    expect(report.checks.llm.details).toEqual({ provider: 'fixture', model: 'gpt-4o-mini' });
+    expect(report.checks.vectorStore.details).toEqual({ store: 'memory' });
+  });
+
+  it('is down with the failing check’s error', async () => {
+    internal.query.mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:5433'));
+
+    const report = await health.readiness();
+
+    expect(report.status).toBe('down');
+    expect(report.checks.database).toMatchObject({
+      status: 'down',
+      error: 'connect ECONNREFUSED 127.0.0.1:5433',
+    });
+    expect(report.checks.llm.status).toBe('up');
+  });
+
+  it('gives up on a check after HEALTH_CHECK_TIMEOUT_MS', async () => {
+    llm.ping.mockImplementationOnce(() => new Promise(() => undefined));
+
+    const report = await health.readiness();
+
+    expect(report.checks.llm).toMatchObject({ status: 'down', error: 'No answer within 50ms' });
+  });
+});
@@ -0,0 +1,67 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatasourceRegistry } from './datasource-registry';
+import { LLM_PROVIDER, LlmProvider } from './llm.provider';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { HealthCheck, HealthReport } from './types';
+import { AppConfig } from './config';
+
+/**
+ * Readiness checks for what a query needs: the application's PostgreSQL
+ * pool, the LLM provider and the vector store. Each is checked on its own,
+ * concurrently, and gives up after HEALTH_CHECK_TIMEOUT_MS.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  constructor(
+    private readonly datasources: DatasourceRegistry,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    @Inject(VECTOR_STORE) private readonly vectorStore: VectorStore,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  async readiness(): Promise<HealthReport> {
+    const internal = this.datasources.internal();
+    const [database, llm, vectorStore] = await Promise.all([
+      this.check('database', async () => {
+        await internal.query('SELECT 1');
+        return { datasource: internal.name, pool: internal.poolStats() };
+      }),
+      this.check('llm', async () => {
+        await this.llm.ping();
+        return { provider: this.llm.name, model: this.llm.model };
+      }),
+      this.check('vectorStore', async () => {
+        await this.vectorStore.ping();
+        return { store: this.vectorStore.name };
+      }),
+    ]);
+    const checks = { database, llm, vectorStore };
+    const up = Object.values(checks).every((check) => check.status === 'up');
+    return { status: up ? 'up' : 'down', checks };
+  }
+
+  private async check(
+    name: string,
+    probe: () => Promise<Record<string, unknown>>,
+  ): Promise<HealthCheck> {
+    const timeoutMs = this.config.get('healthCheckTimeoutMs', { infer: true });
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No answer within ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    try {
+      const details = await Promise.race([probe(), timeout]);
+      return { status: 'up', latencyMs: Date.now() - startedAt, details };
+    } catch (error) {
+      this.logger.warn(`Readiness check ${name} failed: ${error.message}`);
+      return { status: 'down', latencyMs: Date.now() - startedAt, error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
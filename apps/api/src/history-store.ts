@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { HistoryEntry, HistoryFilter, HistoryStoreName } from './types';
+import { AppConfigService } from './config';
+import { MemoryHistoryStore } from './memory-history-store';
+import { PgHistoryStore } from './pg-history-store';
+
+export const HISTORY_STORE = 'HISTORY_STORE';
+
+/**
+ * Persistence for the query history. Inject it with `@Inject(HISTORY_STORE)`;
+ * the implementation is chosen by HISTORY_STORE.
+ */
+export interface HistoryStore {
+  readonly name: HistoryStoreName;
+  append(entry: HistoryEntry): Promise<void>;
+  get(id: string): Promise<HistoryEntry | null>;
+  // Matching entries, newest first
+  search(filter: HistoryFilter): Promise<HistoryEntry[]>;
+}
+
+export function createHistoryStore(db: DbService, config: AppConfigService): HistoryStore {
+  const logger = new Logger('HistoryStore');
+  const name = config.get('stores', { infer: true }).history;
+
+  let store: HistoryStore;
+  switch (name) {
+    case 'memory':
+      store = new MemoryHistoryStore();
+      break;
+    case 'postgres':
+      store = new PgHistoryStore(db);
+      break;
+    default:
+      throw new Error(`Unknown HISTORY_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} history store`);
+  return store;
+}
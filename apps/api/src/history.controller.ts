@@ -0,0 +1,100 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { QueryHistoryService } from './query-history.service';
+import { AdminKeyGuard, Caller } from './api-key.guard';
+import { HistoryFilter, QueryCaller, ReplayRequest } from './types';
+
+const OUTCOMES = ['success', 'error', 'cancelled', 'clarification'];
+const KINDS = ['query', 'stream', 'export', 'page', 'replay', 'saved'];
+const MAX_LIMIT = 500;
+
+// Query-string filters of GET /api/admin/history
+type HistoryQuery = Partial<Record<keyof HistoryFilter | 'failed', string>>;
+
+function parseFilter(query: HistoryQuery): HistoryFilter {
+  const count = (field: 'limit' | 'offset', fallback: number) => {
+    if (query[field] === undefined) return fallback;
+    const value = Number(query[field]);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new BadRequestException(`${field} must be a non-negative integer`);
+    }
+    return value;
+  };
+  for (const field of ['from', 'to'] as const) {
+    if (query[field] && Number.isNaN(Date.parse(query[field]))) {
+      throw new BadRequestException(`${field} must be an ISO 8601 timestamp`);
+    }
+  }
+  if (query.outcome && !OUTCOMES.includes(query.outcome)) {
+    throw new BadRequestException(`outcome must be one of ${OUTCOMES.join(', ')}`);
+  }
+  if (query.kind && !KINDS.includes(query.kind)) {
+    throw new BadRequestException(`kind must be one of ${KINDS.join(', ')}`);
+  }
+
+  return {
+    caller: query.caller,
+    role: query.role,
+    from: query.from && new Date(query.from).toISOString(),
+    to: query.to && new Date(query.to).toISOString(),
+    table: query.table,
+    // ?failed=true is shorthand for ?outcome=error
+    outcome: (query.outcome || (query.failed === 'true' ? 'error' : undefined)) as
+      | HistoryFilter['outcome']
+      | undefined,
+    kind: query.kind as HistoryFilter['kind'],
+    datasource: query.datasource,
+    limit: Math.min(count('limit', 50), MAX_LIMIT),
+    offset: count('offset', 0),
+  };
+}
+
+@Controller('api/admin/history')
+@UseGuards(AdminKeyGuard)
+export class HistoryController {
+  constructor(private readonly history: QueryHistoryService) {}
+
+  @Get()
+  async search(@Query() query: HistoryQuery) {
+    return await this.history.search(parseFilter(query));
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return await this.history.get(id);
+  }
+
+  /**
+   * Re-runs the entry's SQL (`"as": "sql"`, the default) or re-translates its
+   * prompt (`"as": "prompt"`), under the original caller's role.
+   */
+  @Post(':id/replay')
+  async replay(
+    @Param('id') id: string,
+    @Caller() caller: QueryCaller,
+    @Body() body: ReplayRequest = {},
+  ) {
+    const original = await this.history.get(id);
+    const result = await this.history.replay(original, body || {}, {
+      ...caller,
+      role: original.caller.role,
+    });
+
+    // Required behavior: print to Node console
+    console.log('\n--- History Replay ---');
+    console.log('Original:', original.id, `(${original.kind}, ${original.outcome})`);
+    console.log('Replayed as:', result.as);
+    console.log('SQL changed:', result.sqlChanged);
+    console.log('Row count:', `${original.rowCount ?? '-'} → ${result.rows.length}`);
+
+    return result;
+  }
+}
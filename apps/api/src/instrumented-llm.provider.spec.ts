@@ -0,0 +1,62 @@
+import { MetricValueWithName } from 'prom-client';
+import { InstrumentedLlmProvider } from './instrumented-llm.provider';
+import { LlmProvider } from './llm.provider';
+import { llmCallDuration, llmTokens, metricsRegistry } from './metrics';
+
+const CALLS = 'nl2sql_llm_call_duration_seconds_count';
+
+describe('InstrumentedLlmProvider', () => {
+  const inner = {
+    name: 'fixture',
+    model: 'gpt-4o-mini',
+    invoke: jest.fn(),
+    ping: jest.fn(),
+  };
+  const llm = new InstrumentedLlmProvider(inner as unknown as LlmProvider);
+
+  // The value of one labelled series, as GET /metrics would report it
+  const valueOf = async (name: string, labels: Record<string, string>) => {
+    const values = (await metricsRegistry.getMetricsAsJSON()).flatMap((metric) =>
+      metric.values.map((value: MetricValueWithName<string>) => ({
+        ...value,
+        metricName: value.metricName || metric.name,
+      })),
+    );
+    return values.find(
+      (value) =>
+        value.metricName === name &&
+        Object.entries(labels).every(([key, label]) => value.labels[key] === label),
+    )?.value;
+  };
+
+  beforeEach(() => {
+    llmTokens.reset();
+    llmCallDuration.reset();
+  });
+
+  it('counts the tokens of a completion by type and model', async () => {
+    inner.invoke.mockResolvedValueOnce({
+      content: 'SELECT 1',
+      usage: { promptTokens: 120, completionTokens: 8, totalTokens: 128 },
+    });
+
+    await llm.invoke([], { model: 'gpt-4o' });
+
+    const tokens = 'nl2sql_llm_tokens_total';
+    expect(await valueOf(tokens, { model: 'gpt-4o', type: 'prompt' })).toBe(120);
+    expect(await valueOf(tokens, { model: 'gpt-4o', type: 'completion' })).toBe(8);
+    expect(await valueOf(CALLS, { model: 'gpt-4o', outcome: 'success' })).toBe(1);
+  });
+
+  it('times a cancelled call apart from a failed one', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    inner.invoke.mockRejectedValue(new Error('aborted'));
+
+    await expect(llm.invoke([], { signal: controller.signal })).rejects.toThrow('aborted');
+    await expect(llm.invoke([])).rejects.toThrow('aborted');
+
+    expect(await valueOf(CALLS, { outcome: 'cancelled' })).toBe(1);
+    expect(await valueOf(CALLS, { outcome: 'error' })).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { LlmCallOptions, LlmProvider } from './llm.provider';
+import { llmCallDuration, llmTokens } from './metrics';
+import { withSpan } from './tracing';
+import { LlmCompletion } from './types';
+
+/**
+ * Wraps the configured provider with an `llm.invoke` span and the LLM
+ * latency and token metrics. createLlmProvider always adds it, outermost.
+ */
+export class InstrumentedLlmProvider implements LlmProvider {
+  constructor(private readonly inner: LlmProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmCallOptions = {}): Promise<LlmCompletion> {
+    const labels = { provider: this.name, model: options.model || this.model };
+    const stopTimer = llmCallDuration.startTimer(labels);
+    const attributes = {
+      'gen_ai.system': labels.provider,
+      'gen_ai.request.model': labels.model,
+      'llm.messages': messages.length,
+      'llm.tools': options.tools?.length || 0,
+      'llm.streaming': !!options.onToken,
+    };
+
+    return withSpan('llm.invoke', attributes, async (span) => {
+      try {
+        const completion = await this.inner.invoke(messages, options);
+        stopTimer({ outcome: 'success' });
+        const { promptTokens = 0, completionTokens = 0 } = completion.usage || {};
+        llmTokens.inc({ ...labels, type: 'prompt' }, promptTokens);
+        llmTokens.inc({ ...labels, type: 'completion' }, completionTokens);
+        span.setAttributes({
+          'gen_ai.usage.input_tokens': promptTokens,
+          'gen_ai.usage.output_tokens': completionTokens,
+          'llm.tool_calls': completion.toolCalls?.length || 0,
+        });
+        return completion;
+      } catch (error) {
+        stopTimer({ outcome: options.signal?.aborted ? 'cancelled' : 'error' });
+        throw error;
+      }
+    });
+  }
+
+  async ping(): Promise<void> {
+    await this.inner.ping();
+  }
+}
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LlmUsage } from './types';
+
+export interface LlmUsageTotals extends LlmUsage {
+  calls: number;
+}
+
+// Every meter the current call runs under, outermost first
+const meters = new AsyncLocalStorage<LlmUsageTotals[]>();
+
+/**
+ * Runs `fn` with a fresh usage meter: every LLM call made inside it, however
+ * deep in the services, is added to the totals returned alongside its result
+ * (and to those of any meter around this one). Pass `usage` to keep the
+ * totals when `fn` throws.
+ */
+export async function meterLlmUsage<T>(
+  fn: () => Promise<T>,
+  usage: LlmUsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+): Promise<{ result: T; usage: LlmUsageTotals }> {
+  const result = await meters.run([...(meters.getStore() || []), usage], fn);
+  return { result, usage };
+}
+
+// Called by LLM providers after each completion; a no-op outside meterLlmUsage
+export function recordLlmUsage(usage?: LlmUsage): void {
+  for (const meter of meters.getStore() || []) {
+    meter.calls++;
+    meter.promptTokens += usage?.promptTokens || 0;
+    meter.completionTokens += usage?.completionTokens || 0;
+    meter.totalTokens += usage?.totalTokens || 0;
+  }
+}
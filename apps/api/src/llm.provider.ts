@@ -0,0 +1,93 @@
+import { Logger } from '@nestjs/common';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { LlmCompletion, LlmProviderName, LlmToolDefinition } from './types';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { FixtureLlmProvider, RecordingLlmProvider } from './fixture-llm.provider';
+import { InstrumentedLlmProvider } from './instrumented-llm.provider';
+import { AppConfigService } from './config';
+
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export interface LlmCallOptions {
+  model?: string;
+  temperature?: number;
+  // Streams the completion token by token when set
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  // Tools the model may call instead of answering
+  tools?: LlmToolDefinition[];
+}
+
+/**
+ * Chat-completion backend used by both query modes. Inject it with
+ * `@Inject(LLM_PROVIDER)`; the implementation is chosen by LLM_PROVIDER.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  invoke(messages: BaseMessage[], options?: LlmCallOptions): Promise<LlmCompletion>;
+  // Resolves when the backend answers, without a completion; for the readiness check
+  ping(): Promise<void>;
+}
+
+/**
+ * Turns a completion back into an assistant message for the next turn of a
+ * tool-calling conversation. Tool calls are also kept in the OpenAI wire
+ * format, which is what this LangChain version sends back to the API.
+ */
+export function toAssistantMessage(completion: LlmCompletion): AIMessage {
+  const toolCalls = completion.toolCalls || [];
+  return new AIMessage({
+    content: completion.content,
+    tool_calls: toolCalls.map((call) => ({ id: call.id, name: call.name, args: call.args })),
+    additional_kwargs:
+      toolCalls.length > 0
+        ? {
+            tool_calls: toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: JSON.stringify(call.args) },
+            })),
+          }
+        : {},
+  });
+}
+
+export function createLlmProvider(config: AppConfigService): LlmProvider {
+  const logger = new Logger('LlmProvider');
+  const llm = config.get('llm', { infer: true });
+  const { provider: name, model, temperature, fixturesPath } = llm;
+
+  let provider: LlmProvider;
+  switch (name) {
+    case 'openai':
+      provider = new OpenAiLlmProvider('openai', {
+        apiKey: llm.openaiApiKey,
+        model,
+        temperature,
+      });
+      break;
+    case 'openai-compatible':
+      provider = new OpenAiLlmProvider('openai-compatible', {
+        // Local servers (Ollama, vLLM, LM Studio) usually ignore the key
+        apiKey: llm.apiKey || 'not-needed',
+        baseURL: llm.baseUrl,
+        model,
+        temperature,
+      });
+      break;
+    case 'fixture':
+      provider = new FixtureLlmProvider(fixturesPath);
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+
+  if (name !== 'fixture' && llm.recordFixtures) {
+    logger.log(`Recording LLM completions to ${fixturesPath}`);
+    provider = new RecordingLlmProvider(provider, fixturesPath);
+  }
+
+  logger.log(`Using ${provider.name} LLM provider (model: ${provider.model})`);
+  return new InstrumentedLlmProvider(provider);
+}
@@ -0,0 +1,59 @@
+import { ApiKeyStore } from './api-key-store';
+import { ApiKey, ApiKeyUsage } from './types';
+
+/**
+ * Process-local keys and usage; lost on restart.
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  readonly name = 'memory' as const;
+  private readonly keys = new Map<string, { key: ApiKey; secretHash: string }>();
+  private readonly usageByKey = new Map<string, Map<string, ApiKeyUsage>>();
+
+  async create(key: ApiKey, secretHash: string): Promise<void> {
+    this.keys.set(key.id, { key, secretHash });
+  }
+
+  async get(id: string): Promise<ApiKey | null> {
+    return this.keys.get(id)?.key || null;
+  }
+
+  async findBySecretHash(secretHash: string): Promise<ApiKey | null> {
+    const entry = [...this.keys.values()].find((item) => item.secretHash === secretHash);
+    return entry?.key || null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return [...this.keys.values()]
+      .map((entry) => entry.key)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<boolean> {
+    const entry = this.keys.get(id);
+    if (!entry) return false;
+    entry.key.revokedAt ??= revokedAt;
+    return true;
+  }
+
+  async addUsage(id: string, usage: ApiKeyUsage): Promise<void> {
+    const days = this.usageByKey.get(id) || new Map<string, ApiKeyUsage>();
+    this.usageByKey.set(id, days);
+    const total = days.get(usage.day);
+    if (!total) {
+      days.set(usage.day, { ...usage });
+      return;
+    }
+    total.requests += usage.requests;
+    total.llmCalls += usage.llmCalls;
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+  }
+
+  async usage(id: string, since: string): Promise<ApiKeyUsage[]> {
+    return [...(this.usageByKey.get(id)?.values() || [])]
+      .filter((usage) => usage.day >= since)
+      .sort((a, b) => b.day.localeCompare(a.day))
+      .map((usage) => ({ ...usage }));
+  }
+}
@@ -0,0 +1,28 @@
+import { FeedbackStore } from './feedback-store';
+import { ExampleStatus, QueryFeedback } from './types';
+
+/**
+ * Process-local feedback; lost on restart.
+ */
+export class MemoryFeedbackStore implements FeedbackStore {
+  readonly name = 'memory' as const;
+  private readonly entries = new Map<string, QueryFeedback>();
+
+  async save(feedback: QueryFeedback): Promise<void> {
+    this.entries.set(feedback.id, feedback);
+  }
+
+  async get(id: string): Promise<QueryFeedback | null> {
+    return this.entries.get(id) || null;
+  }
+
+  async list(status?: ExampleStatus): Promise<QueryFeedback[]> {
+    return [...this.entries.values()]
+      .filter((feedback) => !status || feedback.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+}
@@ -0,0 +1,48 @@
+import { HistoryStore } from './history-store';
+import { HistoryEntry, HistoryFilter } from './types';
+
+// Older entries are dropped past this many
+const MAX_ENTRIES = 1000;
+
+/**
+ * Process-local history of the most recent requests; lost on restart.
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  readonly name = 'memory' as const;
+  private readonly entries: HistoryEntry[] = [];
+
+  async append(entry: HistoryEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    return this.entries.find((entry) => entry.id === id) || null;
+  }
+
+  async search(filter: HistoryFilter): Promise<HistoryEntry[]> {
+    const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+    const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+    const table = filter.table?.toLowerCase();
+    return this.entries
+      .filter((entry) => {
+        const createdAt = new Date(entry.createdAt).getTime();
+        return (
+          createdAt >= from &&
+          createdAt <= to &&
+          (!filter.caller ||
+            entry.caller.keyId === filter.caller ||
+            entry.caller.keyName === filter.caller) &&
+          (!filter.role || entry.caller.role === filter.role) &&
+          (!table || entry.tables.includes(table)) &&
+          (!filter.outcome || entry.outcome === filter.outcome) &&
+          (!filter.kind || entry.kind === filter.kind) &&
+          (!filter.datasource || entry.datasource === filter.datasource)
+        );
+      })
+      .reverse()
+      .slice(filter.offset, filter.offset + filter.limit);
+  }
+}
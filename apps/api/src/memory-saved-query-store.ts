@@ -0,0 +1,36 @@
+import { SavedQueryStore } from './saved-query-store';
+import { SavedQuery } from './types';
+
+/**
+ * Process-local saved queries; lost on restart.
+ */
+export class MemorySavedQueryStore implements SavedQueryStore {
+  readonly name = 'memory' as const;
+  private readonly queries = new Map<string, SavedQuery>();
+  private readonly owners = new Map<string, string>();
+
+  async save(owner: string, query: SavedQuery): Promise<void> {
+    this.queries.set(query.id, query);
+    this.owners.set(query.id, owner);
+  }
+
+  async get(id: string, owner: string): Promise<SavedQuery | null> {
+    return this.owners.get(id) === owner ? this.queries.get(id) || null : null;
+  }
+
+  async findByName(name: string, owner: string): Promise<SavedQuery | null> {
+    return (await this.list(owner)).find((query) => query.name === name) || null;
+  }
+
+  async list(owner: string): Promise<SavedQuery[]> {
+    return [...this.queries.values()]
+      .filter((query) => this.owners.get(query.id) === owner)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async delete(id: string, owner: string): Promise<boolean> {
+    if (this.owners.get(id) !== owner) return false;
+    this.owners.delete(id);
+    return this.queries.delete(id);
+  }
+}
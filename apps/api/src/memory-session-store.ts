@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { SessionStore } from './session-store';
+import { QuerySession, QuerySessionSummary, SessionTurn } from './types';
+
+/**
+ * Process-local sessions; lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly name = 'memory' as const;
+  private readonly sessions = new Map<string, QuerySession>();
+  private readonly owners = new Map<string, string>();
+
+  async create(owner: string, title?: string): Promise<QuerySession> {
+    const now = new Date().toISOString();
+    const session: QuerySession = {
+      id: randomUUID(),
+      title,
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+    };
+    this.sessions.set(session.id, session);
+    this.owners.set(session.id, owner);
+    return session;
+  }
+
+  async get(id: string, owner: string): Promise<QuerySession | null> {
+    return this.owners.get(id) === owner ? this.sessions.get(id) : null;
+  }
+
+  async list(owner: string): Promise<QuerySessionSummary[]> {
+    return [...this.sessions.values()]
+      .filter((session) => this.owners.get(session.id) === owner)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ turns, ...session }) => ({ ...session, turnCount: turns.length }));
+  }
+
+  async delete(id: string, owner: string): Promise<boolean> {
+    if (this.owners.get(id) !== owner) return false;
+    this.owners.delete(id);
+    return this.sessions.delete(id);
+  }
+
+  async appendTurn(id: string, turn: SessionTurn): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    session.turns.push(turn);
+    session.updatedAt = turn.createdAt;
+  }
+}
@@ -0,0 +1,66 @@
+import { VectorListOptions, VectorQueryOptions, VectorStore, matchesFilter } from './vector-store';
+import { VectorMatch, VectorRecord } from './types';
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Process-local store with brute-force cosine search. For tests and offline
+ * runs; contents are lost on restart.
+ */
+export class MemoryVectorStore implements VectorStore {
+  readonly name = 'memory' as const;
+  private readonly namespaces = new Map<string, Map<string, VectorRecord>>();
+
+  async upsert(records: VectorRecord[], namespace = ''): Promise<void> {
+    const stored = this.namespaceRecords(namespace);
+    for (const record of records) {
+      stored.set(record.id, { ...record, metadata: record.metadata || {} });
+    }
+  }
+
+  async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const records = [...this.namespaceRecords(options.namespace || '').values()];
+    return records
+      .filter((record) => matchesFilter(record.metadata, options.filter))
+      .map((record) => ({
+        id: record.id,
+        score: cosineSimilarity(vector, record.values),
+        metadata: record.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+  }
+
+  async list(options: VectorListOptions = {}): Promise<string[]> {
+    const ids = [...this.namespaceRecords(options.namespace || '').keys()];
+    return ids.filter((id) => id.startsWith(options.prefix || '')).sort();
+  }
+
+  async delete(ids: string[], namespace = ''): Promise<void> {
+    const records = this.namespaceRecords(namespace);
+    ids.forEach((id) => records.delete(id));
+  }
+
+  async deleteAll(namespace = ''): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+
+  async ping(): Promise<void> {}
+
+  private namespaceRecords(namespace: string): Map<string, VectorRecord> {
+    if (!this.namespaces.has(namespace)) {
+      this.namespaces.set(namespace, new Map());
+    }
+    return this.namespaces.get(namespace);
+  }
+}
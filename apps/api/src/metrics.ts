@@ -0,0 +1,71 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics, served by GET /metrics. Metrics are process-wide, like
+ * the meters in llm-usage.ts, so services record them without injection.
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const registers = [metricsRegistry];
+
+// Recorded by QueryHistoryService for every query, stream, export, page and replay request
+export const requestsTotal = new Counter({
+  name: 'nl2sql_requests_total',
+  help: 'Requests by kind, mode and outcome',
+  labelNames: ['kind', 'mode', 'outcome'] as const,
+  registers,
+});
+
+export const requestDuration = new Histogram({
+  name: 'nl2sql_request_duration_seconds',
+  help: 'Request duration by kind, mode and outcome',
+  labelNames: ['kind', 'mode', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers,
+});
+
+export const llmCallDuration = new Histogram({
+  name: 'nl2sql_llm_call_duration_seconds',
+  help: 'LLM completion latency by provider, model and outcome',
+  labelNames: ['provider', 'model', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 60],
+  registers,
+});
+
+export const llmTokens = new Counter({
+  name: 'nl2sql_llm_tokens_total',
+  help: 'LLM tokens by provider, model and type (prompt or completion)',
+  labelNames: ['provider', 'model', 'type'] as const,
+  registers,
+});
+
+// Generated SQL only; planning and application queries are not counted
+export const sqlExecutionDuration = new Histogram({
+  name: 'nl2sql_sql_execution_duration_seconds',
+  help: 'Generated SQL execution time by datasource and outcome',
+  labelNames: ['datasource', 'outcome'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers,
+});
+
+export const reactIterations = new Histogram({
+  name: 'nl2sql_react_iterations',
+  help: 'ReAct agent iterations per run',
+  buckets: [1, 2, 3, 4, 5, 6, 8, 10, 15],
+  registers,
+});
+
+export const reactFallbacks = new Counter({
+  name: 'nl2sql_react_fallbacks_total',
+  help: 'ReAct requests answered in direct mode, by reason (disabled or failed)',
+  labelNames: ['reason'] as const,
+  registers,
+});
+
+export const guardRejections = new Counter({
+  name: 'nl2sql_guard_rejections_total',
+  help: 'SQL rejected by the guard, by rule',
+  labelNames: ['rule'] as const,
+  registers,
+});
@@ -0,0 +1,84 @@
+import { Readable } from 'stream';
+import { DatasourceRunOptions } from './datasource';
+import { MysqlDatasource } from './mysql-datasource';
+
+// A pool connection whose streamed query yields `rows`, recording the SQL it is sent
+function fakeConnection(rows: any[]) {
+  const sent: string[] = [];
+  return {
+    sent,
+    query: jest.fn(async (sql: string) => {
+      sent.push(sql);
+      return [[]];
+    }),
+    connection: {
+      query: ({ sql }: { sql: string }) => {
+        sent.push(sql);
+        return { stream: () => Readable.from(rows) };
+      },
+    },
+    release: jest.fn(),
+    destroy: jest.fn(),
+  };
+}
+
+describe('MysqlDatasource', () => {
+  const datasource = new MysqlDatasource('warehouse', 'mysql', 'mysql://localhost/crm', 1);
+  const options: DatasourceRunOptions = {
+    params: [],
+    limits: { timeoutMs: 1000, maxRows: 3, maxPlanCost: 1e6, maxPlanRows: 1e6 },
+    batchSize: 2,
+    statementType: 'SelectStmt',
+    allowWrites: false,
+  };
+  const JOIN = 'SELECT c.id, k.id FROM contacts c JOIN cases k ON k.contact_id = c.id';
+  let connection: ReturnType<typeof fakeConnection>;
+
+  const read = async (runOptions = options) => {
+    const rows: any[] = [];
+    const result = await datasource.run(JOIN, runOptions, async (batch) => {
+      rows.push(...batch);
+    });
+    return { ...result, rows };
+  };
+
+  beforeEach(() => {
+    connection = fakeConnection(Array.from({ length: 10 }, (_, index) => [index + 1, index + 1]));
+    jest.spyOn((datasource as any).pool, 'getConnection').mockResolvedValue(connection);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => datasource.close());
+
+  it('runs a join with duplicate column names as written', async () => {
+    await read();
+
+    expect(connection.sent).toEqual([
+      'SET SESSION max_execution_time = 1000',
+      'START TRANSACTION READ ONLY',
+      JOIN,
+    ]);
+  });
+
+  it('closes the connection once the row past the cap arrives', async () => {
+    const result = await read();
+
+    expect(result.rows).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+    expect(connection.destroy).toHaveBeenCalled();
+    expect(connection.release).not.toHaveBeenCalled();
+  });
+
+  it('skips to the offset', async () => {
+    const result = await read({ ...options, offset: 8 });
+
+    expect(result.rows).toEqual([
+      [9, 9],
+      [10, 10],
+    ]);
+    expect(result.truncated).toBe(false);
+    expect(connection.sent).toContain('COMMIT');
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,241 @@
+import { createPool, FieldPacket, Pool } from 'mysql2/promise';
+import { Connection as CallbackConnection, Types } from 'mysql2';
+import { types } from 'pg';
+import { BatchHandler, Datasource, DatasourceRunOptions } from './datasource';
+import { CatalogTable, PlanEstimate, ResultColumn, SqlDialect } from './types';
+
+const { INT4, INT8, FLOAT4, FLOAT8, NUMERIC, DATE, TIMESTAMP, TIMESTAMPTZ, TEXT } = types.builtins;
+
+// MySQL column types onto the Postgres OIDs the exporters understand
+const TYPE_OIDS = new Map<number, number>([
+  [Types.TINY, INT4],
+  [Types.SHORT, INT4],
+  [Types.INT24, INT4],
+  [Types.LONG, INT4],
+  [Types.YEAR, INT4],
+  [Types.LONGLONG, INT8],
+  [Types.FLOAT, FLOAT4],
+  [Types.DOUBLE, FLOAT8],
+  [Types.DECIMAL, NUMERIC],
+  [Types.NEWDECIMAL, NUMERIC],
+  [Types.DATE, DATE],
+  [Types.NEWDATE, DATE],
+  [Types.DATETIME, TIMESTAMP],
+  [Types.TIMESTAMP, TIMESTAMPTZ],
+  [Types.JSON, types.builtins.JSON],
+]);
+
+function toColumns(fields: FieldPacket[]): ResultColumn[] {
+  return fields.map((field) => ({
+    name: field.name,
+    dataTypeID: TYPE_OIDS.get(field.columnType) ?? TEXT,
+  }));
+}
+
+// Largest row estimate anywhere in an EXPLAIN FORMAT=JSON plan
+function maxPlanRows(node: any): number {
+  if (!node || typeof node !== 'object') return 0;
+  let rows = Number(node.rows_produced_per_join ?? node.rows ?? 0) || 0;
+  for (const value of Object.values(node)) {
+    rows = Math.max(rows, maxPlanRows(value));
+  }
+  return rows;
+}
+
+// Tables read with access_type ALL (a full table scan) in an EXPLAIN FORMAT=JSON plan
+function fullScans(node: any, found: Set<string> = new Set()): Set<string> {
+  if (!node || typeof node !== 'object') return found;
+  if (node.access_type === 'ALL' && typeof node.table_name === 'string') {
+    found.add(node.table_name);
+  }
+  for (const value of Object.values(node)) fullScans(value, found);
+  return found;
+}
+
+/**
+ * MySQL and MariaDB: a READ ONLY transaction with max_execution_time
+ * (max_statement_time on MariaDB). SELECTs are streamed as written and the
+ * connection is closed once the row one past the cap arrives, so the rest of
+ * the result is never read.
+ */
+export class MysqlDatasource implements Datasource {
+  readonly driver = 'mysql';
+  readonly schema: string;
+  private readonly pool: Pool;
+
+  constructor(
+    readonly name: string,
+    readonly dialect: SqlDialect,
+    url: string,
+    poolSize: number,
+  ) {
+    this.schema = decodeURIComponent(new URL(url).pathname.slice(1));
+    this.pool = createPool({
+      uri: url,
+      connectionLimit: poolSize,
+      // Same value shapes as the pg driver: exact bigint/decimal strings, 'YYYY-MM-DD' dates
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+      dateStrings: ['DATE'],
+    });
+  }
+
+  async estimate(sql: string, params: any[] = []): Promise<PlanEstimate> {
+    const [rows] = await this.pool.query(`EXPLAIN FORMAT=JSON ${sql}`, params);
+    const plan = JSON.parse((rows as any[])[0].EXPLAIN);
+    // MariaDB plans carry row estimates but no cost
+    return {
+      totalCost: Number(plan.query_block?.cost_info?.query_cost || 0),
+      planRows: maxPlanRows(plan),
+      fullScans: [...fullScans(plan)],
+    };
+  }
+
+  async run(
+    sql: string,
+    options: DatasourceRunOptions,
+    onBatch: BatchHandler,
+  ): Promise<{ rowCount: number; truncated: boolean }> {
+    const { params, limits, batchSize } = options;
+    const isSelect = options.statementType === 'SelectStmt';
+    const connection = await this.pool.getConnection();
+    let destroyed = false;
+    try {
+      await connection.query(
+        this.dialect === 'mariadb'
+          ? `SET SESSION max_statement_time = ${limits.timeoutMs / 1000}`
+          : `SET SESSION max_execution_time = ${Math.floor(limits.timeoutMs)}`,
+      );
+      await connection.query(
+        options.allowWrites ? 'START TRANSACTION' : 'START TRANSACTION READ ONLY',
+      );
+
+      // The promise wrapper has no row streaming; its underlying connection does
+      const callbackConnection = connection.connection as unknown as CallbackConnection;
+      const stream = callbackConnection.query({ sql, values: params }).stream();
+      let columns: ResultColumn[] = [];
+      stream.on('fields', (fields: FieldPacket[]) => {
+        columns = toColumns(fields || []);
+      });
+
+      let skipped = 0;
+      let rowCount = 0;
+      let truncated = false;
+      let batch: any[] = [];
+      let stopped = false;
+      for await (const row of stream) {
+        if (isSelect && skipped < (options.offset || 0)) {
+          skipped++;
+          continue;
+        }
+        if (isSelect && rowCount === limits.maxRows) {
+          truncated = true;
+          break;
+        }
+        batch.push(row);
+        rowCount++;
+        if (batch.length === batchSize) {
+          const more = await onBatch(batch, columns);
+          batch = [];
+          if (more === false) {
+            stopped = true;
+            break;
+          }
+        }
+      }
+      if (!stopped && (batch.length > 0 || rowCount === 0 || !isSelect)) {
+        await onBatch(batch, columns);
+      }
+
+      if (stopped || truncated) {
+        // The server is still sending the rest of the result; closing the
+        // connection is the only way to stop it, and rolls the transaction back
+        destroyed = true;
+        connection.destroy();
+      } else {
+        await connection.query('COMMIT');
+      }
+      return { rowCount, truncated };
+    } catch (error) {
+      if (!destroyed) await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      if (!destroyed) connection.release();
+    }
+  }
+
+  async introspect(): Promise<CatalogTable[]> {
+    const [relations] = await this.pool.query<any[]>(`
+      SELECT TABLE_NAME AS name, TABLE_TYPE AS table_type, TABLE_COMMENT AS comment
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = DATABASE() AND TABLE_TYPE IN ('BASE TABLE', 'VIEW')
+      ORDER BY TABLE_NAME
+    `);
+    const [columns] = await this.pool.query<any[]>(`
+      SELECT
+        TABLE_NAME AS table_name,
+        COLUMN_NAME AS column_name,
+        COLUMN_TYPE AS data_type,
+        IS_NULLABLE = 'YES' AS nullable,
+        COLUMN_DEFAULT AS default_value,
+        COLUMN_COMMENT AS comment
+      FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE()
+      ORDER BY TABLE_NAME, ORDINAL_POSITION
+    `);
+    const [keys] = await this.pool.query<any[]>(`
+      SELECT
+        k.TABLE_NAME AS table_name,
+        k.CONSTRAINT_NAME AS name,
+        tc.CONSTRAINT_TYPE AS type,
+        k.COLUMN_NAME AS column_name,
+        k.REFERENCED_TABLE_NAME AS referenced_table,
+        k.REFERENCED_COLUMN_NAME AS referenced_column
+      FROM information_schema.KEY_COLUMN_USAGE k
+      JOIN information_schema.TABLE_CONSTRAINTS tc
+        ON tc.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+        AND tc.TABLE_NAME = k.TABLE_NAME
+        AND tc.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+      WHERE k.TABLE_SCHEMA = DATABASE()
+        AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'FOREIGN KEY')
+      ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION
+    `);
+
+    return relations.map((relation) => {
+      const tableKeys = keys.filter((key) => key.table_name === relation.name);
+      const foreignKeys = new Map<string, any[]>();
+      for (const key of tableKeys.filter((item) => item.type === 'FOREIGN KEY')) {
+        foreignKeys.set(key.name, [...(foreignKeys.get(key.name) || []), key]);
+      }
+      const isView = relation.table_type === 'VIEW';
+      return {
+        name: relation.name,
+        type: isView ? 'view' : 'table',
+        // MySQL reports 'VIEW' as the comment of every view
+        comment: (!isView && relation.comment) || undefined,
+        columns: columns
+          .filter((column) => column.table_name === relation.name)
+          .map((column) => ({
+            name: column.column_name,
+            dataType: column.data_type,
+            nullable: !!column.nullable,
+            defaultValue: column.default_value ?? undefined,
+            comment: column.comment || undefined,
+          })),
+        primaryKey: tableKeys
+          .filter((key) => key.type === 'PRIMARY KEY')
+          .map((key) => key.column_name),
+        foreignKeys: [...foreignKeys.entries()].map(([name, parts]) => ({
+          name,
+          columns: parts.map((part) => part.column_name),
+          referencedTable: parts[0].referenced_table,
+          referencedColumns: parts.map((part) => part.referenced_column),
+        })),
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
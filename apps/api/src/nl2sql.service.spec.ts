@@ -0,0 +1,134 @@
+import { ConfigService } from '@nestjs/config';
+import { BaseMessage } from '@langchain/core/messages';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { DbService, QueryCostError } from './db.service';
+import { SqlExecutionError } from './errors';
+import { FewShotService } from './few-shot.service';
+import { LlmProvider } from './llm.provider';
+import { Nl2SqlService } from './nl2sql.service';
+import { PaginationService } from './pagination.service';
+import { ReactAgentService } from './react-agent.service';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { SchemaLinkerService } from './schema-linker.service';
+import { SqlErrorAnalyzerService } from './sql-error-analyzer.service';
+import { SqlGuardService } from './sql-guard.service';
+
+// A planner error the way pg reports it, with its SQLSTATE
+const pgError = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+describe('Nl2SqlService direct mode', () => {
+  const config = new ConfigService<AppConfig, true>({
+    sql: {
+      allowWrites: false,
+      maxAttempts: 3,
+      statementTimeoutMs: 1000,
+      maxRows: 100,
+      exportMaxRows: 100,
+      maxPlanCost: 1e6,
+      maxPlanRows: 1e6,
+    },
+    clarification: { enabled: false, maxRounds: 0 },
+  });
+  const catalog = {
+    getCatalog: async () => ({
+      tables: [{ name: 'contacts', columns: [{ name: 'id' }, { name: 'first_name' }] }],
+    }),
+    getTableNames: async () => ['contacts'],
+  } as unknown as SchemaCatalogService;
+  const ESTIMATE = { totalCost: 12, planRows: 40 };
+  let completions: jest.Mock;
+  let checkCost: jest.Mock;
+  let nl2sql: Nl2SqlService;
+
+  // The model answers with each SQL in turn
+  const answers = (...sql: string[]) =>
+    sql.forEach((content) => completions.mockResolvedValueOnce({ content }));
+
+  beforeEach(() => {
+    completions = jest.fn();
+    checkCost = jest.fn(async () => ESTIMATE);
+    nl2sql = new Nl2SqlService(
+      {} as ReactAgentService,
+      new SqlGuardService(),
+      {
+        buildPromptSchema: async () => ({ schema: 'contacts(id, first_name)' }),
+      } as unknown as SchemaLinkerService,
+      { checkCost } as unknown as DbService,
+      {
+        firstPage: async (sql: string) => ({ rows: [{ sql }], truncated: false }),
+      } as unknown as PaginationService,
+      new SqlErrorAnalyzerService(catalog),
+      {
+        get: () => ({ name: 'postgres', dialect: 'postgresql', schema: 'public' }),
+      } as unknown as DatasourceRegistry,
+      { findSimilar: async () => [] } as unknown as FewShotService,
+      { invoke: completions } as unknown as LlmProvider,
+      config,
+    );
+  });
+
+  it('sends a planner error back to the model and runs its correction', async () => {
+    answers('SELECT firstname FROM contacts', 'SELECT first_name FROM contacts');
+    checkCost.mockRejectedValueOnce(pgError('column "firstname" does not exist', '42703'));
+
+    const result = await nl2sql.runDirect('first names of the contacts');
+
+    expect(result.sql).toBe('SELECT first_name FROM contacts');
+    expect(result.attempts).toEqual([
+      {
+        attempt: 1,
+        sql: 'SELECT firstname FROM contacts',
+        stage: 'explain',
+        error: 'column "firstname" does not exist',
+        errorType: 'COLUMN_NOT_FOUND',
+        estimate: undefined,
+      },
+      { attempt: 2, sql: 'SELECT first_name FROM contacts', estimate: ESTIMATE },
+    ]);
+    const repair = (completions.mock.calls[1][0] as BaseMessage[]).slice(-2);
+    expect(repair[0].content).toBe('SELECT firstname FROM contacts');
+    expect(repair[1].content).toContain('COLUMN_NOT_FOUND: column "firstname" does not exist');
+    expect(repair[1].content).toContain('Columns of contacts: id, first_name');
+  });
+
+  it('repairs SQL the guard rejects before it is planned', async () => {
+    answers('DELETE FROM contacts', 'SELECT id FROM contacts');
+
+    const result = await nl2sql.runDirect('the contacts');
+
+    expect(result.attempts.map((attempt) => attempt.stage)).toEqual(['guard', undefined]);
+    expect(result.attempts[0].errorType).toBe('SAFETY_GUARD');
+    expect(checkCost).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the estimate of SQL over the cost limit', async () => {
+    const expensive = { totalCost: 5e6, planRows: 40 };
+    answers('SELECT * FROM contacts, contacts c2', 'SELECT id FROM contacts');
+    checkCost.mockRejectedValueOnce(new QueryCostError(expensive, 'estimated cost too high'));
+
+    const result = await nl2sql.runDirect('every pair of contacts');
+
+    expect(result.attempts[0]).toMatchObject({ errorType: 'COST_LIMIT', estimate: expensive });
+  });
+
+  it('gives up after SQL_MAX_ATTEMPTS with every attempt', async () => {
+    answers('SELECT a FROM contacts', 'SELECT b FROM contacts', 'SELECT c FROM contacts');
+    checkCost.mockRejectedValue(pgError('column does not exist', '42703'));
+
+    const error = await nl2sql.runDirect('contacts').catch((error) => error);
+
+    expect(error).toBeInstanceOf(SqlExecutionError);
+    expect(error.message).toBe('SQL failed after 3 attempt(s): column does not exist');
+    expect(error.getResponse().attempts).toHaveLength(3);
+    expect(completions).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not ask the model to fix errors that are not in the SQL', async () => {
+    answers('SELECT id FROM contacts');
+    checkCost.mockRejectedValueOnce(pgError('connect ECONNREFUSED 127.0.0.1:5432', 'ECONNREFUSED'));
+
+    await expect(nl2sql.runDirect('contacts')).rejects.toThrow('ECONNREFUSED');
+    expect(completions).toHaveBeenCalledTimes(1);
+  });
+});
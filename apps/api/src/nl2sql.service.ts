@@ -1,39 +1,78 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { Nl2SqlResult, QueryMode, ReactQueryResult } from './types';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import {
+  DirectQueryResult,
+  FewShotExample,
+  LinkedTable,
+  Nl2SqlResult,
+  PlanEstimate,
+  QueryMode,
+  QueryRunOptions,
+  ReactQueryResult,
+  SessionTurn,
+  SqlAttempt,
+  SqlErrorAnalysis,
+} from './types';
 import { ReactAgentService } from './react-agent.service';
+import { SqlGuardService } from './sql-guard.service';
+import { SchemaLinkerService } from './schema-linker.service';
+import { formatConversationHistory } from './session-store';
+import { QueryCancelledError, resolveQueryLimits, throwIfCancelled } from './query-run';
+import { DbService, QueryCostError } from './db.service';
+import { SqlErrorAnalyzerService } from './sql-error-analyzer.service';
+import { PaginationService } from './pagination.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { reactFallbacks, reactIterations } from './metrics';
+import { DIALECT_LABELS } from './datasource';
+import { LLM_PROVIDER, LlmProvider } from './llm.provider';
+import { FewShotService } from './few-shot.service';
+import { SqlExecutionError } from './errors';
+import {
+  ClarificationNeededError,
+  canClarify,
+  formatClarifications,
+  parseClarification,
+} from './clarification';
+import { AppConfig } from './config';
+
+const NO_DATA_SQL = "SELECT 'No data available' as message LIMIT 1";
 
 @Injectable()
 export class Nl2SqlService {
   private readonly logger = new Logger(Nl2SqlService.name);
 
-  constructor(private readonly reactAgentService: ReactAgentService) {}
-
-  private readonly DB_SCHEMA = `
-DATABASE SCHEMA (PostgreSQL):
-Tables:
-  contacts(id SERIAL PRIMARY KEY, first_name VARCHAR(100), last_name VARCHAR(100), created_at TIMESTAMP WITH TIME ZONE, updated_at TIMESTAMP WITH TIME ZONE)
-  cases(id SERIAL PRIMARY KEY, topic TEXT, created_at TIMESTAMP WITH TIME ZONE, updated_at TIMESTAMP WITH TIME ZONE)
-
-Views:
-  recent_activity(type VARCHAR, id INTEGER, description TEXT, created_at TIMESTAMP WITH TIME ZONE)
+  constructor(
+    private readonly reactAgentService: ReactAgentService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly schemaLinker: SchemaLinkerService,
+    private readonly db: DbService,
+    private readonly pagination: PaginationService,
+    private readonly errorAnalyzer: SqlErrorAnalyzerService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly fewShot: FewShotService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
 
+  // The schema section is rendered from the live catalog, see SchemaLinkerService
+  private queryRules(dialect: string, clarify: boolean): string {
+    return `
 QUERY GENERATION RULES:
-1. ONLY generate SELECT queries for reading data from contacts, cases tables, and recent_activity view
+1. ONLY generate SELECT queries for reading data from the tables and views listed above
 2. For ANY request that involves writing, updating, deleting, or creating data: SELECT 'No data available' as message LIMIT 1
 3. For requests beyond simple data retrieval: SELECT 'No data available' as message LIMIT 1
-4. ALWAYS add "LIMIT 10" to data queries unless user explicitly asks for "all", "count", or specifies a different number
+4. Do NOT add a LIMIT unless the user asks for a specific number of rows ("first 5", "top 3"); the API paginates results, so ORDER BY a key for stable pages
 5. For greetings like "hi", "hello": SELECT 'Hello! Ask me about contacts or cases.' as message LIMIT 1
 6. For vague queries, default to the most relevant table based on keywords:
    - Keywords like "people", "users", "contacts", "names" → use contacts table
    - Keywords like "issues", "cases", "topics", "problems" → use cases table
    - Keywords like "recent", "activity", "latest" → use recent_activity view
-   - If unclear, default to contacts table
+   - ${clarify ? 'If no table clearly fits, ask which one (see AMBIGUOUS QUESTIONS)' : 'If unclear, default to contacts table'}
 7. Use proper WHERE clauses for filtering based on user criteria
 8. For counting: use COUNT(*) without LIMIT
-9. For date ranges: use proper timestamp comparisons with PostgreSQL syntax
-10. Generate ONLY PostgreSQL-compatible SQL
+9. For date ranges: use proper timestamp comparisons with ${dialect} syntax
+10. Generate ONLY ${dialect}-compatible SQL
 11. Return ONLY the final SQL, no explanation
 
 EXAMPLES:
@@ -41,109 +80,363 @@ EXAMPLES:
 - "create user" → SELECT 'No data available' as message LIMIT 1
 - "delete contacts" → SELECT 'No data available' as message LIMIT 1
 - "update records" → SELECT 'No data available' as message LIMIT 1
-- "show me users" → SELECT * FROM contacts LIMIT 10
-- "recent contacts" → SELECT * FROM contacts ORDER BY created_at DESC LIMIT 10
-- "all contacts" → SELECT * FROM contacts
+- "show me users" → SELECT * FROM contacts ORDER BY id
+- "recent contacts" → SELECT * FROM contacts ORDER BY created_at DESC
+- "all contacts" → SELECT * FROM contacts ORDER BY id
 - "count contacts" → SELECT COUNT(*) FROM contacts
 - "first 5 contacts" → SELECT * FROM contacts LIMIT 5
-- "recent activity" → SELECT * FROM recent_activity LIMIT 10
+- "recent activity" → SELECT * FROM recent_activity
+${clarify ? this.clarificationRules() : ''}`;
+  }
+
+  private clarificationRules(): string {
+    return `
+AMBIGUOUS QUESTIONS:
+Do not guess when the question could mean more than one table or entity, needs a time range it does not give ("recent", "lately"), or several columns could answer it. Instead of SQL, reply with only this JSON:
+{"clarification": {"question": "<what to ask>", "reason": "entity" | "time_range" | "column", "options": ["<option>", "..."]}}
+Give 2 to 5 specific options taken from the schema (table or column names) or concrete time ranges.
+Greetings, write requests and questions with one obvious reading are not ambiguous.
 `;
+  }
 
-  async translate(prompt: string): Promise<Nl2SqlResult> {
-    return this.translateDirect(prompt);
+  async translate(
+    prompt: string,
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<Nl2SqlResult> {
+    return this.translateDirect(prompt, history, run);
   }
 
-  async process(prompt: string, mode: QueryMode = 'direct'): Promise<Nl2SqlResult | ReactQueryResult> {
+  async process(
+    prompt: string,
+    mode: QueryMode = 'direct',
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<Nl2SqlResult | ReactQueryResult> {
     this.logger.log(`Processing query in ${mode} mode: ${prompt}`);
 
     if (mode === 'react') {
       // Check if ReAct mode is enabled
-      const reactEnabled = process.env.REACT_MODE_ENABLED === 'true';
-      if (!reactEnabled) {
+      if (!this.config.get('react', { infer: true }).enabled) {
         this.logger.warn('ReAct mode requested but not enabled, falling back to direct mode');
-        return this.translateDirect(prompt);
+        reactFallbacks.inc({ reason: 'disabled' });
+        return this.translateDirect(prompt, history, run);
       }
 
       try {
-        return await this.reactAgentService.processQuery(prompt);
+        const result = await this.reactAgentService.processQuery(prompt, history, run);
+        reactIterations.observe(result.iterations);
+        return result;
       } catch (error) {
+        if (error instanceof QueryCancelledError || error instanceof ClarificationNeededError) {
+          throw error;
+        }
         this.logger.error(`ReAct processing failed, falling back to direct mode: ${error.message}`);
+        reactFallbacks.inc({ reason: 'failed' });
         // Graceful fallback to direct mode
-        const directResult = await this.translateDirect(prompt);
+        const directResult = await this.translateDirect(prompt, history, run);
         return {
           sql: [directResult.sql],
           reasoning: [`ReAct mode failed, used direct translation: ${error.message}`],
           observations: ['Fallback to direct SQL generation'],
           rows: [], // Will be filled by controller
           iterations: 1,
-          success: true
+          success: true,
+          linkedTables: directResult.linkedTables,
+          examples: directResult.examples,
         };
       }
     }
 
-    return this.translateDirect(prompt);
+    return this.translateDirect(prompt, history, run);
   }
 
-  private async translateDirect(prompt: string): Promise<Nl2SqlResult> {
-    const allowWrites = process.env.ALLOW_WRITE_SQL === 'true';
-    
-    // Check if the prompt contains delete/drop/alter operations
-    const destructiveOperations = ['delete', 'drop', 'alter', 'truncate', 'update', 'insert', 'create'];
-    const lowerPrompt = prompt.toLowerCase();
-    const hasDestructiveOperation = destructiveOperations.some(op => 
-      lowerPrompt.includes(op) && !lowerPrompt.includes('select')
+  /**
+   * Direct mode with execution feedback: each generated statement is checked
+   * by the guard, planned with EXPLAIN and its first page fetched. When one of those
+   * fails with a fixable error, the classified error goes back to the model
+   * and it tries again, up to SQL_MAX_ATTEMPTS attempts in total.
+   */
+  async runDirect(
+    prompt: string,
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<DirectQueryResult> {
+    const limits = run.limits || resolveQueryLimits(this.config.get('sql', { infer: true }));
+    const { result, ...generated } = await this.directLoop(prompt, history, run, (sql, estimate) =>
+      this.pagination.firstPage(sql, limits, {
+        pageSize: run.pageSize,
+        estimate,
+        datasource: run.datasource,
+        role: run.role,
+      }),
     );
-    
-    if (hasDestructiveOperation && !allowWrites) {
+    return { ...generated, ...result };
+  }
+
+  /**
+   * The same loop up to and including EXPLAIN, without executing: for
+   * callers that run the SQL themselves, such as streamed exports.
+   */
+  async prepareDirect(
+    prompt: string,
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<Nl2SqlResult & { attempts: SqlAttempt[]; estimate: PlanEstimate }> {
+    const { result, ...generated } = await this.directLoop(
+      prompt,
+      history,
+      run,
+      async (_sql, estimate) => estimate,
+    );
+    return { ...generated, estimate: result };
+  }
+
+  private async directLoop<T>(
+    prompt: string,
+    history: SessionTurn[],
+    run: QueryRunOptions,
+    execute: (sql: string, estimate: PlanEstimate) => Promise<T>,
+  ): Promise<{
+    sql: string;
+    linkedTables?: LinkedTable[];
+    examples?: FewShotExample[];
+    attempts: SqlAttempt[];
+    result: T;
+  }> {
+    const sqlConfig = this.config.get('sql', { infer: true });
+    const { allowWrites, maxAttempts } = sqlConfig;
+    const limits = run.limits || resolveQueryLimits(sqlConfig);
+    const datasource = this.datasources.get(run.datasource);
+    const { dialect } = datasource;
+
+    if (this.isDestructive(prompt) && !allowWrites) {
+      this.logger.log(`Destructive operation detected in prompt: ${prompt}`);
+      run.onEvent?.({ type: 'sql', sql: NO_DATA_SQL, attempt: 1 });
+      const estimate = await this.db.checkCost(NO_DATA_SQL, limits, {
+        datasource: run.datasource,
+        role: run.role,
+      });
+      const result = await execute(NO_DATA_SQL, estimate);
+      return { sql: NO_DATA_SQL, attempts: [{ attempt: 1, sql: NO_DATA_SQL, estimate }], result };
+    }
+
+    const { messages, linkedTables, examples } = await this.buildDirectMessages(
+      prompt,
+      history,
+      allowWrites,
+      run,
+    );
+    const attempts: SqlAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(run.signal);
+      const sql = await this.generateSql(messages, run);
+      run.onEvent?.({ type: 'sql', sql, attempt });
+
+      let stage: SqlAttempt['stage'] = 'guard';
+      try {
+        await this.sqlGuard.assertSafe(sql, { allowWrites, datasource });
+        stage = 'explain';
+        const estimate = await this.db.checkCost(sql, limits, {
+          datasource: run.datasource,
+          role: run.role,
+        });
+        stage = 'execute';
+        throwIfCancelled(run.signal);
+        const result = await execute(sql, estimate);
+
+        attempts.push({ attempt, sql, estimate });
+        if (attempt > 1) {
+          this.logger.log(`SQL repaired on attempt ${attempt}`);
+        }
+        return { sql, linkedTables, examples, attempts, result };
+      } catch (error) {
+        if (error instanceof QueryCancelledError) {
+          throw error;
+        }
+
+        const analysis = await this.errorAnalyzer.analyze(
+          error.message,
+          sql,
+          error.code,
+          run.datasource,
+        );
+        attempts.push({
+          attempt,
+          sql,
+          stage,
+          error: error.message,
+          errorType: analysis.errorType,
+          estimate: error instanceof QueryCostError ? error.estimate : undefined,
+        });
+        run.onEvent?.({
+          type: 'sql_error',
+          attempt,
+          stage,
+          errorType: analysis.errorType,
+          message: error.message,
+        });
+        this.logger.warn(
+          `Attempt ${attempt} failed at ${stage} (${analysis.errorType}): ${error.message}`,
+        );
+
+        // Connection problems and the like are not the model's to fix
+        if (!analysis.canRetry && attempt === 1) {
+          throw error;
+        }
+        if (!analysis.canRetry || attempt >= maxAttempts) {
+          throw new SqlExecutionError(
+            `SQL failed after ${attempt} attempt(s): ${error.message}`,
+            error.code,
+            { errorType: analysis.errorType, attempts },
+          );
+        }
+
+        messages.push(
+          new AIMessage(sql),
+          new HumanMessage(this.repairPrompt(stage, analysis, DIALECT_LABELS[dialect])),
+        );
+      }
+    }
+  }
+
+  private async translateDirect(
+    prompt: string,
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<Nl2SqlResult> {
+    const allowWrites = this.config.get('sql', { infer: true }).allowWrites;
+
+    if (this.isDestructive(prompt) && !allowWrites) {
       this.logger.log(`Destructive operation detected in prompt: ${prompt}`);
-      return { sql: "SELECT 'No data available' as message LIMIT 1" };
+      return { sql: NO_DATA_SQL };
     }
-    
-    const llm = new ChatOpenAI({
-      openAIApiKey: process.env.OPENAI_API_KEY!,
-      modelName: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      temperature: 0
+
+    const { messages, linkedTables, examples } = await this.buildDirectMessages(
+      prompt,
+      history,
+      allowWrites,
+      run,
+    );
+    const sql = await this.generateSql(messages, run);
+
+    // Safety: single read-only statement unless allowWrites
+    await this.sqlGuard.assertSafe(sql, {
+      allowWrites,
+      datasource: this.datasources.get(run.datasource),
     });
 
+    return { sql, linkedTables, examples };
+  }
+
+  // Check if the prompt contains delete/drop/alter operations
+  private isDestructive(prompt: string): boolean {
+    const destructiveOperations = [
+      'delete',
+      'drop',
+      'alter',
+      'truncate',
+      'update',
+      'insert',
+      'create',
+    ];
+    const lowerPrompt = prompt.toLowerCase();
+    return destructiveOperations.some(
+      (op) => lowerPrompt.includes(op) && !lowerPrompt.includes('select'),
+    );
+  }
+
+  private async buildDirectMessages(
+    prompt: string,
+    history: SessionTurn[],
+    allowWrites: boolean,
+    run: QueryRunOptions,
+  ): Promise<{
+    messages: BaseMessage[];
+    linkedTables?: LinkedTable[];
+    examples?: FewShotExample[];
+  }> {
+    const label = DIALECT_LABELS[this.datasources.get(run.datasource).dialect];
+    // Link against earlier questions too, so follow-ups keep their tables
+    const { schema, linkedTables } = await this.schemaLinker.buildPromptSchema(
+      [...history.map((turn) => turn.prompt), prompt].join('\n'),
+      run.datasource,
+      run.role,
+    );
+    const examples = await this.fewShot.findSimilar(prompt, run.datasource, run.role);
+
+    const clarify = canClarify(run, this.config.get('clarification', { infer: true }));
+
     const system = [
       'You are an expert SQL query generator that converts natural language to precise SQL queries.',
       'You MUST follow the database schema and rules exactly as specified below.',
       '',
-      this.DB_SCHEMA,
+      schema,
+      this.queryRules(label, clarify),
+      ...(examples.length > 0 ? [this.fewShot.render(examples)] : []),
       '',
       allowWrites
         ? 'WRITE OPERATIONS: Permitted (INSERT/UPDATE/DELETE allowed)'
         : 'SECURITY CONSTRAINT: Generate ONLY SELECT queries. Never INSERT/UPDATE/DELETE/DROP/ALTER.',
       '',
-      'CRITICAL: Analyze the user\'s intent carefully.',
-      'If the request involves anything other than SELECT operations, respond with: SELECT \'No data available\' as message LIMIT 1',
+      "CRITICAL: Analyze the user's intent carefully.",
+      "If the request involves anything other than SELECT operations, respond with: SELECT 'No data available' as message LIMIT 1",
       'For valid SELECT requests, use the examples above as guidance.',
-      'ALWAYS include LIMIT 10 for data queries unless explicitly requested otherwise.'
+      'Only add LIMIT when a specific number of rows is requested; results are paginated by the API.',
     ].join('\n');
 
-    const user = `Question: ${prompt}\n\nReturn ONLY the PostgreSQL SQL.`;
-
-    const resp = await llm.invoke([
-      new SystemMessage(system),
-      new HumanMessage(user)
-    ]);
+    const preamble = [formatConversationHistory(history), formatClarifications(run.clarifications)]
+      .filter(Boolean)
+      .join('\n\n');
+    const user = `${preamble ? `${preamble}\n\n` : ''}Question: ${prompt}\n\nReturn ONLY the ${label} SQL.`;
 
-    let sql = String(resp.content).trim();
+    return {
+      messages: [new SystemMessage(system), new HumanMessage(user)],
+      linkedTables,
+      examples: examples.length > 0 ? examples : undefined,
+    };
+  }
 
-    // Safety: enforce SELECT-only unless allowWrites
-    if (!allowWrites && !/^select\s/i.test(sql)) {
-      if (/^\s*```sql/i.test(sql)) {
-        sql = sql.replace(/^\s*```sql/i, '').replace(/```$/, '').trim();
-      }
-      if (!/^select\s/i.test(sql)) {
-        throw new Error('Guard: Non-SELECT SQL generated. Aborting.');
-      }
-    }
+  private async generateSql(messages: BaseMessage[], run: QueryRunOptions): Promise<string> {
+    const resp = await this.llm.invoke(messages, {
+      model: run.model,
+      signal: run.signal,
+      onToken: run.onEvent ? (token) => run.onEvent({ type: 'token', token }) : undefined,
+    });
 
     // Normalize code block wrappers if present
-    sql = sql.replace(/^\s*```sql/i, '').replace(/^\s*```/, '').replace(/```$/, '').trim();
+    const sql = String(resp.content)
+      .trim()
+      .replace(/^\s*```sql/i, '')
+      .replace(/^\s*```/, '')
+      .replace(/```$/, '')
+      .trim();
+
+    const clarification = canClarify(run, this.config.get('clarification', { infer: true }))
+      ? parseClarification(sql)
+      : null;
+    if (clarification) {
+      this.logger.log(`Asking for clarification: ${clarification.question}`);
+      throw new ClarificationNeededError(clarification);
+    }
 
     this.logger.log(`Generated SQL: ${sql}`);
-    return { sql };
+    return sql;
+  }
+
+  private repairPrompt(
+    stage: SqlAttempt['stage'],
+    analysis: SqlErrorAnalysis,
+    label: string,
+  ): string {
+    return [
+      `That SQL failed during ${stage === 'guard' ? 'the safety check' : stage}.`,
+      `${analysis.errorType}: ${analysis.originalError}`,
+      'Suggestions:',
+      ...analysis.suggestions.map((suggestion) => `- ${suggestion}`),
+      '',
+      `Return ONLY the corrected ${label} SQL.`,
+    ].join('\n');
   }
-}
\ No newline at end of file
+}
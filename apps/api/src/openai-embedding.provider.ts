@@ -0,0 +1,34 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { EmbeddingProvider } from './embedding.provider';
+
+/**
+ * OpenAI embeddings, or any OpenAI-compatible /embeddings endpoint (Ollama,
+ * text-embeddings-inference, LM Studio) when a baseURL is given.
+ */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  private readonly embeddings: OpenAIEmbeddings;
+
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    readonly dimensions: number,
+    options: { apiKey: string; model: string; baseURL?: string },
+  ) {
+    this.embeddings = new OpenAIEmbeddings(
+      {
+        openAIApiKey: options.apiKey,
+        modelName: options.model,
+        // Only text-embedding-3 models accept a dimensions parameter
+        dimensions: name === 'openai' ? dimensions : undefined,
+      },
+      options.baseURL ? { baseURL: options.baseURL } : undefined,
+    );
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return await this.embeddings.embedQuery(text);
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return await this.embeddings.embedDocuments(texts);
+  }
+}
@@ -0,0 +1,117 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatGeneration } from '@langchain/core/outputs';
+import { LlmCallOptions, LlmProvider } from './llm.provider';
+import { recordLlmUsage } from './llm-usage';
+import { LlmUpstreamError } from './errors';
+import { LlmCompletion, LlmToolCall } from './types';
+
+interface OpenAiLlmProviderOptions {
+  apiKey: string;
+  model: string;
+  temperature: number;
+  baseURL?: string;
+}
+
+/**
+ * OpenAI chat models, or any server exposing the OpenAI chat-completions API
+ * when a baseURL is given. Clients are cached per model/temperature.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  private readonly clients = new Map<string, ChatOpenAI>();
+
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    private readonly options: OpenAiLlmProviderOptions,
+  ) {}
+
+  get model(): string {
+    return this.options.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmCallOptions = {}): Promise<LlmCompletion> {
+    const llm = this.getClient(
+      options.model || this.options.model,
+      options.temperature ?? this.options.temperature,
+      !!options.onToken,
+    );
+    const result = await llm
+      .generate([messages], {
+        signal: options.signal,
+        tools: options.tools?.map((tool) => ({
+          type: 'function' as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: { ...tool.parameters },
+          },
+        })),
+        callbacks: options.onToken
+          ? [{ handleLLMNewToken: (token: string) => options.onToken(token) }]
+          : undefined,
+      })
+      .catch((error) => {
+        // A cancelled call stays an abort, see QueryCancelledError
+        throw options.signal?.aborted ? error : new LlmUpstreamError(this.name, error);
+      });
+    const generation = result.generations[0][0];
+    // Streaming responses only carry an estimate
+    const tokenUsage = result.llmOutput?.tokenUsage || result.llmOutput?.estimatedTokenUsage;
+
+    const toolCalls = ((generation as ChatGeneration).message?.additional_kwargs?.tool_calls || [])
+      .filter((call) => call.type === 'function')
+      .map((call) => this.toToolCall(call.id, call.function.name, call.function.arguments));
+
+    const usage = tokenUsage
+      ? {
+          promptTokens: tokenUsage.promptTokens || 0,
+          completionTokens: tokenUsage.completionTokens || 0,
+          totalTokens: tokenUsage.totalTokens || 0,
+        }
+      : undefined;
+    recordLlmUsage(usage);
+
+    return {
+      content: generation.text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage,
+    };
+  }
+
+  // Lists the models, which needs a valid key but costs no tokens
+  async ping(): Promise<void> {
+    const baseURL = this.options.baseURL || 'https://api.openai.com/v1';
+    const response = await fetch(`${baseURL.replace(/\/$/, '')}/models`, {
+      headers: { Authorization: `Bearer ${this.options.apiKey}` },
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} answered ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private toToolCall(id: string, name: string, rawArguments: string): LlmToolCall {
+    try {
+      return { id, name, args: rawArguments ? JSON.parse(rawArguments) : {} };
+    } catch (error) {
+      return { id, name, args: {}, argsError: error.message };
+    }
+  }
+
+  private getClient(model: string, temperature: number, streaming: boolean): ChatOpenAI {
+    const key = `${model}:${temperature}:${streaming}`;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new ChatOpenAI(
+        {
+          openAIApiKey: this.options.apiKey,
+          modelName: model,
+          temperature,
+          streaming,
+        },
+        this.options.baseURL ? { baseURL: this.options.baseURL } : undefined,
+      );
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+}
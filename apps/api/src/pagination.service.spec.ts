@@ -0,0 +1,134 @@
+import { BadRequestException, GoneException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { DbService } from './db.service';
+import { PaginationService } from './pagination.service';
+import { SqlGuardService } from './sql-guard.service';
+import { PlanEstimate, QueryLimits } from './types';
+
+const ROWS = Array.from({ length: 5 }, (_, index) => ({ id: index + 1 }));
+const SQL = 'SELECT id FROM contacts ORDER BY id';
+const LIMITS: QueryLimits = {
+  timeoutMs: 1000,
+  maxRows: 100,
+  maxPlanCost: 1e6,
+  maxPlanRows: 1e6,
+};
+
+describe('PaginationService', () => {
+  let estimate: PlanEstimate;
+
+  // Serves ROWS from the offset, reading one row past the cap like DbService
+  const db = {
+    checkCost: async () => estimate,
+    execGenerated: jest.fn(async (_sql: string, limits: QueryLimits, { offset = 0 }) => {
+      const rows = ROWS.slice(offset, offset + limits.maxRows + 1);
+      return {
+        rows: rows.slice(0, limits.maxRows),
+        truncated: rows.length > limits.maxRows,
+        rowLimit: limits.maxRows,
+      };
+    }),
+  } as unknown as DbService;
+  const datasources = {
+    get: (name?: string) => ({ name: name || 'local', dialect: 'sqlite' }),
+  } as unknown as DatasourceRegistry;
+
+  const service = (tokenSecret = 'page-secret') =>
+    new PaginationService(
+      db,
+      new SqlGuardService(),
+      datasources,
+      new ConfigService<AppConfig, true>({
+        pagination: { pageSize: 2, tokenSecret, tokenTtlSeconds: 60 },
+      }),
+    );
+  let pagination: PaginationService;
+
+  beforeEach(() => {
+    estimate = { totalCost: 0 };
+    pagination = service();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('pages through the rows with signed tokens', async () => {
+    const first = await pagination.firstPage(SQL, LIMITS);
+    expect(first.rows).toEqual([{ id: 1 }, { id: 2 }]);
+
+    const second = await pagination.nextPage(first.page.nextPageToken!, LIMITS);
+    expect(second.rows).toEqual([{ id: 3 }, { id: 4 }]);
+    expect(second.sql).toBe(SQL);
+    expect(second.datasource).toBe('local');
+
+    const last = await pagination.nextPage(second.page.nextPageToken!, LIMITS);
+    expect(last.rows).toEqual([{ id: 5 }]);
+    expect(last.page).toEqual({
+      offset: 4,
+      pageSize: 2,
+      nextPageToken: undefined,
+      totalRows: 5,
+      totalExact: true,
+    });
+  });
+
+  it('runs a join as written, so duplicate column names survive', async () => {
+    const join = 'SELECT * FROM contacts c JOIN cases k ON k.id = c.id ORDER BY c.id';
+    const first = await pagination.firstPage(join, LIMITS);
+    await pagination.nextPage(first.page.nextPageToken!, LIMITS);
+
+    expect(db.execGenerated).toHaveBeenLastCalledWith(join, expect.anything(), {
+      datasource: 'local',
+      role: undefined,
+      offset: 2,
+    });
+  });
+
+  it('leaves totalRows null until the last page without a planner estimate', async () => {
+    const first = await pagination.firstPage(SQL, LIMITS);
+
+    expect(first.page.totalRows).toBeNull();
+    expect(first.page.totalExact).toBe(false);
+  });
+
+  it('reports the planner estimate, at least one row past the page', async () => {
+    estimate = { totalCost: 10, planRows: 40 };
+    expect((await pagination.firstPage(SQL, LIMITS)).page.totalRows).toBe(40);
+
+    estimate = { totalCost: 10, planRows: 1 };
+    expect((await pagination.firstPage(SQL, LIMITS)).page.totalRows).toBe(3);
+  });
+
+  it('rejects a token whose payload was changed', async () => {
+    const { page } = await pagination.firstPage(SQL, LIMITS);
+    const [body, signature] = page.nextPageToken!.split('.');
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    const tampered = Buffer.from(
+      JSON.stringify({ ...payload, sql: 'SELECT * FROM api_keys' }),
+    ).toString('base64url');
+
+    await expect(pagination.nextPage(`${tampered}.${signature}`, LIMITS)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(pagination.nextPage(body, LIMITS)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(pagination.nextPage('', LIMITS)).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const { page } = await service('other-secret').firstPage(SQL, LIMITS);
+
+    await expect(pagination.nextPage(page.nextPageToken!, LIMITS)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('rejects an expired token', async () => {
+    const { page } = await pagination.firstPage(SQL, LIMITS);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+
+    await expect(pagination.nextPage(page.nextPageToken!, LIMITS)).rejects.toBeInstanceOf(
+      GoneException,
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { BadRequestException, GoneException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { DbService } from './db.service';
+import { SqlGuardService } from './sql-guard.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { PlanEstimate, QueryLimits, QueryPage } from './types';
+import { AppConfig } from './config';
+
+interface PageTokenPayload {
+  datasource: string;
+  sql: string;
+  offset: number;
+  pageSize: number;
+  // Planner row estimate of the unpaginated SQL, carried from the first page
+  estimatedTotal?: number;
+  expiresAt: number;
+}
+
+/**
+ * Pages through generated SQL by having the datasource skip to the page's
+ * offset and read one row past the page. The SQL runs as written: wrapping it
+ * in a subquery breaks joins that select duplicate column names. The page
+ * token carries the datasource, SQL and position, signed with
+ * PAGE_TOKEN_SECRET, so the next page needs no LLM call and no server-side state. Without ORDER BY in the
+ * generated SQL, the database does not promise a stable order between pages.
+ */
+@Injectable()
+export class PaginationService {
+  private readonly logger = new Logger(PaginationService.name);
+  private readonly secret: string;
+
+  constructor(
+    private readonly db: DbService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {
+    const { tokenSecret } = this.config.get('pagination', { infer: true });
+    this.secret = tokenSecret || randomBytes(32).toString('hex');
+    if (!tokenSecret) {
+      this.logger.warn('PAGE_TOKEN_SECRET not set, page tokens will not survive a restart');
+    }
+  }
+
+  // Page size for a request: PAGE_SIZE by default, never above the row cap
+  resolvePageSize(limits: QueryLimits, requested?: number): number {
+    const pageSize = requested && requested > 0 ? Math.floor(requested) : this.defaultPageSize();
+    return Math.min(pageSize, limits.maxRows);
+  }
+
+  async firstPage(
+    sql: string,
+    limits: QueryLimits,
+    options: {
+      pageSize?: number;
+      estimate?: PlanEstimate;
+      datasource?: string;
+      role?: string;
+    } = {},
+  ): Promise<QueryPage> {
+    const datasource = this.datasources.get(options.datasource);
+    const pageSize = this.resolvePageSize(limits, options.pageSize);
+    const estimate =
+      options.estimate ||
+      (await this.db.checkCost(sql, limits, { datasource: datasource.name, role: options.role }));
+
+    // Only a SELECT is paged; writes (ALLOW_WRITE_SQL) return a single capped page
+    const guard = await this.sqlGuard.validate(sql, {
+      allowWrites: true,
+      datasource,
+    });
+    if (guard.allowed && guard.statementType !== 'SelectStmt') {
+      const { rows, truncated } = await this.db.execGenerated(
+        sql,
+        { ...limits, maxRows: pageSize },
+        { estimate, datasource: datasource.name, role: options.role },
+      );
+      return {
+        rows,
+        truncated,
+        rowLimit: pageSize,
+        page: { offset: 0, pageSize, totalRows: rows.length, totalExact: !truncated },
+      };
+    }
+    return this.fetchPage(
+      { datasource: datasource.name, role: options.role },
+      sql,
+      limits,
+      0,
+      pageSize,
+      estimate.planRows,
+    );
+  }
+
+  // The caller's own role applies, not the one the token was issued to
+  async nextPage(
+    token: string,
+    limits: QueryLimits,
+    role?: string,
+  ): Promise<QueryPage & { sql: string; datasource: string }> {
+    const payload = this.decode(token);
+    const pageSize = Math.min(payload.pageSize, limits.maxRows);
+    const page = await this.fetchPage(
+      { datasource: payload.datasource, role },
+      payload.sql,
+      limits,
+      payload.offset,
+      pageSize,
+      payload.estimatedTotal,
+    );
+    return { ...page, sql: payload.sql, datasource: payload.datasource };
+  }
+
+  private async fetchPage(
+    { datasource, role }: { datasource: string; role?: string },
+    sql: string,
+    limits: QueryLimits,
+    offset: number,
+    pageSize: number,
+    estimatedTotal: number | undefined,
+  ): Promise<QueryPage> {
+    // execGenerated reads pageSize + 1 rows, so `truncated` means there is a next page
+    const { rows, truncated } = await this.db.execGenerated(
+      sql,
+      { ...limits, maxRows: pageSize },
+      { datasource, role, offset },
+    );
+
+    const seen = offset + rows.length;
+    return {
+      rows,
+      truncated,
+      rowLimit: pageSize,
+      page: {
+        offset,
+        pageSize,
+        nextPageToken: truncated
+          ? this.encode({
+              datasource,
+              sql,
+              offset: seen,
+              pageSize,
+              estimatedTotal,
+              expiresAt: Date.now() + this.ttlSeconds() * 1000,
+            })
+          : undefined,
+        totalRows: truncated ? this.estimateTotal(estimatedTotal, seen) : seen,
+        totalExact: !truncated,
+      },
+    };
+  }
+
+  // The planner's estimate, at least the rows seen and one more; unknown without an estimate
+  private estimateTotal(estimatedTotal: number | undefined, seen: number): number | null {
+    if (estimatedTotal === undefined) return null;
+    return Math.max(Math.round(estimatedTotal), seen + 1);
+  }
+
+  private encode(payload: PageTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private decode(token: string): PageTokenPayload {
+    const [body, signature] = (token || '').split('.');
+    const expected = this.sign(body || '');
+    if (
+      !body ||
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new BadRequestException('Invalid page token');
+    }
+
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as PageTokenPayload;
+    if (payload.expiresAt < Date.now()) {
+      throw new GoneException('Page token expired, run the query again');
+    }
+    return payload;
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private defaultPageSize(): number {
+    return this.config.get('pagination', { infer: true }).pageSize;
+  }
+
+  private ttlSeconds(): number {
+    return this.config.get('pagination', { infer: true }).tokenTtlSeconds;
+  }
+}
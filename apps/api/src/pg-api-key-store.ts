@@ -0,0 +1,185 @@
+import { DbService } from './db.service';
+import { ApiKeyStore } from './api-key-store';
+import { ApiKey, ApiKeyUsage } from './types';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  role: string | null;
+  requests_per_minute: number;
+  daily_token_budget: number;
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+interface ApiKeyUsageRow {
+  day: string;
+  requests: number;
+  llm_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Keys and usage in the application database (`app` schema, created on
+ * first use), shared by every instance.
+ */
+export class PgApiKeyStore implements ApiKeyStore {
+  readonly name = 'postgres' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly db: DbService) {}
+
+  async create(key: ApiKey, secretHash: string): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.api_keys
+        (id, name, prefix, secret_hash, role, requests_per_minute, daily_token_budget, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+      [
+        key.id,
+        key.name,
+        key.prefix,
+        secretHash,
+        key.role || null,
+        key.requestsPerMinute,
+        key.dailyTokenBudget,
+        key.createdAt,
+      ],
+    );
+  }
+
+  async get(id: string): Promise<ApiKey | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<ApiKeyRow>(`SELECT * FROM app.api_keys WHERE id = $1`, [id]);
+    return row ? this.toApiKey(row) : null;
+  }
+
+  async findBySecretHash(secretHash: string): Promise<ApiKey | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<ApiKeyRow>(
+      `SELECT * FROM app.api_keys WHERE secret_hash = $1`,
+      [secretHash],
+    );
+    return row ? this.toApiKey(row) : null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    await this.ensureTables();
+    const rows = await this.db.exec<ApiKeyRow>(
+      `SELECT * FROM app.api_keys ORDER BY created_at DESC`,
+    );
+    return rows.map((row) => this.toApiKey(row));
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<boolean> {
+    await this.ensureTables();
+    const rows = await this.db.exec(
+      `UPDATE app.api_keys SET revoked_at = COALESCE(revoked_at, $2) WHERE id = $1 RETURNING id`,
+      [id, revokedAt],
+    );
+    return rows.length > 0;
+  }
+
+  async addUsage(id: string, usage: ApiKeyUsage): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.api_key_usage
+        (key_id, day, requests, llm_calls, prompt_tokens, completion_tokens, total_tokens)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (key_id, day) DO UPDATE SET
+        requests = app.api_key_usage.requests + EXCLUDED.requests,
+        llm_calls = app.api_key_usage.llm_calls + EXCLUDED.llm_calls,
+        prompt_tokens = app.api_key_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+        completion_tokens = app.api_key_usage.completion_tokens + EXCLUDED.completion_tokens,
+        total_tokens = app.api_key_usage.total_tokens + EXCLUDED.total_tokens
+      `,
+      [
+        id,
+        usage.day,
+        usage.requests,
+        usage.llmCalls,
+        usage.promptTokens,
+        usage.completionTokens,
+        usage.totalTokens,
+      ],
+    );
+  }
+
+  async usage(id: string, since: string): Promise<ApiKeyUsage[]> {
+    await this.ensureTables();
+    const rows = await this.db.exec<ApiKeyUsageRow>(
+      `
+      SELECT day::text AS day, requests, llm_calls,
+        prompt_tokens::int, completion_tokens::int, total_tokens::int
+      FROM app.api_key_usage
+      WHERE key_id = $1 AND day >= $2
+      ORDER BY day DESC
+      `,
+      [id, since],
+    );
+    return rows.map((row) => ({
+      day: row.day,
+      requests: row.requests,
+      llmCalls: row.llm_calls,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens,
+    }));
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      role: row.role || undefined,
+      requestsPerMinute: row.requests_per_minute,
+      dailyTokenBudget: row.daily_token_budget,
+      createdAt: row.created_at.toISOString(),
+      revokedAt: row.revoked_at?.toISOString(),
+    };
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.api_keys (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            prefix TEXT NOT NULL,
+            secret_hash TEXT NOT NULL UNIQUE,
+            role TEXT,
+            requests_per_minute INTEGER NOT NULL,
+            daily_token_budget INTEGER NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            revoked_at TIMESTAMP WITH TIME ZONE
+          )
+        `);
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.api_key_usage (
+            key_id TEXT NOT NULL REFERENCES app.api_keys(id) ON DELETE CASCADE,
+            day DATE NOT NULL,
+            requests INTEGER NOT NULL DEFAULT 0,
+            llm_calls INTEGER NOT NULL DEFAULT 0,
+            prompt_tokens BIGINT NOT NULL DEFAULT 0,
+            completion_tokens BIGINT NOT NULL DEFAULT 0,
+            total_tokens BIGINT NOT NULL DEFAULT 0,
+            PRIMARY KEY (key_id, day)
+          )
+        `);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,144 @@
+import { DbService } from './db.service';
+import { FeedbackStore } from './feedback-store';
+import { ExampleStatus, QueryFeedback } from './types';
+
+interface FeedbackRow {
+  id: string;
+  prompt: string;
+  sql: string | null;
+  rating: QueryFeedback['rating'] | null;
+  corrected_sql: string | null;
+  comment: string | null;
+  datasource: string;
+  caller_key_id: string | null;
+  caller_key_name: string | null;
+  caller_role: string | null;
+  example_sql: string | null;
+  status: ExampleStatus | null;
+  created_at: Date;
+  reviewed_at: Date | null;
+}
+
+/**
+ * Feedback in the application database (`app` schema, created on first
+ * use), shared by every instance.
+ */
+export class PgFeedbackStore implements FeedbackStore {
+  readonly name = 'postgres' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly db: DbService) {}
+
+  async save(feedback: QueryFeedback): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.query_feedback (
+        id, prompt, sql, rating, corrected_sql, comment, datasource,
+        caller_key_id, caller_key_name, caller_role, example_sql, status, created_at, reviewed_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        reviewed_at = EXCLUDED.reviewed_at
+      `,
+      [
+        feedback.id,
+        feedback.prompt,
+        feedback.sql ?? null,
+        feedback.rating ?? null,
+        feedback.correctedSql ?? null,
+        feedback.comment ?? null,
+        feedback.datasource,
+        feedback.caller.keyId ?? null,
+        feedback.caller.keyName ?? null,
+        feedback.caller.role ?? null,
+        feedback.exampleSql ?? null,
+        feedback.status ?? null,
+        feedback.createdAt,
+        feedback.reviewedAt ?? null,
+      ],
+    );
+  }
+
+  async get(id: string): Promise<QueryFeedback | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<FeedbackRow>(
+      `SELECT * FROM app.query_feedback WHERE id = $1`,
+      [id],
+    );
+    return row ? this.toFeedback(row) : null;
+  }
+
+  async list(status?: ExampleStatus): Promise<QueryFeedback[]> {
+    await this.ensureTables();
+    const rows = status
+      ? await this.db.exec<FeedbackRow>(
+          `SELECT * FROM app.query_feedback WHERE status = $1 ORDER BY created_at DESC`,
+          [status],
+        )
+      : await this.db.exec<FeedbackRow>(
+          `SELECT * FROM app.query_feedback ORDER BY created_at DESC`,
+        );
+    return rows.map((row) => this.toFeedback(row));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureTables();
+    const rows = await this.db.exec(`DELETE FROM app.query_feedback WHERE id = $1 RETURNING id`, [
+      id,
+    ]);
+    return rows.length > 0;
+  }
+
+  private toFeedback(row: FeedbackRow): QueryFeedback {
+    return {
+      id: row.id,
+      prompt: row.prompt,
+      sql: row.sql ?? undefined,
+      rating: row.rating ?? undefined,
+      correctedSql: row.corrected_sql ?? undefined,
+      comment: row.comment ?? undefined,
+      datasource: row.datasource,
+      caller: {
+        keyId: row.caller_key_id ?? undefined,
+        keyName: row.caller_key_name ?? undefined,
+        role: row.caller_role ?? undefined,
+      },
+      exampleSql: row.example_sql ?? undefined,
+      status: row.status ?? undefined,
+      createdAt: row.created_at.toISOString(),
+      reviewedAt: row.reviewed_at?.toISOString(),
+    };
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.query_feedback (
+            id TEXT PRIMARY KEY,
+            prompt TEXT NOT NULL,
+            sql TEXT,
+            rating TEXT,
+            corrected_sql TEXT,
+            comment TEXT,
+            datasource TEXT NOT NULL,
+            caller_key_id TEXT,
+            caller_key_name TEXT,
+            caller_role TEXT,
+            example_sql TEXT,
+            status TEXT,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            reviewed_at TIMESTAMP WITH TIME ZONE
+          )
+        `);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,196 @@
+import { DbService } from './db.service';
+import { HistoryStore } from './history-store';
+import { HistoryEntry, HistoryFilter } from './types';
+
+interface HistoryRow {
+  id: string;
+  created_at: Date;
+  kind: HistoryEntry['kind'];
+  prompt: string | null;
+  mode: HistoryEntry['mode'] | null;
+  datasource: string | null;
+  session_id: string | null;
+  caller_key_id: string | null;
+  caller_key_name: string | null;
+  caller_role: string | null;
+  sql: string[];
+  tables: string[];
+  reasoning: string[] | null;
+  observations: string[] | null;
+  attempts: HistoryEntry['attempts'] | null;
+  row_count: number | null;
+  duration_ms: number;
+  usage: HistoryEntry['usage'];
+  outcome: HistoryEntry['outcome'];
+  error: string | null;
+  error_type: HistoryEntry['errorType'] | null;
+  status_code: number | null;
+  replay_of: string | null;
+}
+
+/**
+ * History in the application database (`app` schema, created on first use).
+ */
+export class PgHistoryStore implements HistoryStore {
+  readonly name = 'postgres' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly db: DbService) {}
+
+  async append(entry: HistoryEntry): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.query_history (
+        id, created_at, kind, prompt, mode, datasource, session_id,
+        caller_key_id, caller_key_name, caller_role, sql, tables, reasoning, observations,
+        attempts, row_count, duration_ms, usage, outcome, error, error_type, status_code, replay_of
+      )
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::jsonb, $12, $13::jsonb, $14::jsonb,
+        $15::jsonb, $16, $17, $18::jsonb, $19, $20, $21, $22, $23
+      )
+      `,
+      [
+        entry.id,
+        entry.createdAt,
+        entry.kind,
+        entry.prompt ?? null,
+        entry.mode ?? null,
+        entry.datasource ?? null,
+        entry.sessionId ?? null,
+        entry.caller.keyId ?? null,
+        entry.caller.keyName ?? null,
+        entry.caller.role ?? null,
+        JSON.stringify(entry.sql),
+        entry.tables,
+        entry.reasoning ? JSON.stringify(entry.reasoning) : null,
+        entry.observations ? JSON.stringify(entry.observations) : null,
+        entry.attempts ? JSON.stringify(entry.attempts) : null,
+        entry.rowCount ?? null,
+        entry.durationMs,
+        JSON.stringify(entry.usage),
+        entry.outcome,
+        entry.error ?? null,
+        entry.errorType ?? null,
+        entry.statusCode ?? null,
+        entry.replayOf ?? null,
+      ],
+    );
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<HistoryRow>(`SELECT * FROM app.query_history WHERE id = $1`, [
+      id,
+    ]);
+    return row ? this.toEntry(row) : null;
+  }
+
+  async search(filter: HistoryFilter): Promise<HistoryEntry[]> {
+    await this.ensureTables();
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const where = (condition: (param: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition(`$${params.length}`));
+    };
+    if (filter.caller) {
+      where((p) => `(caller_key_id = ${p} OR caller_key_name = ${p})`, filter.caller);
+    }
+    if (filter.role) where((p) => `caller_role = ${p}`, filter.role);
+    if (filter.from) where((p) => `created_at >= ${p}`, filter.from);
+    if (filter.to) where((p) => `created_at <= ${p}`, filter.to);
+    if (filter.table) where((p) => `${p} = ANY(tables)`, filter.table.toLowerCase());
+    if (filter.outcome) where((p) => `outcome = ${p}`, filter.outcome);
+    if (filter.kind) where((p) => `kind = ${p}`, filter.kind);
+    if (filter.datasource) where((p) => `datasource = ${p}`, filter.datasource);
+    params.push(filter.limit, filter.offset);
+
+    const rows = await this.db.exec<HistoryRow>(
+      `
+      SELECT * FROM app.query_history
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC, id
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+      `,
+      params,
+    );
+    return rows.map((row) => this.toEntry(row));
+  }
+
+  private toEntry(row: HistoryRow): HistoryEntry {
+    return {
+      id: row.id,
+      createdAt: row.created_at.toISOString(),
+      kind: row.kind,
+      prompt: row.prompt ?? undefined,
+      mode: row.mode ?? undefined,
+      datasource: row.datasource ?? undefined,
+      sessionId: row.session_id ?? undefined,
+      caller: {
+        keyId: row.caller_key_id ?? undefined,
+        keyName: row.caller_key_name ?? undefined,
+        role: row.caller_role ?? undefined,
+      },
+      sql: row.sql,
+      tables: row.tables,
+      reasoning: row.reasoning ?? undefined,
+      observations: row.observations ?? undefined,
+      attempts: row.attempts ?? undefined,
+      rowCount: row.row_count ?? undefined,
+      durationMs: row.duration_ms,
+      usage: row.usage,
+      outcome: row.outcome,
+      error: row.error ?? undefined,
+      errorType: row.error_type ?? undefined,
+      statusCode: row.status_code ?? undefined,
+      replayOf: row.replay_of ?? undefined,
+    };
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.query_history (
+            id TEXT PRIMARY KEY,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            kind TEXT NOT NULL,
+            prompt TEXT,
+            mode TEXT,
+            datasource TEXT,
+            session_id TEXT,
+            caller_key_id TEXT,
+            caller_key_name TEXT,
+            caller_role TEXT,
+            sql JSONB NOT NULL DEFAULT '[]',
+            tables TEXT[] NOT NULL DEFAULT '{}',
+            reasoning JSONB,
+            observations JSONB,
+            attempts JSONB,
+            row_count INTEGER,
+            duration_ms INTEGER NOT NULL,
+            usage JSONB NOT NULL,
+            outcome TEXT NOT NULL,
+            error TEXT,
+            error_type TEXT,
+            status_code INTEGER,
+            replay_of TEXT
+          )
+        `);
+        await this.db.exec(
+          'CREATE INDEX IF NOT EXISTS idx_query_history_created_at ON app.query_history(created_at)',
+        );
+        await this.db.exec(
+          'CREATE INDEX IF NOT EXISTS idx_query_history_tables ON app.query_history USING gin(tables)',
+        );
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
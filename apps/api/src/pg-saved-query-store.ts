@@ -0,0 +1,135 @@
+import { DbService } from './db.service';
+import { SavedQueryStore } from './saved-query-store';
+import { SavedQuery } from './types';
+
+interface SavedQueryRow {
+  id: string;
+  name: string;
+  description: string | null;
+  sql: string;
+  datasource: string;
+  parameters: SavedQuery['parameters'];
+  prompt: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Saved queries in the application database (`app` schema, created on
+ * first use), shared by every instance.
+ */
+export class PgSavedQueryStore implements SavedQueryStore {
+  readonly name = 'postgres' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly db: DbService) {}
+
+  // The owner of an existing query never changes: get() found it for the same owner
+  async save(owner: string, query: SavedQuery): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.saved_queries
+        (id, owner, name, description, sql, datasource, parameters, prompt, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        sql = EXCLUDED.sql,
+        datasource = EXCLUDED.datasource,
+        parameters = EXCLUDED.parameters,
+        prompt = EXCLUDED.prompt,
+        updated_at = EXCLUDED.updated_at
+      `,
+      [
+        query.id,
+        owner,
+        query.name,
+        query.description ?? null,
+        query.sql,
+        query.datasource,
+        JSON.stringify(query.parameters),
+        query.prompt ?? null,
+        query.createdAt,
+        query.updatedAt,
+      ],
+    );
+  }
+
+  async get(id: string, owner: string): Promise<SavedQuery | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<SavedQueryRow>(
+      `SELECT * FROM app.saved_queries WHERE id = $1 AND owner = $2`,
+      [id, owner],
+    );
+    return row ? this.toSavedQuery(row) : null;
+  }
+
+  async findByName(name: string, owner: string): Promise<SavedQuery | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<SavedQueryRow>(
+      `SELECT * FROM app.saved_queries WHERE name = $1 AND owner = $2`,
+      [name, owner],
+    );
+    return row ? this.toSavedQuery(row) : null;
+  }
+
+  async list(owner: string): Promise<SavedQuery[]> {
+    await this.ensureTables();
+    const rows = await this.db.exec<SavedQueryRow>(
+      `SELECT * FROM app.saved_queries WHERE owner = $1 ORDER BY name`,
+      [owner],
+    );
+    return rows.map((row) => this.toSavedQuery(row));
+  }
+
+  async delete(id: string, owner: string): Promise<boolean> {
+    await this.ensureTables();
+    const rows = await this.db.exec(
+      `DELETE FROM app.saved_queries WHERE id = $1 AND owner = $2 RETURNING id`,
+      [id, owner],
+    );
+    return rows.length > 0;
+  }
+
+  private toSavedQuery(row: SavedQueryRow): SavedQuery {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      sql: row.sql,
+      datasource: row.datasource,
+      parameters: row.parameters,
+      prompt: row.prompt ?? undefined,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+    };
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.saved_queries (
+            id TEXT PRIMARY KEY,
+            owner TEXT NOT NULL,
+            name TEXT NOT NULL,
+            description TEXT,
+            sql TEXT NOT NULL,
+            datasource TEXT NOT NULL,
+            parameters JSONB NOT NULL DEFAULT '[]',
+            prompt TEXT,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            UNIQUE (owner, name)
+          )
+        `);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
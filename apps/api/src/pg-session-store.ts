@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import { DbService } from './db.service';
+import { SessionStore } from './session-store';
+import { QuerySession, QuerySessionSummary, SessionTurn } from './types';
+
+interface SessionRow {
+  id: string;
+  title: string | null;
+  created_at: Date;
+  updated_at: Date;
+  turn_count?: number;
+}
+
+/**
+ * Sessions in the application database (`app` schema, created on first use).
+ */
+export class PgSessionStore implements SessionStore {
+  readonly name = 'postgres' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly db: DbService) {}
+
+  async create(owner: string, title?: string): Promise<QuerySession> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<SessionRow>(
+      `INSERT INTO app.query_sessions (id, owner, title) VALUES ($1, $2, $3) RETURNING *`,
+      [randomUUID(), owner, title || null],
+    );
+    return { ...this.toSummary(row), turns: [] };
+  }
+
+  async get(id: string, owner: string): Promise<QuerySession | null> {
+    await this.ensureTables();
+    const [row] = await this.db.exec<SessionRow>(
+      `SELECT * FROM app.query_sessions WHERE id = $1 AND owner = $2`,
+      [id, owner],
+    );
+    if (!row) return null;
+
+    const turns = await this.db.exec<{
+      prompt: string;
+      mode: SessionTurn['mode'];
+      sql: string[];
+      columns: string[];
+      row_count: number;
+      created_at: Date;
+    }>(`SELECT * FROM app.query_session_turns WHERE session_id = $1 ORDER BY id`, [id]);
+
+    return {
+      ...this.toSummary(row),
+      turns: turns.map((turn) => ({
+        prompt: turn.prompt,
+        mode: turn.mode,
+        sql: turn.sql,
+        columns: turn.columns,
+        rowCount: turn.row_count,
+        createdAt: turn.created_at.toISOString(),
+      })),
+    };
+  }
+
+  async list(owner: string): Promise<QuerySessionSummary[]> {
+    await this.ensureTables();
+    const rows = await this.db.exec<SessionRow>(
+      `
+      SELECT s.*, (SELECT COUNT(*) FROM app.query_session_turns t WHERE t.session_id = s.id)::int AS turn_count
+      FROM app.query_sessions s
+      WHERE s.owner = $1
+      ORDER BY s.updated_at DESC
+      `,
+      [owner],
+    );
+    return rows.map((row) => ({ ...this.toSummary(row), turnCount: row.turn_count }));
+  }
+
+  async delete(id: string, owner: string): Promise<boolean> {
+    await this.ensureTables();
+    const rows = await this.db.exec(
+      `DELETE FROM app.query_sessions WHERE id = $1 AND owner = $2 RETURNING id`,
+      [id, owner],
+    );
+    return rows.length > 0;
+  }
+
+  async appendTurn(id: string, turn: SessionTurn): Promise<void> {
+    await this.ensureTables();
+    await this.db.exec(
+      `
+      INSERT INTO app.query_session_turns (session_id, prompt, mode, sql, columns, row_count, created_at)
+      VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, $6, $7)
+      `,
+      [
+        id,
+        turn.prompt,
+        turn.mode,
+        JSON.stringify(turn.sql),
+        JSON.stringify(turn.columns),
+        turn.rowCount,
+        turn.createdAt,
+      ],
+    );
+    await this.db.exec(`UPDATE app.query_sessions SET updated_at = $2 WHERE id = $1`, [
+      id,
+      turn.createdAt,
+    ]);
+  }
+
+  private toSummary(row: SessionRow): Omit<QuerySessionSummary, 'turnCount'> {
+    return {
+      id: row.id,
+      title: row.title || undefined,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+    };
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.query_sessions (
+            id TEXT PRIMARY KEY,
+            owner TEXT NOT NULL,
+            title TEXT,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.query_session_turns (
+            id SERIAL PRIMARY KEY,
+            session_id TEXT NOT NULL REFERENCES app.query_sessions(id) ON DELETE CASCADE,
+            prompt TEXT NOT NULL,
+            mode TEXT NOT NULL,
+            sql JSONB NOT NULL DEFAULT '[]',
+            columns JSONB NOT NULL DEFAULT '[]',
+            row_count INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { VectorListOptions, VectorQueryOptions, VectorStore } from './vector-store';
+import { VectorFilter, VectorMatch, VectorMetadata, VectorRecord } from './types';
+
+/**
+ * pgvector table in the application database. Lives in the `app` schema so
+ * the schema catalog (which only reads `public`) never shows it to the LLM.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector' as const;
+  private readonly logger = new Logger(PgVectorStore.name);
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly db: DbService,
+    private readonly dimensions: number,
+  ) {}
+
+  async upsert(records: VectorRecord[], namespace = ''): Promise<void> {
+    await this.ensureTable();
+    for (const record of records) {
+      await this.db.exec(
+        `
+        INSERT INTO app.vector_embeddings (namespace, id, embedding, metadata)
+        VALUES ($1, $2, $3::vector, $4::jsonb)
+        ON CONFLICT (namespace, id)
+        DO UPDATE SET embedding = EXCLUDED.embedding, metadata = EXCLUDED.metadata, updated_at = NOW()
+        `,
+        [namespace, record.id, this.toVector(record.values), JSON.stringify(record.metadata || {})],
+      );
+    }
+    this.logger.log(`Upserted ${records.length} vectors to pgvector (namespace: '${namespace}')`);
+  }
+
+  async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    await this.ensureTable();
+    const params: any[] = [this.toVector(vector), options.namespace || '', options.topK];
+    const where = this.toWhereClause(options.filter, params);
+
+    const rows = await this.db.exec<{ id: string; score: number; metadata: VectorMetadata }>(
+      `
+      SELECT id, 1 - (embedding <=> $1::vector) AS score, metadata
+      FROM app.vector_embeddings
+      WHERE namespace = $2 ${where}
+      ORDER BY embedding <=> $1::vector
+      LIMIT $3
+      `,
+      params,
+    );
+    return rows.map((row) => ({ id: row.id, score: Number(row.score), metadata: row.metadata }));
+  }
+
+  async list(options: VectorListOptions = {}): Promise<string[]> {
+    await this.ensureTable();
+    const rows = await this.db.exec<{ id: string }>(
+      `SELECT id FROM app.vector_embeddings WHERE namespace = $1 AND id LIKE $2 ORDER BY id`,
+      [options.namespace || '', `${(options.prefix || '').replace(/[\\%_]/g, '\\$&')}%`],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  async delete(ids: string[], namespace = ''): Promise<void> {
+    await this.ensureTable();
+    await this.db.exec(`DELETE FROM app.vector_embeddings WHERE namespace = $1 AND id = ANY($2)`, [
+      namespace,
+      ids,
+    ]);
+  }
+
+  async deleteAll(namespace = ''): Promise<void> {
+    await this.ensureTable();
+    await this.db.exec(`DELETE FROM app.vector_embeddings WHERE namespace = $1`, [namespace]);
+  }
+
+  async ping(): Promise<void> {
+    await this.ensureTable();
+    await this.db.exec('SELECT 1 FROM app.vector_embeddings LIMIT 1');
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.exec('CREATE EXTENSION IF NOT EXISTS vector');
+        await this.db.exec('CREATE SCHEMA IF NOT EXISTS app');
+        await this.db.exec(`
+          CREATE TABLE IF NOT EXISTS app.vector_embeddings (
+            namespace TEXT NOT NULL DEFAULT '',
+            id TEXT NOT NULL,
+            embedding vector(${this.dimensions}) NOT NULL,
+            metadata JSONB NOT NULL DEFAULT '{}',
+            updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            PRIMARY KEY (namespace, id)
+          )
+        `);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private toVector(values: number[]): string {
+    return `[${values.join(',')}]`;
+  }
+
+  // Appends filter parameters to `params` and returns the matching AND clauses
+  private toWhereClause(filter: VectorFilter | undefined, params: any[]): string {
+    if (!filter) return '';
+    return Object.entries(filter)
+      .map(([key, value]) => {
+        params.push(key);
+        const keyParam = `$${params.length}`;
+        if (value !== null && typeof value === 'object') {
+          params.push(value.$in.map((item) => String(item)));
+          return `AND metadata->>${keyParam} = ANY($${params.length})`;
+        }
+        params.push(JSON.stringify(value));
+        return `AND metadata->${keyParam} = $${params.length}::jsonb`;
+      })
+      .join(' ');
+  }
+}
@@ -0,0 +1,88 @@
+import { Logger } from '@nestjs/common';
+import { Pinecone } from '@pinecone-database/pinecone';
+import { VectorListOptions, VectorQueryOptions, VectorStore } from './vector-store';
+import { VectorFilter, VectorMatch, VectorMetadata, VectorRecord } from './types';
+
+/**
+ * Pinecone index; namespaces map to Pinecone namespaces ('' is the default).
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone' as const;
+  private readonly logger = new Logger(PineconeVectorStore.name);
+  private readonly pinecone: Pinecone;
+
+  constructor(
+    apiKey: string,
+    private readonly indexName: string,
+  ) {
+    this.pinecone = new Pinecone({ apiKey });
+  }
+
+  async upsert(records: VectorRecord[], namespace = ''): Promise<void> {
+    if (records.length === 0) return;
+    await this.index(namespace).upsert(
+      records.map((record) => ({
+        id: record.id,
+        values: record.values,
+        metadata: record.metadata,
+      })),
+    );
+    this.logger.log(`Upserted ${records.length} vectors to Pinecone (namespace: '${namespace}')`);
+  }
+
+  async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const response = await this.index(options.namespace).query({
+      vector,
+      topK: options.topK,
+      includeMetadata: true,
+      filter: this.toPineconeFilter(options.filter),
+    });
+
+    return (
+      response.matches?.map((match) => ({
+        id: match.id,
+        score: match.score || 0,
+        metadata: (match.metadata || {}) as VectorMetadata,
+      })) || []
+    );
+  }
+
+  async list(options: VectorListOptions = {}): Promise<string[]> {
+    const index = this.index(options.namespace);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await index.listPaginated({ prefix: options.prefix, paginationToken });
+      ids.push(...(page.vectors?.map((v) => v.id) || []));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+    return ids;
+  }
+
+  async delete(ids: string[], namespace = ''): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index(namespace).deleteMany(ids);
+  }
+
+  async deleteAll(namespace = ''): Promise<void> {
+    await this.index(namespace).deleteAll();
+  }
+
+  async ping(): Promise<void> {
+    await this.pinecone.index(this.indexName).describeIndexStats();
+  }
+
+  private index(namespace = '') {
+    return this.pinecone.index(this.indexName).namespace(namespace);
+  }
+
+  private toPineconeFilter(filter?: VectorFilter): object | undefined {
+    if (!filter) return undefined;
+    return Object.fromEntries(
+      Object.entries(filter).map(([key, value]) => [
+        key,
+        value !== null && typeof value === 'object' ? value : { $eq: value },
+      ]),
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { ConfigService } from '@nestjs/config';
+import { resolve } from 'path';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { PolicyService, PolicyViolationError } from './policy.service';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { SqlGuardService } from './sql-guard.service';
+import { CatalogTable } from './types';
+
+const table = (name: string, columns: string[]): CatalogTable => ({
+  name,
+  type: 'table',
+  columns: columns.map((column) => ({ name: column, dataType: 'text', nullable: true })),
+  primaryKey: ['id'],
+  foreignKeys: [],
+});
+
+// fixtures/policies.json against the sample schema, on PostgreSQL
+describe('PolicyService', () => {
+  const catalog = {
+    getCatalog: async () => ({
+      tables: [
+        table('contacts', ['id', 'first_name', 'last_name', 'created_at', 'updated_at']),
+        table('cases', ['id', 'topic', 'created_at', 'updated_at']),
+      ],
+    }),
+  } as unknown as SchemaCatalogService;
+  const datasources = {
+    get: () => ({ name: 'postgres', dialect: 'postgresql', schema: 'public' }),
+  } as unknown as DatasourceRegistry;
+  const policies = new PolicyService(
+    new SqlGuardService(),
+    catalog,
+    datasources,
+    new ConfigService<AppConfig, true>({
+      policyPath: resolve(__dirname, '../../../fixtures/policies.json'),
+    }),
+  );
+
+  const violation = (sql: string, role?: string) =>
+    policies.enforce(sql, { role }).then(
+      () => 'ALLOWED',
+      (error) => (error instanceof PolicyViolationError ? error.rule : error.message),
+    );
+
+  beforeAll(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+
+  it('shadows a table with its readable columns, masked', async () => {
+    const sql = await policies.enforce('SELECT first_name, last_name FROM contacts', {
+      role: 'analyst',
+    });
+
+    expect(sql).toBe(
+      'WITH "contacts" AS (SELECT "id" AS "id", ' +
+        `substr(CAST("first_name" AS text), 1, 1) || '***' AS "first_name", ` +
+        'md5(CAST("last_name" AS text)) AS "last_name", "created_at" AS "created_at" ' +
+        'FROM "public"."contacts")\nSELECT first_name, last_name FROM contacts',
+    );
+  });
+
+  it('applies the row filter to every read of the table', async () => {
+    const sql = await policies.enforce(
+      'SELECT COUNT(*) FROM cases WHERE id IN (SELECT id FROM cases)',
+      { role: 'analyst' },
+    );
+
+    expect(sql).toContain(`FROM "public"."cases" WHERE topic NOT LIKE 'Urgent%')`);
+    expect(sql.match(/"cases" AS \(/g)).toHaveLength(1);
+  });
+
+  it('uses defaultRole when the caller has no role', async () => {
+    expect(await policies.enforce('SELECT first_name FROM contacts')).toContain(
+      `substr(CAST("first_name" AS text), 1, 1) || '***'`,
+    );
+  });
+
+  it('leaves SQL alone for a role that reads everything', async () => {
+    expect(await policies.enforce('SELECT * FROM contacts', { role: 'admin' })).toBe(
+      'SELECT * FROM contacts',
+    );
+  });
+
+  it('rejects schema-qualified names, which would get past the shadowing CTE', async () => {
+    expect(await violation('SELECT * FROM public.contacts', 'analyst')).toBe('QUALIFIED_TABLE');
+    expect(await violation('SELECT * FROM app.api_keys', 'analyst')).toBe('QUALIFIED_TABLE');
+  });
+
+  it('rejects tables and columns outside the policy', async () => {
+    expect(await violation('SELECT * FROM contacts', 'support')).toBe('TABLE_NOT_ALLOWED');
+    expect(await violation('SELECT updated_at FROM contacts', 'analyst')).toBe(
+      'COLUMN_NOT_ALLOWED',
+    );
+    // Readable in cases, so the reference is not a leak
+    expect(await violation('SELECT k.updated_at FROM cases k', 'analyst')).toBe('ALLOWED');
+  });
+
+  it('rejects a CTE that reuses a table name', async () => {
+    expect(
+      await violation('WITH contacts AS (SELECT 1 AS id) SELECT * FROM contacts', 'analyst'),
+    ).toBe('SHADOWED_TABLE');
+  });
+
+  it('rejects unknown roles', async () => {
+    expect(await violation('SELECT 1', 'root')).toBe('UNKNOWN_ROLE');
+  });
+
+  it('lists the tables and columns a role may see', async () => {
+    expect(await policies.visibleSelection('support')).toEqual(
+      new Map([['cases', ['id', 'topic', 'created_at']]]),
+    );
+    expect(await policies.visibleSelection('admin')).toBeUndefined();
+  });
+});
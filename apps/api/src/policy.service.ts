@@ -0,0 +1,250 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiError } from './errors';
+import { readFileSync } from 'fs';
+import { SqlGuardService } from './sql-guard.service';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { DatasourceRegistry } from './datasource-registry';
+import {
+  CatalogTable,
+  ColumnMask,
+  PolicyFile,
+  PolicyRule,
+  RolePolicy,
+  SqlDialect,
+  TablePolicy,
+} from './types';
+import { AppConfig } from './config';
+
+const IDENTIFIER_QUOTES: Record<SqlDialect, string> = {
+  postgresql: '"',
+  mysql: '`',
+  mariadb: '`',
+  sqlite: '"',
+};
+
+export class PolicyViolationError extends ApiError {
+  constructor(
+    readonly rule: PolicyRule,
+    reason: string,
+    readonly detail?: string,
+  ) {
+    super('POLICY_VIOLATION', HttpStatus.FORBIDDEN, `Policy: ${reason}`, { rule, detail });
+  }
+}
+
+/**
+ * Per-role access policies from POLICY_PATH: which tables and columns a role
+ * may read, which columns are masked and which rows it sees. Generated SQL
+ * is checked against the policy (explicit errors for denied tables and
+ * columns), then every table it reads is shadowed by a CTE of the same name
+ * that selects only the readable columns, masked, with the row filter
+ * applied. Without POLICY_PATH every caller reads everything.
+ */
+@Injectable()
+export class PolicyService {
+  private readonly logger = new Logger(PolicyService.name);
+  private readonly policies: PolicyFile | null;
+
+  constructor(
+    private readonly sqlGuard: SqlGuardService,
+    private readonly schemaCatalog: SchemaCatalogService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {
+    const path = this.config.get('policyPath', { infer: true });
+    this.policies = path ? (JSON.parse(readFileSync(path, 'utf8')) as PolicyFile) : null;
+    if (this.policies) {
+      this.logger.log(
+        `Access policies loaded for roles: ${Object.keys(this.policies.roles).join(', ')}`,
+      );
+    }
+  }
+
+  // Roles defined in POLICY_PATH; null without policies, where any role reads everything
+  roles(): string[] | null {
+    return this.policies ? Object.keys(this.policies.roles) : null;
+  }
+
+  // The role's policy, or null when it reads everything unrestricted
+  resolve(role?: string): { role: string; policy: RolePolicy } | null {
+    if (!this.policies) return null;
+
+    const name = role || this.policies.defaultRole;
+    if (!name) {
+      throw new PolicyViolationError(
+        'UNKNOWN_ROLE',
+        'A role is required: use an API key with a role, or set defaultRole.',
+      );
+    }
+    const policy = this.policies.roles[name];
+    if (!policy) {
+      throw new PolicyViolationError('UNKNOWN_ROLE', `Unknown role ${name}.`, name);
+    }
+    return policy.tables === '*' ? null : { role: name, policy };
+  }
+
+  /**
+   * Tables and columns the role may see, in the shape of a schema selection
+   * (see SchemaCatalogService.renderPromptSchema); undefined when unrestricted.
+   */
+  async visibleSelection(
+    role?: string,
+    datasource?: string,
+  ): Promise<Map<string, string[] | null> | undefined> {
+    const resolved = this.resolve(role);
+    if (!resolved) return undefined;
+
+    const { tables } = await this.schemaCatalog.getCatalog(datasource);
+    const selection = new Map<string, string[] | null>();
+    for (const table of tables) {
+      const rule = this.tableRule(resolved.policy, table.name);
+      if (rule) selection.set(table.name, this.readableColumns(table, rule));
+    }
+    return selection;
+  }
+
+  /**
+   * Checks a statement that passed the guard against the role's policy and
+   * returns the SQL to run in its place.
+   */
+  async enforce(
+    sql: string,
+    options: { role?: string; datasource?: string } = {},
+  ): Promise<string> {
+    const resolved = this.resolve(options.role);
+    if (!resolved) return sql;
+    const { role, policy } = resolved;
+
+    const datasource = this.datasources.get(options.datasource);
+    // SQLite syntax the guard left to the engine has no tree to check names in
+    const refs = await this.sqlGuard.references(sql, datasource.dialect).catch(() => {
+      throw new PolicyViolationError(
+        'UNPARSED_SQL',
+        `Role ${role} may only run SQL the policy checker can parse.`,
+      );
+    });
+    if (refs.statementType !== 'SelectStmt') {
+      throw new PolicyViolationError(
+        'NOT_READ_ONLY',
+        `Role ${role} may only run SELECT statements.`,
+        refs.statementType,
+      );
+    }
+
+    const { tables } = await this.schemaCatalog.getCatalog(datasource.name);
+    const byName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+    const ctes = new Set(refs.ctes);
+    const shadowing = refs.ctes.find((name) => byName.has(name));
+    if (shadowing) {
+      throw new PolicyViolationError(
+        'SHADOWED_TABLE',
+        `A CTE may not reuse the table name ${shadowing}.`,
+        shadowing,
+      );
+    }
+
+    const referenced = new Map<string, { table: CatalogTable; rule: TablePolicy }>();
+    for (const ref of refs.tables) {
+      if (ref.schema) {
+        throw new PolicyViolationError(
+          'QUALIFIED_TABLE',
+          `Schema-qualified table names are not allowed (${ref.schema}.${ref.name}).`,
+          `${ref.schema}.${ref.name}`,
+        );
+      }
+      if (ctes.has(ref.name)) continue;
+
+      const rule = this.tableRule(policy, ref.name);
+      if (!rule) {
+        throw new PolicyViolationError(
+          'TABLE_NOT_ALLOWED',
+          `Table ${ref.name} is not readable by role ${role}.`,
+          ref.name,
+        );
+      }
+      // Tables missing from the catalog fail in the database as usual
+      const table = byName.get(ref.name);
+      if (table) referenced.set(table.name, { table, rule });
+    }
+
+    // A name hidden in one table may still be readable in another, or be an alias
+    const readable = new Set<string>();
+    const hidden = new Set<string>();
+    for (const { table, rule } of referenced.values()) {
+      const columns = this.readableColumns(table, rule);
+      for (const column of table.columns) {
+        (columns.includes(column.name) ? readable : hidden).add(column.name.toLowerCase());
+      }
+    }
+    const aliases = new Set(refs.aliases);
+    const denied = refs.columns.find(
+      (column) => hidden.has(column) && !readable.has(column) && !aliases.has(column),
+    );
+    if (denied) {
+      throw new PolicyViolationError(
+        'COLUMN_NOT_ALLOWED',
+        `Column ${denied} is not readable by role ${role}.`,
+        denied,
+      );
+    }
+
+    if (referenced.size === 0) return sql;
+    const quote = IDENTIFIER_QUOTES[datasource.dialect];
+    const q = (name: string) => `${quote}${name.split(quote).join(quote + quote)}${quote}`;
+    const definitions = [...referenced.values()].map(({ table, rule }) => {
+      const columns = this.readableColumns(table, rule).map(
+        (column) =>
+          `${this.mask(rule.mask?.[column], q(column), datasource.dialect)} AS ${q(column)}`,
+      );
+      const where = rule.rowFilter ? ` WHERE ${rule.rowFilter}` : '';
+      return `${q(table.name)} AS (SELECT ${columns.join(', ')} FROM ${q(datasource.schema)}.${q(table.name)}${where})`;
+    });
+    return this.prependCtes(sql, definitions);
+  }
+
+  private tableRule(policy: RolePolicy, name: string): TablePolicy | undefined {
+    if (policy.tables === '*') return {};
+    const key = Object.keys(policy.tables).find(
+      (table) => table.toLowerCase() === name.toLowerCase(),
+    );
+    return key ? policy.tables[key] : undefined;
+  }
+
+  private readableColumns(table: CatalogTable, rule: TablePolicy): string[] {
+    const names = table.columns.map((column) => column.name);
+    if (!rule.columns || rule.columns === '*') return names;
+    const allowed = new Set(rule.columns.map((name) => name.toLowerCase()));
+    return names.filter((name) => allowed.has(name.toLowerCase()));
+  }
+
+  private mask(mask: ColumnMask | undefined, column: string, dialect: SqlDialect): string {
+    const mysql = dialect === 'mysql' || dialect === 'mariadb';
+    switch (mask) {
+      case 'hash':
+        return dialect === 'postgresql' ? `md5(CAST(${column} AS text))` : `md5(${column})`;
+      case 'partial':
+        // MySQL reads || as OR
+        return mysql
+          ? `CONCAT(LEFT(${column}, 1), '***')`
+          : `substr(CAST(${column} AS text), 1, 1) || '***'`;
+      case 'null':
+        return 'NULL';
+      default:
+        return column;
+    }
+  }
+
+  // Joins the statement's own WITH clause, if any, so its CTEs can read the shadowed tables
+  private prependCtes(sql: string, definitions: string[]): string {
+    const body = sql
+      .trim()
+      .replace(/;+\s*$/, '')
+      .replace(/^(\s*(--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/))*\s*/, '');
+    const withClause = /^with(\s+recursive)?\s+/i.exec(body);
+    if (withClause) {
+      return `${withClause[0]}${definitions.join(',\n')},\n${body.slice(withClause[0].length)}`;
+    }
+    return `WITH ${definitions.join(',\n')}\n${body}`;
+  }
+}
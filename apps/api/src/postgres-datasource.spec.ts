@@ -0,0 +1,108 @@
+import { DatasourceRunOptions } from './datasource';
+import { PostgresDatasource } from './postgres-datasource';
+
+const PLAN = [
+  {
+    Plan: {
+      'Node Type': 'Seq Scan',
+      'Relation Name': 'contacts',
+      'Total Cost': 12,
+      'Plan Rows': 40,
+    },
+  },
+];
+
+// A pooled client that answers FETCH from `rows` and records every statement
+function fakeClient(rows: any[]) {
+  const sent: string[] = [];
+  return {
+    sent,
+    query: jest.fn(async (query: string | { text: string }) => {
+      const text = typeof query === 'string' ? query : query.text;
+      sent.push(text);
+      if (text.startsWith('EXPLAIN')) return { rows: [{ 'QUERY PLAN': PLAN }] };
+      if (text.startsWith('FETCH')) {
+        const count = Number(/FETCH FORWARD (\d+)/.exec(text)![1]);
+        return { rows: rows.splice(0, count), fields: [{ name: 'id', dataTypeID: 23 }] };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+}
+
+describe('PostgresDatasource', () => {
+  const datasource = new PostgresDatasource('postgres', {
+    connectionString: 'postgres://localhost/crm',
+  });
+  const options: DatasourceRunOptions = {
+    params: [],
+    limits: { timeoutMs: 1500, maxRows: 2, maxPlanCost: 1e6, maxPlanRows: 1e6 },
+    batchSize: 10,
+    statementType: 'SelectStmt',
+    allowWrites: false,
+  };
+  let client: ReturnType<typeof fakeClient>;
+
+  beforeEach(() => {
+    client = fakeClient([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    jest.spyOn((datasource as any).pool, 'connect').mockResolvedValue(client);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => datasource.close());
+
+  it('reads through a cursor in a read-only transaction with the statement timeout', async () => {
+    const rows: any[] = [];
+    const result = await datasource.run('SELECT id FROM contacts', options, async (batch) => {
+      rows.push(...batch);
+    });
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result).toEqual({ rowCount: 2, truncated: true });
+    expect(client.sent).toEqual([
+      'BEGIN READ ONLY',
+      'SET LOCAL statement_timeout = 1500',
+      'DECLARE generated_query NO SCROLL CURSOR FOR SELECT id FROM contacts',
+      'FETCH FORWARD 2 FROM generated_query',
+      'FETCH FORWARD 1 FROM generated_query',
+      'COMMIT',
+    ]);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('moves the cursor to the offset', async () => {
+    await datasource.run('SELECT id FROM contacts', { ...options, offset: 20 }, async () => {});
+
+    expect(client.sent).toContain('MOVE FORWARD 20 IN generated_query');
+  });
+
+  it('rolls back when the statement fails', async () => {
+    client.query.mockImplementation(async (query: any) => {
+      client.sent.push(typeof query === 'string' ? query : query.text);
+      if (String(query).startsWith('DECLARE')) {
+        throw new Error('canceling statement due to statement timeout');
+      }
+      return { rows: [] };
+    });
+
+    await expect(datasource.run('SELECT pg_sleep(10)', options, async () => {})).rejects.toThrow(
+      'statement timeout',
+    );
+    expect(client.sent).toContain('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('plans in the same read-only, timed transaction', async () => {
+    const estimate = await datasource.estimate('SELECT id FROM contacts', [], 1500);
+
+    expect(estimate).toEqual({ totalCost: 12, planRows: 40, fullScans: ['contacts'] });
+    expect(client.sent).toEqual([
+      'BEGIN READ ONLY',
+      'SET LOCAL statement_timeout = 1500',
+      'EXPLAIN (FORMAT JSON) SELECT id FROM contacts',
+      'COMMIT',
+    ]);
+  });
+});
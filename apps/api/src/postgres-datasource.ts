@@ -0,0 +1,250 @@
+import { FieldDef, Pool, PoolClient, PoolConfig, types } from 'pg';
+import { BatchHandler, Datasource, DatasourceRunOptions } from './datasource';
+import { CatalogTable, PlanEstimate, ResultColumn } from './types';
+
+const SCHEMA_NAME = 'public';
+
+// `date` values stay 'YYYY-MM-DD' instead of becoming local-midnight Dates
+const GENERATED_TYPES = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+    oid === types.builtins.DATE
+      ? (value: string) => value
+      : types.getTypeParser(oid, format)) as typeof types.getTypeParser,
+};
+
+function toColumns(fields: FieldDef[]): ResultColumn[] {
+  return fields.map((field) => ({ name: field.name, dataTypeID: field.dataTypeID }));
+}
+
+// Relations read by a Seq Scan anywhere in an EXPLAIN (FORMAT JSON) plan
+function seqScans(node: any, found: Set<string> = new Set()): Set<string> {
+  if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) {
+    found.add(node['Relation Name']);
+  }
+  for (const child of node.Plans || []) seqScans(child, found);
+  return found;
+}
+
+/**
+ * PostgreSQL: a READ ONLY transaction with statement_timeout, and SELECTs
+ * read through a NO SCROLL cursor so capped results are never materialized.
+ */
+export class PostgresDatasource implements Datasource {
+  readonly driver = 'postgres';
+  readonly dialect = 'postgresql';
+  readonly schema = SCHEMA_NAME;
+  private readonly pool: Pool;
+
+  constructor(
+    readonly name: string,
+    config: PoolConfig,
+  ) {
+    this.pool = new Pool({ idleTimeoutMillis: 30000, connectionTimeoutMillis: 2000, ...config });
+  }
+
+  // Connections in the pool, for the readiness check
+  poolStats(): { total: number; idle: number; waiting: number } {
+    return {
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+    };
+  }
+
+  // Application-owned statements only, see DbService.exec
+  async query<T = unknown>(sql: string, params: any[] = []): Promise<T[]> {
+    const result = await this.pool.query(sql, params);
+    return result.rows as T[];
+  }
+
+  // Planned in the same read-only, timed transaction as run(): EXPLAIN can still call functions
+  async estimate(sql: string, params: any[], timeoutMs: number): Promise<PlanEstimate> {
+    const result = await this.transaction(false, timeoutMs, (client) =>
+      client.query(`EXPLAIN (FORMAT JSON) ${sql}`, params),
+    );
+    const plan = result.rows[0]['QUERY PLAN'][0];
+    return {
+      totalCost: plan.Plan['Total Cost'],
+      planRows: plan.Plan['Plan Rows'],
+      fullScans: [...seqScans(plan.Plan)],
+    };
+  }
+
+  async run(
+    sql: string,
+    options: DatasourceRunOptions,
+    onBatch: BatchHandler,
+  ): Promise<{ rowCount: number; truncated: boolean }> {
+    const { params, limits, batchSize } = options;
+    return this.transaction(options.allowWrites, limits.timeoutMs, async (client) => {
+      let rowCount = 0;
+      let truncated = false;
+      if (options.statementType === 'SelectStmt') {
+        await client.query(`DECLARE generated_query NO SCROLL CURSOR FOR ${sql}`, params);
+        if (options.offset) {
+          await client.query(`MOVE FORWARD ${Math.floor(options.offset)} IN generated_query`);
+        }
+        for (;;) {
+          const wanted = Math.min(batchSize, limits.maxRows - rowCount);
+          if (wanted === 0) {
+            // One extra row tells us whether the result was capped
+            const extra = await client.query('FETCH FORWARD 1 FROM generated_query');
+            truncated = extra.rows.length > 0;
+            break;
+          }
+          const result = await client.query({
+            text: `FETCH FORWARD ${wanted} FROM generated_query`,
+            types: GENERATED_TYPES,
+          });
+          rowCount += result.rows.length;
+          const more = await onBatch(result.rows, toColumns(result.fields));
+          if (more === false || result.rows.length < wanted) break;
+        }
+      } else {
+        const result = await client.query({ text: sql, values: params, types: GENERATED_TYPES });
+        rowCount = result.rows.length;
+        await onBatch(result.rows, toColumns(result.fields || []));
+      }
+      return { rowCount, truncated };
+    });
+  }
+
+  private async transaction<T>(
+    allowWrites: boolean,
+    timeoutMs: number,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(allowWrites ? 'BEGIN' : 'BEGIN READ ONLY');
+      await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Tables, views, keys and comments of the public schema
+  async introspect(): Promise<CatalogTable[]> {
+    const relations = await this.query<{
+      name: string;
+      table_type: string;
+      comment: string | null;
+    }>(
+      `
+      SELECT
+        t.table_name AS name,
+        t.table_type,
+        obj_description(format('%I.%I', t.table_schema, t.table_name)::regclass, 'pg_class') AS comment
+      FROM information_schema.tables t
+      WHERE t.table_schema = $1
+        AND t.table_type IN ('BASE TABLE', 'VIEW')
+      ORDER BY t.table_name
+      `,
+      [SCHEMA_NAME],
+    );
+
+    const columns = await this.query<{
+      table_name: string;
+      column_name: string;
+      data_type: string;
+      nullable: boolean;
+      default_value: string | null;
+      comment: string | null;
+    }>(
+      `
+      SELECT
+        c.relname AS table_name,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS data_type,
+        NOT a.attnotnull AS nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS default_value,
+        col_description(c.oid, a.attnum) AS comment
+      FROM pg_catalog.pg_attribute a
+      JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'p', 'v', 'm')
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+      ORDER BY c.relname, a.attnum
+      `,
+      [SCHEMA_NAME],
+    );
+
+    const constraints = await this.query<{
+      table_name: string;
+      name: string;
+      type: 'p' | 'f';
+      columns: string[];
+      referenced_table: string | null;
+      referenced_columns: string[] | null;
+    }>(
+      `
+      SELECT
+        c.relname AS table_name,
+        con.conname AS name,
+        con.contype AS type,
+        ARRAY(
+          SELECT a.attname
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns,
+        rc.relname AS referenced_table,
+        ARRAY(
+          SELECT a.attname
+          FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_catalog.pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS referenced_columns
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+      WHERE n.nspname = $1
+        AND con.contype IN ('p', 'f')
+      ORDER BY c.relname, con.conname
+      `,
+      [SCHEMA_NAME],
+    );
+
+    return relations.map((relation) => {
+      const tableConstraints = constraints.filter((con) => con.table_name === relation.name);
+      const primaryKey = tableConstraints.find((con) => con.type === 'p');
+      return {
+        name: relation.name,
+        type: relation.table_type === 'VIEW' ? 'view' : 'table',
+        comment: relation.comment || undefined,
+        columns: columns
+          .filter((column) => column.table_name === relation.name)
+          .map((column) => ({
+            name: column.column_name,
+            dataType: column.data_type,
+            nullable: column.nullable,
+            defaultValue: column.default_value || undefined,
+            comment: column.comment || undefined,
+          })),
+        primaryKey: primaryKey ? primaryKey.columns : [],
+        foreignKeys: tableConstraints
+          .filter((con) => con.type === 'f')
+          .map((con) => ({
+            name: con.name,
+            columns: con.columns,
+            referencedTable: con.referenced_table,
+            referencedColumns: con.referenced_columns || [],
+          })),
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
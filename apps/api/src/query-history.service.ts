@@ -0,0 +1,324 @@
+import {
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { HISTORY_STORE, HistoryStore } from './history-store';
+import { LlmUsageTotals, meterLlmUsage } from './llm-usage';
+import { traceGeneratedSql } from './sql-trace';
+import { requestDuration, requestsTotal } from './metrics';
+import { withSpan } from './tracing';
+import { QueryCancelledError, resolveQueryLimits } from './query-run';
+import { ClarificationNeededError } from './clarification';
+import { SqlGuardService } from './sql-guard.service';
+import { SqlErrorAnalyzerService } from './sql-error-analyzer.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { Nl2SqlService } from './nl2sql.service';
+import { PaginationService } from './pagination.service';
+import {
+  HistoryEntry,
+  HistoryFilter,
+  HistoryKind,
+  QueryCaller,
+  QueryMode,
+  ReplayRequest,
+  ReplayResult,
+  SqlAttempt,
+} from './types';
+import { AppConfig } from './config';
+
+// What a request asked for, before it runs
+export interface HistoryRequest {
+  prompt?: string;
+  mode?: QueryMode;
+  datasource?: string;
+  sessionId?: string;
+}
+
+// The parts of a query result, page or replay that go into the history
+interface TrackedResult {
+  sql?: string | string[];
+  rows?: any[];
+  rowCount?: number;
+  reasoning?: string[];
+  observations?: string[];
+  attempts?: SqlAttempt[];
+  datasource?: string;
+  success?: boolean;
+  error?: string;
+  clarification?: unknown;
+}
+
+/**
+ * One request on its way into the history. Work run through `measure` has
+ * its LLM usage and generated SQL counted towards the entry, and is traced
+ * as one span.
+ */
+export class HistoryDraft {
+  readonly id = randomUUID();
+  readonly startedAt = new Date();
+  readonly usage: LlmUsageTotals = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
+  readonly statements: string[] = [];
+  finished = false;
+
+  constructor(
+    readonly kind: HistoryKind,
+    readonly request: HistoryRequest,
+    readonly caller: QueryCaller,
+    readonly replayOf?: string,
+  ) {}
+
+  async measure<T>(fn: () => Promise<T>): Promise<T> {
+    const attributes = {
+      'nl2sql.kind': this.kind,
+      'nl2sql.mode': this.request.mode || 'direct',
+      'nl2sql.datasource': this.request.datasource || '',
+      'nl2sql.history_id': this.id,
+    };
+    return withSpan(`nl2sql.${this.kind}`, attributes, async () => {
+      const { result } = await traceGeneratedSql(
+        () => meterLlmUsage(fn, this.usage),
+        this.statements,
+      );
+      return result;
+    });
+  }
+}
+
+/**
+ * Records every query, stream, export, page and replay request: the prompt,
+ * caller, generated SQL and the tables it reads, ReAct steps, row count,
+ * duration, LLM tokens and the outcome. Entries are kept in the
+ * HISTORY_STORE and can be searched and replayed. A failure to record is
+ * logged and never fails the request itself.
+ */
+@Injectable()
+export class QueryHistoryService {
+  private readonly logger = new Logger(QueryHistoryService.name);
+
+  constructor(
+    @Inject(HISTORY_STORE) private readonly store: HistoryStore,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly errorAnalyzer: SqlErrorAnalyzerService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly nl2sql: Nl2SqlService,
+    private readonly pagination: PaginationService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  begin(
+    kind: HistoryKind,
+    request: HistoryRequest,
+    caller: QueryCaller,
+    replayOf?: string,
+  ): HistoryDraft {
+    return new HistoryDraft(kind, request || {}, caller, replayOf);
+  }
+
+  // Runs `fn` as one history entry, recorded with what it returned or the error it threw
+  async track<T>(
+    kind: HistoryKind,
+    request: HistoryRequest,
+    caller: QueryCaller,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const draft = this.begin(kind, request, caller);
+    try {
+      const result = await draft.measure(fn);
+      await this.finish(draft, { result });
+      return result;
+    } catch (error) {
+      await this.finish(draft, { error });
+      throw error;
+    }
+  }
+
+  // Completes the entry once; later calls for the same draft are ignored
+  async finish(
+    draft: HistoryDraft,
+    outcome: { result?: unknown; error?: any },
+  ): Promise<HistoryEntry | undefined> {
+    if (draft.finished) return undefined;
+    draft.finished = true;
+    const result = (outcome.result || {}) as TrackedResult;
+    const outcomeName = this.outcomeOf(outcome.error, result);
+    // Pages and replays of saved SQL have no prompt, so no mode
+    const labels = {
+      kind: draft.kind,
+      mode: draft.request.prompt ? draft.request.mode || 'direct' : 'none',
+      outcome: outcomeName,
+    };
+    requestsTotal.inc(labels);
+    requestDuration.observe(labels, (Date.now() - draft.startedAt.getTime()) / 1000);
+
+    try {
+      const failure = outcome.error ? this.describeError(outcome.error) : {};
+      const datasource =
+        result.datasource || draft.request.datasource || this.datasources.defaultName;
+      const resultSql = typeof result.sql === 'string' ? [result.sql] : result.sql || [];
+      const sql = [...draft.statements];
+      for (const statement of [...(failure.attempts || []).map((a) => a.sql), ...resultSql]) {
+        if (!sql.includes(statement)) sql.push(statement);
+      }
+
+      const entry: HistoryEntry = {
+        id: draft.id,
+        createdAt: draft.startedAt.toISOString(),
+        kind: draft.kind,
+        prompt: draft.request.prompt,
+        mode: draft.request.prompt ? draft.request.mode || 'direct' : undefined,
+        datasource,
+        sessionId: draft.request.sessionId,
+        caller: draft.caller,
+        sql,
+        tables: await this.tablesOf(sql, datasource),
+        reasoning: result.reasoning,
+        observations: result.observations,
+        attempts: failure.attempts || result.attempts,
+        rowCount: result.rowCount ?? result.rows?.length,
+        durationMs: Date.now() - draft.startedAt.getTime(),
+        usage: { ...draft.usage },
+        outcome: outcomeName,
+        error: failure.error || result.error,
+        errorType: failure.errorType,
+        statusCode: failure.statusCode,
+        replayOf: draft.replayOf,
+      };
+      await this.store.append(entry);
+      return entry;
+    } catch (error) {
+      this.logger.error(`Failed to record history entry ${draft.id}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  async search(filter: HistoryFilter): Promise<HistoryEntry[]> {
+    return await this.store.search(filter);
+  }
+
+  async get(id: string): Promise<HistoryEntry> {
+    const entry = await this.store.get(id);
+    if (!entry) {
+      throw new NotFoundException(`History entry ${id} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * Runs a recorded request again: its last SQL statement as it was, or its
+   * prompt translated anew by the current model (without the session's
+   * conversation). The replay is recorded too, pointing back at the original.
+   */
+  async replay(
+    original: HistoryEntry,
+    request: ReplayRequest,
+    caller: QueryCaller,
+  ): Promise<ReplayResult> {
+    const as = request.as || 'sql';
+    const originalSql = original.sql[original.sql.length - 1];
+    if (as === 'sql' && !originalSql) {
+      throw new BadRequestException(`History entry ${original.id} has no SQL to replay`);
+    }
+    if (as === 'prompt' && !original.prompt) {
+      throw new BadRequestException(`History entry ${original.id} has no prompt to replay`);
+    }
+    if (as !== 'sql' && as !== 'prompt') {
+      throw new BadRequestException('Replay "as" must be "sql" or "prompt"');
+    }
+
+    const limits = resolveQueryLimits(this.config.get('sql', { infer: true }), request);
+    const datasource = this.datasources.get(original.datasource).name;
+    const mode = original.mode || 'direct';
+    const draft = this.begin(
+      'replay',
+      { prompt: original.prompt, mode, datasource },
+      caller,
+      original.id,
+    );
+
+    let result: TrackedResult & { rows: any[] };
+    try {
+      result = await draft.measure(async () => {
+        const run = { limits, datasource, role: caller.role };
+        let sql = [originalSql];
+        if (as === 'prompt') {
+          const translated = await this.nl2sql.process(original.prompt, mode, [], run);
+          if ('rows' in translated && translated.rows?.length > 0) {
+            return translated;
+          }
+          sql = typeof translated.sql === 'string' ? [translated.sql] : translated.sql;
+          if (sql.length === 0) return { ...translated, rows: [] };
+        }
+        const page = await this.pagination.firstPage(sql[sql.length - 1], limits, run);
+        return { ...page, sql };
+      });
+    } catch (error) {
+      await this.finish(draft, { error });
+      throw error;
+    }
+
+    const replay = await this.finish(draft, { result });
+    const replaySql = typeof result.sql === 'string' ? [result.sql] : result.sql || [];
+    return {
+      as,
+      original,
+      replay,
+      rows: result.rows,
+      sqlChanged: replaySql[replaySql.length - 1] !== originalSql,
+      rowCountChanged: result.rows.length !== original.rowCount,
+    };
+  }
+
+  private outcomeOf(error: any, result: TrackedResult): HistoryEntry['outcome'] {
+    if (error) {
+      if (error instanceof QueryCancelledError || error.name === 'AbortError') return 'cancelled';
+      return error instanceof ClarificationNeededError ? 'clarification' : 'error';
+    }
+    if (result.clarification) return 'clarification';
+    return result.success === false ? 'error' : 'success';
+  }
+
+  private describeError(
+    error: any,
+  ): Pick<HistoryEntry, 'error' | 'errorType' | 'statusCode' | 'attempts'> {
+    const response = error instanceof HttpException ? error.getResponse() : undefined;
+    const details = typeof response === 'object' ? (response as Record<string, any>) : {};
+    const errorType = details.errorType || this.errorAnalyzer.classify(error.message, error.code);
+    return {
+      error: error.message,
+      errorType: errorType === 'UNKNOWN_ERROR' ? undefined : errorType,
+      statusCode: error instanceof HttpException ? error.getStatus() : 500,
+      attempts: details.attempts,
+    };
+  }
+
+  // Tables read by the statements; ones that do not parse add none
+  private async tablesOf(sql: string[], datasource: string): Promise<string[]> {
+    const known = this.datasources.list().find((item) => item.name === datasource);
+    if (!known) return [];
+    const dialect = known.dialect;
+    const tables = new Set<string>();
+    for (const statement of sql) {
+      try {
+        const refs = await this.sqlGuard.references(statement, dialect);
+        const ctes = new Set(refs.ctes);
+        for (const table of refs.tables) {
+          if (!ctes.has(table.name)) tables.add(table.name.toLowerCase());
+        }
+      } catch {
+        // Unparseable SQL is still recorded, just without tables
+      }
+    }
+    return [...tables];
+  }
+}
@@ -0,0 +1,129 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { RequestValidationError } from './errors';
+import {
+  parseFeedbackRequest,
+  parseIssueApiKeyRequest,
+  parseQueryRequest,
+  parseSaveQueryRequest,
+  parseSavedQueryUpdate,
+} from './query-request';
+
+// The fields named in the RequestValidationError that parse throws, or [] when it passes
+function failedFields(parse: () => unknown): string[] {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof RequestValidationError) return error.errors.map((e) => e.field);
+    throw error;
+  }
+  return [];
+}
+
+describe('request body parsing', () => {
+  const config = new ConfigService<AppConfig, true>({
+    llm: { allowedModels: ['gpt-4o-mini'] },
+    react: { maxIterations: 5 },
+    query: { promptMaxLength: 100, overrides: ['maxRows', 'timeoutMs', 'answer'] },
+  });
+
+  describe('parseQueryRequest', () => {
+    it('trims strings and reads the typed fields', () => {
+      expect(
+        parseQueryRequest(
+          { prompt: '  how many contacts ', mode: 'react', maxRows: 10, answer: false },
+          config,
+        ),
+      ).toMatchObject({ prompt: 'how many contacts', mode: 'react', maxRows: 10, answer: false });
+    });
+
+    it('lists every invalid field at once', () => {
+      expect(
+        failedFields(() =>
+          parseQueryRequest({ prompt: '', mode: 'fast', maxRows: 0, pageSize: 'ten' }, config),
+        ),
+      ).toEqual(['prompt', 'mode', 'maxRows', 'pageSize']);
+      expect(failedFields(() => parseQueryRequest([], config))).toEqual(['body', 'prompt']);
+    });
+
+    it('rejects settings the server does not let requests override', () => {
+      expect(
+        failedFields(() => parseQueryRequest({ prompt: 'contacts', model: 'gpt-4o' }, config)),
+      ).toEqual(['model']);
+    });
+
+    it('rejects clarification answers that are not question and answer strings', () => {
+      expect(
+        failedFields(() =>
+          parseQueryRequest(
+            {
+              prompt: 'show me the recent ones',
+              clarifications: [{ question: 'Which?', answer: 'Contacts' }, { question: 'Which?' }],
+            },
+            config,
+          ),
+        ),
+      ).toEqual(['clarifications.1']);
+    });
+  });
+
+  it('requires a rating or a correction in feedback, and SQL as strings', () => {
+    expect(
+      failedFields(() =>
+        parseFeedbackRequest(
+          { prompt: 'how many contacts', rating: 'meh', sql: 42, correctedSql: ['SELECT 1'] },
+          config,
+        ),
+      ),
+    ).toEqual(['sql', 'rating', 'correctedSql']);
+    expect(failedFields(() => parseFeedbackRequest({ prompt: 'contacts' }, config))).toEqual([
+      'rating',
+    ]);
+  });
+
+  it('checks the name and limits of a new API key', () => {
+    expect(
+      failedFields(() => parseIssueApiKeyRequest({ role: 'analyst', requestsPerMinute: -1 })),
+    ).toEqual(['name', 'requestsPerMinute']);
+  });
+
+  describe('saved queries', () => {
+    const query = {
+      name: 'recent-cases',
+      sql: 'SELECT id FROM cases WHERE created_at > $1',
+      parameters: [{ name: 'since', type: 'date' }],
+    };
+
+    it('checks each declared parameter', () => {
+      expect(
+        failedFields(() =>
+          parseSaveQueryRequest(
+            {
+              ...query,
+              parameters: [
+                { name: 'since', type: 'day' },
+                { type: 'text' },
+                { name: 'limit', type: 'integer', default: [10] },
+                { name: 'topic', type: 'text' },
+                { name: 'topic', type: 'text' },
+              ],
+            },
+            config,
+          ),
+        ),
+      ).toEqual([
+        'parameters.0.type',
+        'parameters.1.name',
+        'parameters.2.default',
+        'parameters.4.name',
+      ]);
+    });
+
+    it('requires the name and SQL only when creating', () => {
+      expect(failedFields(() => parseSaveQueryRequest({}, config))).toEqual(['name', 'sql']);
+      expect(parseSavedQueryUpdate({ description: 'Cases since a date' }, config)).toEqual({
+        description: 'Cases since a date',
+      });
+    });
+  });
+});
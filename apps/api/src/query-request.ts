@@ -0,0 +1,213 @@
+import { BodyValidator } from './validation';
+import { AppConfigService } from './config';
+import {
+  ClarificationAnswer,
+  ExplainRequest,
+  ExportFormat,
+  FeedbackRating,
+  FeedbackRequest,
+  IssueApiKeyRequest,
+  MatchRequest,
+  PageRequest,
+  QueryMode,
+  QueryOverride,
+  QueryRequest,
+  SaveQueryRequest,
+  SavedQueryParam,
+  SavedQueryParamType,
+} from './types';
+
+const QUERY_MODES: QueryMode[] = ['direct', 'react'];
+const RATINGS: FeedbackRating[] = ['up', 'down'];
+const MAX_TOP_K = 50;
+// Far more rounds than CLARIFICATION_MAX_ROUNDS allows; keeps the prompt bounded
+const MAX_CLARIFICATIONS = 10;
+const MAX_SQL_LENGTH = 100000;
+const MAX_NAME_LENGTH = 200;
+const PARAM_TYPES: SavedQueryParamType[] = [
+  'text',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'timestamp',
+];
+
+// Settings missing from QUERY_OVERRIDES are rejected instead of read
+function override<T>(
+  body: BodyValidator,
+  config: AppConfigService,
+  field: QueryOverride,
+  read: () => T,
+): T | undefined {
+  if (config.get('query', { infer: true }).overrides.includes(field)) return read();
+  return body.has(field) ? body.fail(field, 'cannot be overridden on this server') : undefined;
+}
+
+// Limits are checked here for shape only; resolveQueryLimits caps them at the configured ones
+function readLimits(body: BodyValidator, config: AppConfigService) {
+  return {
+    timeoutMs: override(body, config, 'timeoutMs', () => body.integer('timeoutMs', { min: 1 })),
+    maxRows: override(body, config, 'maxRows', () => body.integer('maxRows', { min: 1 })),
+  };
+}
+
+export function parseQueryRequest(input: unknown, config: AppConfigService): QueryRequest {
+  const body = new BodyValidator(input);
+  const llm = config.get('llm', { infer: true });
+  const react = config.get('react', { infer: true });
+  const maxLength = config.get('query', { infer: true }).promptMaxLength;
+  const request: QueryRequest = {
+    prompt: body.string('prompt', { required: true, maxLength }),
+    mode: body.oneOf('mode', QUERY_MODES),
+    sessionId: body.string('sessionId'),
+    ...readLimits(body, config),
+    pageSize: body.integer('pageSize', { min: 1 }),
+    // Aliases such as md and excel are resolved by negotiateFormat
+    format: body.string('format') as ExportFormat,
+    answer: override(body, config, 'answer', () => body.boolean('answer')),
+    datasource: body.string('datasource'),
+    clarifications: body.list(
+      'clarifications',
+      (item, path): ClarificationAnswer | undefined => {
+        const valid =
+          typeof item?.question === 'string' &&
+          typeof item?.answer === 'string' &&
+          item.answer.trim() &&
+          item.question.length + item.answer.length <= maxLength;
+        return valid
+          ? { question: item.question.trim(), answer: item.answer.trim() }
+          : body.fail(
+              path,
+              `must be { question, answer } strings of at most ${maxLength} characters`,
+            );
+      },
+      { maxItems: MAX_CLARIFICATIONS },
+    ),
+    explain: body.boolean('explain'),
+    model: override(body, config, 'model', () => body.oneOf('model', llm.allowedModels)),
+    maxIterations: override(body, config, 'maxIterations', () =>
+      body.integer('maxIterations', { min: 1, max: react.maxIterations }),
+    ),
+  };
+  body.done();
+  return request;
+}
+
+export function parsePageRequest(input: unknown, config: AppConfigService): PageRequest {
+  const body = new BodyValidator(input);
+  const request: PageRequest = {
+    pageToken: body.string('pageToken', { required: true }),
+    ...readLimits(body, config),
+  };
+  body.done();
+  return request;
+}
+
+export function parseExplainRequest(input: unknown): ExplainRequest {
+  const body = new BodyValidator(input);
+  const request: ExplainRequest = {
+    sql: body.string('sql', { required: true, maxLength: MAX_SQL_LENGTH }),
+    datasource: body.string('datasource'),
+  };
+  body.done();
+  return request;
+}
+
+export function parseMatchRequest(input: unknown, config: AppConfigService): MatchRequest {
+  const body = new BodyValidator(input);
+  const maxLength = config.get('query', { infer: true }).promptMaxLength;
+  const request: MatchRequest = {
+    table: body.string('table', { required: true, maxLength }),
+    topK: body.integer('topK', { min: 1, max: MAX_TOP_K }),
+  };
+  body.done();
+  return request;
+}
+
+export function parseFeedbackRequest(input: unknown, config: AppConfigService): FeedbackRequest {
+  const body = new BodyValidator(input);
+  const maxLength = config.get('query', { infer: true }).promptMaxLength;
+  const request: FeedbackRequest = {
+    prompt: body.string('prompt', { required: true, maxLength }),
+    sql: body.string('sql', { maxLength: MAX_SQL_LENGTH }),
+    rating: body.oneOf('rating', RATINGS),
+    correctedSql: body.string('correctedSql', { maxLength: MAX_SQL_LENGTH }),
+    comment: body.string('comment', { maxLength }),
+    datasource: body.string('datasource'),
+  };
+  if (!body.has('rating') && !request.correctedSql) {
+    body.fail('rating', 'is required without a correctedSql');
+  }
+  body.done();
+  return request;
+}
+
+// Whether the role exists is checked by ApiKeyService against the loaded policies
+export function parseIssueApiKeyRequest(input: unknown): IssueApiKeyRequest {
+  const body = new BodyValidator(input);
+  const request: IssueApiKeyRequest = {
+    name: body.string('name', { required: true, maxLength: MAX_NAME_LENGTH }),
+    role: body.string('role', { maxLength: MAX_NAME_LENGTH }),
+    requestsPerMinute: body.integer('requestsPerMinute', { min: 0 }),
+    dailyTokenBudget: body.integer('dailyTokenBudget', { min: 0 }),
+  };
+  body.done();
+  return request;
+}
+
+export function parseSaveQueryRequest(input: unknown, config: AppConfigService): SaveQueryRequest {
+  return readSavedQuery(input, config, true) as SaveQueryRequest;
+}
+
+// Only the fields in the body, so the others keep their saved value
+export function parseSavedQueryUpdate(
+  input: unknown,
+  config: AppConfigService,
+): Partial<SaveQueryRequest> {
+  return readSavedQuery(input, config, false);
+}
+
+// Shape only; SavedQueryService checks defaults against their types and the SQL's placeholders
+function readSavedQuery(
+  input: unknown,
+  config: AppConfigService,
+  required: boolean,
+): Partial<SaveQueryRequest> {
+  const body = new BodyValidator(input);
+  const maxLength = config.get('query', { infer: true }).promptMaxLength;
+  const request: Partial<SaveQueryRequest> = {
+    name: body.string('name', { required, maxLength: MAX_NAME_LENGTH }),
+    description: body.string('description', { maxLength }),
+    sql: body.string('sql', { required, maxLength: MAX_SQL_LENGTH }),
+    datasource: body.string('datasource'),
+    parameters: body.list('parameters', (item, path) => readParam(body, item, path)),
+    prompt: body.string('prompt', { maxLength }),
+  };
+  const names = (request.parameters || []).map((param) => param?.name);
+  names.forEach((name, index) => {
+    if (name && names.indexOf(name) !== index) {
+      body.fail(`parameters.${index}.name`, 'is declared twice');
+    }
+  });
+  body.done();
+  return Object.fromEntries(
+    Object.entries(request).filter(([, value]) => value !== undefined),
+  ) as Partial<SaveQueryRequest>;
+}
+
+function readParam(body: BodyValidator, item: any, path: string): SavedQueryParam | undefined {
+  const name = typeof item?.name === 'string' ? item.name.trim() : '';
+  if (!name) return body.fail(`${path}.name`, 'is required');
+  if (!PARAM_TYPES.includes(item.type)) {
+    return body.fail(`${path}.type`, `must be one of ${PARAM_TYPES.join(', ')}`);
+  }
+  if (item.description !== undefined && typeof item.description !== 'string') {
+    return body.fail(`${path}.description`, 'must be a string');
+  }
+  const fallback = item.default ?? undefined;
+  if (fallback !== undefined && !['string', 'number', 'boolean'].includes(typeof fallback)) {
+    return body.fail(`${path}.default`, 'must be a string, number or boolean');
+  }
+  return { name, type: item.type, description: item.description || undefined, default: fallback };
+}
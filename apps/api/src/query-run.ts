@@ -0,0 +1,40 @@
+import { QueryLimits } from './types';
+import { AppConfig } from './config';
+
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query cancelled by client');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+// Called between steps so a cancelled run makes no further LLM calls or SQL
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new QueryCancelledError();
+  }
+}
+
+/**
+ * Limits for generated SQL from SQL_STATEMENT_TIMEOUT_MS, SQL_MAX_ROWS (or
+ * SQL_EXPORT_MAX_ROWS for file exports), SQL_MAX_PLAN_COST and
+ * SQL_MAX_PLAN_ROWS. A request may lower the timeout and row cap but never
+ * raise them.
+ */
+export function resolveQueryLimits(
+  sql: AppConfig['sql'],
+  request: { timeoutMs?: number; maxRows?: number } = {},
+  kind: 'query' | 'export' = 'query',
+): QueryLimits {
+  return {
+    timeoutMs: tighten(sql.statementTimeoutMs, request.timeoutMs),
+    maxRows: tighten(kind === 'export' ? sql.exportMaxRows : sql.maxRows, request.maxRows),
+    maxPlanCost: sql.maxPlanCost,
+    maxPlanRows: sql.maxPlanRows,
+  };
+}
+
+function tighten(configured: number, requested?: number): number {
+  if (!requested || !Number.isFinite(requested) || requested <= 0) return configured;
+  return Math.min(configured, Math.floor(requested));
+}
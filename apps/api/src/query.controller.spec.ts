@@ -0,0 +1,105 @@
+import { FixtureApp, startFixtureApp } from '../test/fixture-app';
+
+// Replays fixtures/llm.json against the SQLite sample database, no network needed
+describe('QueryController (fixture LLM)', () => {
+  const admin = { Authorization: 'Bearer admin-secret' };
+  let api: FixtureApp;
+  let key: { id: string; secret: string };
+  let auth: Record<string, string>;
+
+  beforeAll(async () => {
+    // The controller prints every run to the console
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    api = await startFixtureApp({ API_KEYS_ENABLED: 'true', ADMIN_API_KEY: 'admin-secret' });
+    key = await (await api.post('/api/admin/keys', { name: 'spec' }, admin)).json();
+    auth = { 'X-API-Key': key.secret };
+  }, 60000);
+
+  afterAll(() => api?.close());
+
+  it('answers a question in direct mode', async () => {
+    const response = await api.post('/api/query', { prompt: 'how many cases mention help' }, auth);
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.sql).toBe("SELECT COUNT(*) FROM cases WHERE topic LIKE '%help%'");
+    expect(body.rows).toEqual([{ 'COUNT(*)': 4 }]);
+    expect(body.attempts).toHaveLength(1);
+    expect(body.answer).toBe('4 cases mention help.');
+  });
+
+  it('answers a question in ReAct mode through the sql-query tool', async () => {
+    const response = await api.post(
+      '/api/query',
+      { prompt: 'how many contacts', mode: 'react' },
+      auth,
+    );
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.success).toBe(true);
+    expect(body.sql).toEqual(['SELECT COUNT(*) FROM contacts']);
+    expect(body.rows).toEqual([{ 'COUNT(*)': 132 }]);
+    expect(body.iterations).toBe(2);
+    expect(body.answer).toBe('There are 132 contacts.');
+  });
+
+  it('fails a ReAct run whose every SQL query failed instead of answering', async () => {
+    // The fixture agent uses ILIKE, which the SQLite guard does not parse
+    const response = await api.post(
+      '/api/query',
+      { prompt: 'how many cases mention help', mode: 'react' },
+      auth,
+    );
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.success).toBe(false);
+    expect(body.error).toMatch(/^Guard: /);
+    expect(body.rows).toEqual([]);
+    expect(body.answer).toBeUndefined();
+  });
+
+  it('leaves out the answer when the request turns it off', async () => {
+    const response = await api.post(
+      '/api/query',
+      {
+        prompt: 'how many cases mention help',
+        answer: false,
+      },
+      auth,
+    );
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).answer).toBeUndefined();
+  });
+
+  it('rejects an invalid body with every field error', async () => {
+    const response = await api.post('/api/query', { prompt: '', mode: 'fast', maxRows: 0 }, auth);
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe('VALIDATION_FAILED');
+    expect(body.errors.map((error: { field: string }) => error.field).sort()).toEqual([
+      'maxRows',
+      'mode',
+      'prompt',
+    ]);
+  });
+
+  it('records a streamed run in the history under the calling key', async () => {
+    const response = await api.post(
+      '/api/query/stream',
+      { prompt: 'how many cases mention help' },
+      auth,
+    );
+
+    expect(response.status).toBe(200);
+    const events = await response.text();
+    expect(events).toContain('event: done');
+    const entries = await (await api.get('/api/admin/history?kind=stream', admin)).json();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].caller).toEqual({ keyId: key.id, keyName: 'spec' });
+    expect(entries[0].outcome).toBe('success');
+  });
+});
@@ -1,50 +1,498 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Headers,
+  Logger,
+  Post,
+  Query,
+  Res,
+  StreamableFile,
+  UnprocessableEntityException,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Response } from 'express';
+import { PassThrough } from 'stream';
 import { Nl2SqlService } from './nl2sql.service';
 import { DbService } from './db.service';
 import { TableEmbeddingsService } from './table-embeddings.service';
-import { QueryMode, ReactQueryResult, Nl2SqlResult } from './types';
+import { SessionService } from './session.service';
+import { PaginationService } from './pagination.service';
+import { AnswerSynthesisService } from './answer-synthesis.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { ApiKeyGuard, ApiKeyUsageInterceptor, Caller } from './api-key.guard';
+import { QueryHistoryService } from './query-history.service';
+import { QueryCancelledError, resolveQueryLimits, throwIfCancelled } from './query-run';
+import { SqlExplainService } from './sql-explain.service';
+import { PolicyService } from './policy.service';
+import { ClarificationNeededError } from './clarification';
+import { toErrorBody } from './errors';
+import { ValidBody } from './validation';
+import {
+  parseExplainRequest,
+  parseMatchRequest,
+  parsePageRequest,
+  parseQueryRequest,
+} from './query-request';
+import {
+  createResultWriter,
+  exportContentType,
+  exportFileName,
+  negotiateFormat,
+} from './result-export';
+import {
+  ClarificationResult,
+  DirectQueryResult,
+  ExplainRequest,
+  ExportFormat,
+  MatchRequest,
+  Nl2SqlResult,
+  PageInfo,
+  PageRequest,
+  PlanEstimate,
+  QueryCaller,
+  QueryRequest,
+  QueryRunOptions,
+  QueryStreamEvent,
+  ReactQueryResult,
+  SessionTurn,
+  SqlExplanation,
+} from './types';
+import { AppConfig } from './config';
 
 @Controller('api/query')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
 export class QueryController {
+  private readonly logger = new Logger(QueryController.name);
+
   constructor(
     private readonly nl2sql: Nl2SqlService,
     private readonly db: DbService,
     private readonly tableEmbeddings: TableEmbeddingsService,
+    private readonly sessions: SessionService,
+    private readonly pagination: PaginationService,
+    private readonly answers: AnswerSynthesisService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly history: QueryHistoryService,
+    private readonly explainer: SqlExplainService,
+    private readonly policies: PolicyService,
+    private readonly config: ConfigService<AppConfig, true>,
   ) {}
 
+  /**
+   * JSON by default. With `format` (query string or body) or an Accept header
+   * for CSV, NDJSON, Markdown or XLSX, the result is streamed as a file
+   * straight from a server-side cursor.
+   */
   @Post()
-  async handle(@Body() body: { prompt: string; mode?: QueryMode }) {
-    const { prompt, mode = 'direct' } = body;
+  async handle(
+    @Body(ValidBody(parseQueryRequest)) body: QueryRequest,
+    @Caller() caller: QueryCaller,
+    @Query('format') format?: string,
+    @Headers('accept') accept?: string,
+  ) {
+    const exportFormat = negotiateFormat(format || body.format, accept);
+    if (exportFormat !== 'json') {
+      return await this.exportQuery(body, exportFormat, caller);
+    }
+    return await this.history.track('query', body, caller, () =>
+      this.runQuery(body, caller, { role: caller.role }),
+    );
+  }
+
+  /**
+   * Same as POST /api/query, but streams tokens, ReAct steps and rows as
+   * Server-Sent Events. Closing the connection cancels the run.
+   */
+  @Post('stream')
+  async stream(
+    @Body(ValidBody(parseQueryRequest)) body: QueryRequest,
+    @Res() res: Response,
+    @Caller() caller: QueryCaller,
+  ) {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abort.abort();
+    });
+    const send = (event: QueryStreamEvent) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+
+    try {
+      send({ type: 'start', mode: body.mode || 'direct' });
+      const result = await this.history.track('stream', body, caller, () =>
+        this.runQuery(body, caller, {
+          onEvent: send,
+          signal: abort.signal,
+          role: caller.role,
+        }),
+      );
+      send({
+        type: 'done',
+        success: 'success' in result ? result.success : true,
+        iterations: 'iterations' in result ? result.iterations : undefined,
+        error: 'error' in result ? result.error : undefined,
+      });
+    } catch (error) {
+      if (abort.signal.aborted) {
+        this.logger.log(`Stream cancelled by the client: ${body.prompt}`);
+      } else {
+        const { message, code } = toErrorBody(error);
+        send({ type: 'error', message, code });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Next page of an earlier result. The token carries the SQL, so this
+   * re-runs it at the next offset without calling the LLM.
+   */
+  @Post('page')
+  async page(@Body(ValidBody(parsePageRequest)) body: PageRequest, @Caller() caller: QueryCaller) {
+    const { datasource, sql, rows, truncated, rowLimit, page } = await this.history.track(
+      'page',
+      {},
+      caller,
+      () =>
+        this.pagination.nextPage(
+          body.pageToken,
+          resolveQueryLimits(this.config.get('sql', { infer: true }), body),
+          caller.role,
+        ),
+    );
+
+    // Required behavior: print to Node console
+    console.log('\n--- NL→SQL Page ---');
+    console.log('Datasource:', datasource);
+    console.log('SQL:', sql);
+    console.log('Offset:', page.offset);
+    console.log('Rows:', rows.length, `of ~${page.totalRows ?? '?'}`);
+    console.table(rows.slice(0, 10));
+
+    return { sql, rows, truncated, rowLimit, page };
+  }
 
+  /**
+   * Explains any SQL, generated or pasted in, without running it: steps in
+   * plain English, the tables, columns, joins and filters, and risk flags.
+   */
+  @Post('explain')
+  async explain(
+    @Body(ValidBody(parseExplainRequest)) body: ExplainRequest,
+    @Caller() caller: QueryCaller,
+  ) {
+    const explanation = await this.explainer.explain(body.sql, {
+      datasource: body.datasource,
+      role: caller.role,
+    });
+
+    // Required behavior: print to Node console
+    console.log('\n--- SQL Explanation ---');
+    console.log('SQL:', explanation.sql);
+    this.logExplanation(explanation);
+    return explanation;
+  }
+
+  private async exportQuery(
+    body: QueryRequest,
+    format: ExportFormat,
+    caller: QueryCaller,
+  ): Promise<StreamableFile> {
+    const { prompt, mode = 'direct', sessionId, model, maxIterations, clarifications } = body;
+    const { role } = caller;
+    const limits = resolveQueryLimits(this.config.get('sql', { infer: true }), body, 'export');
+    // Recorded when the file is complete, or when generating or streaming it fails
+    const draft = this.history.begin('export', body, caller);
+
+    // Generate and validate before the response starts, so failures are still HTTP errors
+    let sql: string;
+    let datasource: string;
+    let estimate: PlanEstimate;
+    try {
+      ({ sql, datasource, estimate } = await draft.measure(async () => {
+        const datasource = this.datasources.get(body.datasource).name;
+        const history = sessionId ? await this.sessions.getHistory(sessionId, caller) : [];
+        let sql: string;
+        if (mode === 'react') {
+          const result = await this.nl2sql.process(prompt, 'react', history, {
+            limits,
+            datasource,
+            role,
+            clarifications,
+            model,
+            maxIterations,
+          });
+          sql = typeof result.sql === 'string' ? result.sql : result.sql[result.sql.length - 1];
+          if (!sql) {
+            throw new UnprocessableEntityException(
+              'The ReAct agent did not produce any SQL to export',
+            );
+          }
+        } else {
+          ({ sql } = await this.nl2sql.prepareDirect(prompt, history, {
+            limits,
+            datasource,
+            role,
+            clarifications,
+            model,
+          }));
+        }
+        const estimate = await this.db.checkCost(sql, limits, { datasource, role });
+        return { sql, datasource, estimate };
+      }));
+    } catch (error) {
+      await this.history.finish(draft, { error });
+      throw error;
+    }
+
+    const out = new PassThrough();
+    const writer = createResultWriter(format, out);
+    let columns: string[] = [];
+    this.db
+      .streamGenerated(
+        sql,
+        limits,
+        async (rows, resultColumns) => {
+          // The client went away; stop reading from the cursor
+          if (out.destroyed) return false;
+          columns = resultColumns.map((column) => column.name);
+          await writer.write(rows, resultColumns);
+        },
+        { estimate, datasource, role },
+      )
+      .then(async (result) => {
+        await writer.end(result);
+
+        // Required behavior: print to Node console
+        console.log(`\n--- NL→SQL Export (${format}) ---`);
+        console.log('Prompt:', prompt);
+        console.log('SQL:', sql);
+        console.log('Rows:', result.rowCount);
+        if (result.truncated) {
+          console.log('Truncated at:', result.rowLimit);
+        }
+
+        await this.history.finish(draft, {
+          result: { sql, datasource, rowCount: result.rowCount },
+        });
+        if (sessionId) {
+          await this.sessions.recordTurn(sessionId, prompt, mode, [sql], {
+            columns,
+            rowCount: result.rowCount,
+          });
+        }
+      })
+      .catch(async (error) => {
+        this.logger.error(`Export failed: ${error.message}`);
+        out.destroy(error);
+        await this.history.finish(draft, { error });
+      });
+
+    return new StreamableFile(out, {
+      type: exportContentType(format),
+      disposition: `attachment; filename="${exportFileName(format)}"`,
+    });
+  }
+
+  private async runQuery(body: QueryRequest, caller: QueryCaller, run: QueryRunOptions = {}) {
+    const { sessionId } = body;
+    run = {
+      ...run,
+      limits: resolveQueryLimits(this.config.get('sql', { infer: true }), body),
+      pageSize: body.pageSize,
+      datasource: this.datasources.get(body.datasource).name,
+      clarifications: body.clarifications,
+      model: body.model,
+      maxIterations: body.maxIterations,
+    };
+    const history = sessionId ? await this.sessions.getHistory(sessionId, caller) : [];
+
+    try {
+      return await this.runMode(body, history, run);
+    } catch (error) {
+      if (!(error instanceof ClarificationNeededError)) throw error;
+      return this.askClarification(body, error, run);
+    }
+  }
+
+  private async runMode(body: QueryRequest, history: SessionTurn[], run: QueryRunOptions) {
+    const { prompt, mode = 'direct', sessionId } = body;
     if (mode === 'react') {
-      return await this.handleReactQuery(prompt);
+      const result = await this.handleReactQuery(prompt, history, run);
+      if (this.answers.isEnabled(body.answer) && result.success !== false) {
+        result.answer = await this.answer(prompt, result.sql, result, run);
+      }
+      if (body.explain) {
+        result.explanation = await this.explanation(result.sql[result.sql.length - 1], run);
+      }
+      if (sessionId) {
+        await this.sessions.recordTurn(sessionId, prompt, mode, result.sql, result.rows || []);
+      }
+      return sessionId ? { ...result, sessionId } : result;
     } else {
-      return await this.handleDirectQuery(prompt);
+      const result = await this.handleDirectQuery(prompt, history, run);
+      if (this.answers.isEnabled(body.answer)) {
+        result.answer = await this.answer(prompt, [result.sql], result, run);
+      }
+      if (body.explain) {
+        result.explanation = await this.explanation(result.sql, run);
+      }
+      if (sessionId) {
+        await this.sessions.recordTurn(sessionId, prompt, mode, [result.sql], result.rows);
+      }
+      return sessionId ? { ...result, sessionId } : result;
+    }
+  }
+
+  // Nothing ran; the client answers and sends the prompt again with `clarifications`
+  private askClarification(
+    body: QueryRequest,
+    error: ClarificationNeededError,
+    run: QueryRunOptions,
+  ): ClarificationResult {
+    const { clarification } = error;
+    run.onEvent?.({ type: 'clarification', clarification });
+
+    // Required behavior: print to Node console
+    console.log('\n--- NL→SQL Clarification ---');
+    console.log('Prompt:', body.prompt);
+    console.log('Question:', clarification.question);
+    if (clarification.options.length > 0) {
+      console.log('Options:', clarification.options.join(' | '));
+    }
+
+    const result: ClarificationResult = {
+      prompt: body.prompt,
+      clarification,
+      clarifications: run.clarifications || [],
+    };
+    return body.sessionId ? { ...result, sessionId: body.sessionId } : result;
+  }
+
+  private async answer(
+    prompt: string,
+    sql: string[],
+    result: { rows?: any[]; truncated?: boolean; page?: PageInfo },
+    run: QueryRunOptions,
+  ): Promise<string> {
+    throwIfCancelled(run.signal);
+    const answer = await this.answers.synthesize(
+      { prompt, sql, rows: result.rows || [], truncated: result.truncated, page: result.page },
+      { signal: run.signal, model: run.model },
+    );
+    run.onEvent?.({ type: 'answer', text: answer });
+
+    // Required behavior: print to Node console
+    console.log('Answer:', answer);
+    return answer;
+  }
+
+  // A failed explanation leaves it out; the rows are already there
+  private async explanation(
+    sql: string | undefined,
+    run: QueryRunOptions,
+  ): Promise<SqlExplanation | undefined> {
+    if (!sql) return undefined;
+    throwIfCancelled(run.signal);
+    try {
+      const explanation = await this.explainer.explain(sql, {
+        datasource: run.datasource,
+        role: run.role,
+        signal: run.signal,
+        model: run.model,
+      });
+      run.onEvent?.({ type: 'explanation', explanation });
+      this.logExplanation(explanation);
+      return explanation;
+    } catch (error) {
+      if (error instanceof QueryCancelledError) throw error;
+      this.logger.warn(`Failed to explain the SQL: ${error.message}`);
+      return undefined;
     }
   }
 
-  private async handleDirectQuery(prompt: string) {
-    const { sql } = await this.nl2sql.translate(prompt);
-    const rows = await this.db.execSelect(sql);
+  private logExplanation(explanation: SqlExplanation): void {
+    console.log('Explanation:');
+    explanation.steps.forEach((step, index) => console.log(`  ${index + 1}. ${step}`));
+    console.log('Tables:', explanation.lineage.tables.map((table) => table.name).join(', '));
+    if (explanation.risks.length > 0) {
+      console.log(
+        'Risks:',
+        explanation.risks.map((risk) => risk.message),
+      );
+    }
+  }
+
+  private async handleDirectQuery(
+    prompt: string,
+    history: SessionTurn[],
+    run: QueryRunOptions,
+  ): Promise<DirectQueryResult> {
+    const { sql, rows, truncated, rowLimit, page, linkedTables, examples, attempts } =
+      await this.nl2sql.runDirect(prompt, history, run);
+    run.onEvent?.({ type: 'rows', rowCount: rows.length, rows });
 
     // Required behavior: print to Node console
     console.log('\n--- NL→SQL (Direct) ---');
     console.log('Prompt:', prompt);
+    if (history.length > 0) {
+      console.log('History turns:', history.length);
+    }
     console.log('SQL:', sql);
+    if (attempts.length > 1) {
+      console.log(
+        'Repaired after:',
+        attempts
+          .filter((attempt) => attempt.error)
+          .map((attempt) => `${attempt.errorType} (${attempt.stage})`),
+      );
+    }
     console.log('Rows:', rows.length);
+    if (truncated) {
+      console.log('Page:', `${rowLimit} rows of ~${page.totalRows ?? '?'}`);
+    }
+    if (linkedTables) {
+      console.log('Linked tables:', linkedTables.map((link) => link.tableName).join(', '));
+    }
+    if (examples) {
+      console.log(
+        'Examples:',
+        examples.map((example) => example.prompt),
+      );
+    }
     console.table(rows);
 
-    return { sql, rows };
+    return { sql, rows, truncated, rowLimit, page, linkedTables, examples, attempts };
   }
 
-  private async handleReactQuery(prompt: string) {
-    const result = await this.nl2sql.process(prompt, 'react');
+  private async handleReactQuery(prompt: string, history: SessionTurn[], run: QueryRunOptions) {
+    const result = await this.nl2sql.process(prompt, 'react', history, run);
 
     // Check if this is a direct mode fallback (Nl2SqlResult instead of ReactQueryResult)
     if ('sql' in result && typeof result.sql === 'string') {
       // This is a fallback to direct mode - convert to ReactQueryResult format
       const directResult = result as Nl2SqlResult;
-      const rows = await this.db.execSelect(directResult.sql);
+      run.onEvent?.({ type: 'sql', sql: directResult.sql });
+      throwIfCancelled(run.signal);
+      const { rows, truncated, rowLimit, page } = await this.pagination.firstPage(
+        directResult.sql,
+        run.limits,
+        { pageSize: run.pageSize, datasource: run.datasource, role: run.role },
+      );
+      run.onEvent?.({ type: 'rows', rowCount: rows.length, rows });
 
       const reactResult: ReactQueryResult = {
         sql: [directResult.sql],
@@ -53,6 +501,11 @@ export class QueryController {
         rows: rows,
         iterations: 1,
         success: true,
+        linkedTables: directResult.linkedTables,
+        examples: directResult.examples,
+        truncated,
+        rowLimit,
+        page,
       };
 
       // Enhanced console logging for ReAct mode (fallback)
@@ -81,13 +534,24 @@ export class QueryController {
       reactResult.sql?.length > 0 &&
       (!reactResult.rows || reactResult.rows.length === 0)
     ) {
+      throwIfCancelled(run.signal);
       try {
         const finalSql = reactResult.sql[reactResult.sql.length - 1];
-        reactResult.rows = await this.db.execSelect(finalSql);
+        const { rows, truncated, rowLimit, page } = await this.pagination.firstPage(
+          finalSql,
+          run.limits,
+          { pageSize: run.pageSize, datasource: run.datasource, role: run.role },
+        );
+        Object.assign(reactResult, { rows, truncated, rowLimit, page });
       } catch (error) {
         console.warn('Failed to execute final SQL from ReAct agent:', error.message);
       }
     }
+    run.onEvent?.({
+      type: 'rows',
+      rowCount: reactResult.rows?.length || 0,
+      rows: reactResult.rows || [],
+    });
 
     // Enhanced console logging for ReAct mode
     console.log('\n--- NL→SQL (ReAct) ---');
@@ -106,47 +570,36 @@ export class QueryController {
     return reactResult;
   }
 
+  // Table embeddings cover the default datasource; tables the role may not read are left out
   @Post('match')
-  async match(@Body() body: { table: string; topK?: number }) {
+  async match(
+    @Body(ValidBody(parseMatchRequest)) body: MatchRequest,
+    @Caller() caller: QueryCaller,
+  ) {
     const { table, topK = 5 } = body;
-    
-    try {
-      const matches = await this.tableEmbeddings.findBestTableMatch(table, topK);
-      
-      console.log('\n--- Table Vector Search ---');
-      console.log('Query:', table);
-      console.log('Matches found:', matches.length);
-      console.table(matches.map(m => ({
+    const visible = await this.policies.visibleSelection(caller.role);
+    const matches = (await this.tableEmbeddings.findBestTableMatch(table, topK)).filter(
+      (match) => !visible || visible.has(String(match.metadata.tableName)),
+    );
+
+    console.log('\n--- Table Vector Search ---');
+    console.log('Query:', table);
+    console.log('Matches found:', matches.length);
+    console.table(
+      matches.map((m) => ({
         table: m.metadata.tableName,
         score: m.score.toFixed(4),
-        description: m.metadata.description || 'No description'
-      })));
-
-      return { 
-        count: matches.length, 
-        results: matches.map(match => ({
-          tableName: match.metadata.tableName,
-          score: match.score,
-          description: match.metadata.description
-        }))
-      };
-    } catch (error) {
-      console.error('Error in table matching:', error.message);
-      return { 
-        count: 0, 
-        results: [],
-        error: error.message 
-      };
-    }
-  }
+        description: m.metadata.description || 'No description',
+      })),
+    );
 
-  @Post('init-embeddings')
-  async initEmbeddings() {
-    try {
-      await this.tableEmbeddings.initializeEmbeddings();
-      return { success: true, message: 'Embeddings initialized successfully' };
-    } catch (error) {
-      return { success: false, error: error.message };
-    }
+    return {
+      count: matches.length,
+      results: matches.map((match) => ({
+        tableName: match.metadata.tableName,
+        score: match.score,
+        description: match.metadata.description,
+      })),
+    };
   }
 }
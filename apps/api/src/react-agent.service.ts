@@ -1,60 +1,148 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
 import { DbService } from './db.service';
-import { ReactQueryResult } from './types';
+import { QueryRunOptions, ReactQueryResult, SessionTurn } from './types';
+import { SqlGuardError, SqlGuardService } from './sql-guard.service';
+import { SqlErrorAnalyzerService } from './sql-error-analyzer.service';
+import { SchemaLinkerService } from './schema-linker.service';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { PolicyService } from './policy.service';
+import { DIALECT_LABELS } from './datasource';
+import { formatConversationHistory } from './session-store';
+import { QueryCancelledError, resolveQueryLimits, throwIfCancelled } from './query-run';
+import { LLM_PROVIDER, LlmProvider, toAssistantMessage } from './llm.provider';
+import { AgentToolContext, AgentToolRegistry } from './agent-tools';
+import { FewShotService } from './few-shot.service';
+import {
+  ClarificationNeededError,
+  canClarify,
+  formatClarifications,
+  toClarification,
+} from './clarification';
+import { AppConfig } from './config';
+
+const CLARIFY_TOOL = 'ask-clarification';
 
 @Injectable()
 export class ReactAgentService {
   private readonly logger = new Logger(ReactAgentService.name);
-  private llm: ChatOpenAI | null = null;
 
-  constructor(private readonly dbService: DbService) {
-    this.initializeLLM();
+  constructor(
+    private readonly dbService: DbService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly errorAnalyzer: SqlErrorAnalyzerService,
+    private readonly schemaLinker: SchemaLinkerService,
+    private readonly schemaCatalog: SchemaCatalogService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly policies: PolicyService,
+    private readonly tools: AgentToolRegistry,
+    private readonly fewShot: FewShotService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {
+    this.registerTools();
   }
 
-  private initializeLLM(): void {
-    this.llm = new ChatOpenAI({
-      openAIApiKey: process.env.OPENAI_API_KEY!,
-      modelName: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      temperature: 0
+  private registerTools(): void {
+    this.tools.register({
+      name: 'sql-query',
+      description: 'Execute a single read-only SELECT query on the database and return the rows as JSON',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'The SELECT statement to run, in the dialect of the database' },
+        },
+        required: ['query'],
+      },
+      run: (args, context) => this.executeSqlQuery(args.query, context),
+    });
+    this.tools.register({
+      name: 'schema-inspector',
+      description: 'Inspect the database schema: list tables, describe a table or sample 3 of its rows',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: { type: 'string', enum: ['tables', 'describe', 'sample'] },
+          table: { type: 'string', description: 'Table name, required for describe and sample' },
+        },
+        required: ['command'],
+      },
+      run: (args, context) => this.inspectSchema(args.command, args.table, context),
+    });
+    this.tools.register({
+      name: 'error-analyzer',
+      description: 'Classify a failed SQL query error and get suggestions for fixing it',
+      parameters: {
+        type: 'object',
+        properties: {
+          error: { type: 'string', description: 'The error message returned by sql-query' },
+          query: { type: 'string', description: 'The query that failed' },
+        },
+        required: ['error'],
+      },
+      run: (args, context) => this.analyzeError(args.error, args.query, context.datasource),
+    });
+    this.tools.register({
+      name: CLARIFY_TOOL,
+      description:
+        'Ask the user instead of guessing when the question is ambiguous: it could mean more than one table, needs a time range it does not give, or several columns could answer it. Ends the run.',
+      parameters: {
+        type: 'object',
+        properties: {
+          question: { type: 'string', description: 'The question to ask the user' },
+          reason: { type: 'string', enum: ['entity', 'time_range', 'column'] },
+          options: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '2 to 5 specific choices, such as table or column names or time ranges',
+          },
+        },
+        required: ['question', 'reason', 'options'],
+      },
+      run: async (args, context) => {
+        const clarification = toClarification(args);
+        if (!context.clarify || !clarification) {
+          return JSON.stringify({
+            error: 'Clarification is not available here; make a reasonable assumption and state it',
+          });
+        }
+        throw new ClarificationNeededError(clarification);
+      },
     });
-    this.logger.log('ReAct LLM initialized');
-  }
-
-  private async executeAction(action: string, input: string): Promise<string> {
-    switch (action.toLowerCase()) {
-      case 'sql-query':
-        return await this.executeSqlQuery(input);
-      case 'schema-inspector':
-        return await this.inspectSchema(input);
-      case 'error-analyzer':
-        return await this.analyzeError(input);
-      default:
-        return JSON.stringify({ error: `Unknown action: ${action}` });
-    }
   }
 
-  private async executeSqlQuery(query: string): Promise<string> {
+  private async executeSqlQuery(query: string, context: AgentToolContext): Promise<string> {
     try {
       this.logger.log(`Executing SQL query: ${query}`);
       
-      if (!/^\s*select\s/i.test(query.trim())) {
-        return JSON.stringify({
-          error: 'Only SELECT queries are allowed',
-          query: query
-        });
-      }
+      // Read-only here even with ALLOW_WRITE_SQL
+      await this.sqlGuard.assertSafe(query, {
+        datasource: this.datasources.get(context.datasource),
+      });
 
-      const rows = await this.dbService.execSelect(query);
+      const { rows, truncated, rowLimit } = await this.dbService.execGenerated(
+        query,
+        context.limits,
+        { datasource: context.datasource, role: context.role },
+      );
       this.logger.log(`Query executed successfully, returned ${rows.length} rows`);
       
       return JSON.stringify({
         success: true,
         rowCount: rows.length,
-        data: rows
+        data: rows,
+        ...(truncated ? { truncated, rowLimit } : {})
       });
     } catch (error) {
+      if (error instanceof SqlGuardError) {
+        return JSON.stringify({
+          error: error.message,
+          rule: error.rejection.rule,
+          query: query
+        });
+      }
       this.logger.error(`SQL query failed: ${error.message}`);
       return JSON.stringify({
         error: error.message,
@@ -64,121 +152,100 @@ export class ReactAgentService {
     }
   }
 
-  private async inspectSchema(input: string): Promise<string> {
+  // Answers from the schema catalog, so it works the same for every datasource
+  private async inspectSchema(
+    command: string,
+    table: string | undefined,
+    context: AgentToolContext,
+  ): Promise<string> {
     try {
-      const command = input.trim().toLowerCase();
-      this.logger.log(`Inspecting schema: ${command}`);
+      const tableName = (table || '').trim().toLowerCase();
+      this.logger.log(`Inspecting schema: ${command} ${tableName}`.trim());
+      const visible = await this.policies.visibleSelection(context.role, context.datasource);
+      // Tables and columns the role may not read do not exist as far as the agent knows
+      const tables = (await this.schemaCatalog.getCatalog(context.datasource)).tables
+        .filter((item) => !visible || visible.has(item.name))
+        .map((item) => {
+          const readable = visible?.get(item.name);
+          return readable
+            ? { ...item, columns: item.columns.filter((column) => readable.includes(column.name)) }
+            : item;
+        });
 
       if (command === 'tables') {
-        const query = `
-          SELECT table_name, table_type
-          FROM information_schema.tables 
-          WHERE table_schema = 'public'
-          ORDER BY table_name
-        `;
-        const rows = await this.dbService.execSelect(query);
-        return JSON.stringify({ success: true, tables: rows });
-      } 
-      
-      else if (command.startsWith('describe ')) {
-        const tableName = command.replace('describe ', '').trim();
-        const query = `
-          SELECT column_name, data_type, is_nullable, column_default
-          FROM information_schema.columns
-          WHERE table_schema = 'public' AND table_name = $1
-          ORDER BY ordinal_position
-        `;
-        const rows = await this.dbService.execSelect(query, [tableName]);
-        if (rows.length === 0) {
-          return JSON.stringify({ error: `Table '${tableName}' not found`, tableName });
-        }
-        return JSON.stringify({ success: true, tableName, columns: rows });
+        return JSON.stringify({
+          success: true,
+          tables: tables.map((item) => ({
+            table_name: item.name,
+            table_type: item.type === 'view' ? 'VIEW' : 'BASE TABLE',
+          })),
+        });
       }
-      
-      else if (command.startsWith('sample ')) {
-        const tableName = command.replace('sample ', '').trim();
-        const checkQuery = `
-          SELECT table_name 
-          FROM information_schema.tables 
-          WHERE table_schema = 'public' AND table_name = $1
-        `;
-        const tableExists = await this.dbService.execSelect(checkQuery, [tableName]);
-        if (tableExists.length === 0) {
-          return JSON.stringify({ error: `Table '${tableName}' not found`, tableName });
-        }
-        
-        const query = `SELECT * FROM ${tableName} LIMIT 3`;
-        const rows = await this.dbService.execSelect(query);
-        return JSON.stringify({ success: true, tableName, sampleRows: rows, rowCount: rows.length });
+
+      const found = tables.find((item) => item.name.toLowerCase() === tableName);
+      if ((command === 'describe' || command === 'sample') && tableName && !found) {
+        return JSON.stringify({ error: `Table '${tableName}' not found`, tableName });
       }
-      
-      else {
+
+      if (command === 'describe' && found) {
         return JSON.stringify({
-          error: 'Invalid command. Use: tables, describe <table>, or sample <table>',
-          command: input
+          success: true,
+          tableName,
+          columns: found.columns.map((column) => ({
+            column_name: column.name,
+            data_type: column.dataType,
+            is_nullable: column.nullable ? 'YES' : 'NO',
+            column_default: column.defaultValue ?? null,
+          })),
         });
       }
+
+      if (command === 'sample' && found) {
+        // The name comes from the catalog, never from the model
+        const { rows } = await this.dbService.execGenerated(
+          `SELECT * FROM ${found.name} LIMIT 3`,
+          context.limits,
+          { datasource: context.datasource, role: context.role },
+        );
+        return JSON.stringify({ success: true, tableName, sampleRows: rows, rowCount: rows.length });
+      }
+
+      return JSON.stringify({
+        error: 'Invalid command. Use command "tables", or "describe" / "sample" with a table',
+        command,
+        table
+      });
     } catch (error) {
       this.logger.error(`Schema inspection failed: ${error.message}`);
-      return JSON.stringify({ error: error.message, command: input });
+      return JSON.stringify({ error: error.message, command, table });
     }
   }
 
-  private async analyzeError(errorInput: string): Promise<string> {
+  private async analyzeError(
+    errorInput: string,
+    query?: string,
+    datasource?: string,
+  ): Promise<string> {
     try {
       this.logger.log(`Analyzing error: ${errorInput.substring(0, 100)}...`);
       
       let errorMessage = errorInput;
-      let originalQuery = null;
+      let originalQuery = query;
       
       try {
+        // Models often pass the whole sql-query observation through
         const parsed = JSON.parse(errorInput);
         if (parsed.error) {
           errorMessage = parsed.error;
-          originalQuery = parsed.query;
+          originalQuery = originalQuery || parsed.query;
         }
       } catch {
         // Not JSON, treat as plain error message
       }
 
-      let errorType = 'UNKNOWN_ERROR';
-      const errorLower = errorMessage.toLowerCase();
-
-      if (errorLower.includes('syntax error')) {
-        errorType = 'SYNTAX_ERROR';
-      } else if (errorLower.includes('relation') && errorLower.includes('does not exist')) {
-        errorType = 'RELATION_NOT_FOUND';
-      } else if (errorLower.includes('column') && errorLower.includes('does not exist')) {
-        errorType = 'COLUMN_NOT_FOUND';
-      } else if (errorLower.includes('only select statements are allowed')) {
-        errorType = 'SAFETY_GUARD';
-      }
-
-      const suggestions = [];
-      switch (errorType) {
-        case 'SYNTAX_ERROR':
-          suggestions.push('Check SQL syntax for missing commas, parentheses, or quotes');
-          break;
-        case 'RELATION_NOT_FOUND':
-          suggestions.push('Check table name spelling - available tables: contacts, cases, recent_activity');
-          break;
-        case 'COLUMN_NOT_FOUND':
-          suggestions.push('Verify column name spelling and case');
-          break;
-        case 'SAFETY_GUARD':
-          suggestions.push('Only SELECT queries are allowed for security');
-          break;
-        default:
-          suggestions.push('Review the query for common SQL errors');
-      }
-
-      return JSON.stringify({
-        errorType,
-        originalError: errorMessage,
-        originalQuery,
-        suggestions,
-        canRetry: ['SYNTAX_ERROR', 'RELATION_NOT_FOUND', 'COLUMN_NOT_FOUND', 'SAFETY_GUARD'].includes(errorType)
-      });
+      return JSON.stringify(
+        await this.errorAnalyzer.analyze(errorMessage, originalQuery, undefined, datasource),
+      );
     } catch (error) {
       this.logger.error(`Error analysis failed: ${error.message}`);
       return JSON.stringify({
@@ -188,7 +255,14 @@ export class ReactAgentService {
     }
   }
 
-  async processQuery(prompt: string): Promise<ReactQueryResult> {
+  async processQuery(
+    prompt: string,
+    history: SessionTurn[] = [],
+    run: QueryRunOptions = {},
+  ): Promise<ReactQueryResult> {
+    const emit = run.onEvent || (() => undefined);
+    const limits = run.limits || resolveQueryLimits(this.config.get('sql', { infer: true }));
+
     if (!this.llm) {
       throw new Error('LLM not initialized');
     }
@@ -213,106 +287,122 @@ export class ReactAgentService {
     }
 
     const startTime = Date.now();
-    const maxIterations = parseInt(process.env.REACT_MAX_ITERATIONS || '5');
+    const maxIterations =
+      run.maxIterations || this.config.get('react', { infer: true }).maxIterations;
     
     const reasoning: string[] = [];
     const observations: string[] = [];
     const sqlQueries: string[] = [];
     let allQueryResults: any[] = [];
+    let truncated = false;
+    // A run whose every sql-query call failed has no result to answer from
+    let querySucceeded = false;
+    let lastQueryError: string | undefined;
     let iteration = 0;
 
     try {
       this.logger.log(`Processing ReAct query: ${prompt}`);
 
-      const systemPrompt = `You are a SQL assistant that uses tools to answer questions about a PostgreSQL database.
-
-Available tools:
-- sql-query: Execute SELECT queries on the database
-- schema-inspector: Inspect database schema (use "tables", "describe <table>", or "sample <table>")
-- error-analyzer: Analyze SQL errors and get suggestions
-
-Database schema:
-- contacts: id, first_name, last_name, created_at, updated_at
-- cases: id, topic, created_at, updated_at  
-- recent_activity: view with type, id, description, created_at
-
-Use this EXACT format for your responses:
-Thought: [your reasoning about what to do]
-Action: [tool name: sql-query, schema-inspector, or error-analyzer]  
-Action Input: [the input for the tool]
-
-OR when you have the final answer:
-Thought: I now have the final answer
-Final Answer: [your final response]
+      const { schema, linkedTables } = await this.schemaLinker.buildPromptSchema(
+        [...history.map((turn) => turn.prompt), prompt].join('\n'),
+        run.datasource,
+        run.role,
+      );
+      const examples = await this.fewShot.findSimilar(prompt, run.datasource, run.role);
+      // Earlier turns and answered clarifications go before the question
+      const preamble = [formatConversationHistory(history), formatClarifications(run.clarifications)]
+        .filter(Boolean)
+        .join('\n\n');
+      const clarify = canClarify(run, this.config.get('clarification', { infer: true }));
+      const label = DIALECT_LABELS[this.datasources.get(run.datasource).dialect];
+
+      const systemPrompt = `You are a SQL assistant that answers questions about a ${label} database by calling the provided tools.
+
+${schema}
+${examples.length > 0 ? `\n${this.fewShot.render(examples)}\n` : ''}
+Call sql-query to run SELECT statements, schema-inspector when you need to check a table, and error-analyzer when a query fails.${clarify ? `\nIf the question is ambiguous, call ${CLARIFY_TOOL} with specific options instead of guessing.` : ''}
+Briefly explain your reasoning before each tool call.
+When you have the answer, reply with the final answer and do not call a tool.
 
 Be concise and focused on SQL data retrieval only.`;
 
-      let context = '';
+      const messages: BaseMessage[] = [
+        new SystemMessage(systemPrompt),
+        new HumanMessage(preamble ? `${preamble}\n\nQuestion: ${prompt}` : prompt),
+      ];
       let finalAnswer = '';
 
       while (iteration < maxIterations && !finalAnswer) {
+        throwIfCancelled(run.signal);
         iteration++;
-        
-        const messages = [
-          new SystemMessage(systemPrompt),
-          new HumanMessage(`${context}\n\nQuestion: ${prompt}\n\nPlease respond with Thought, Action, and Action Input, OR with Thought and Final Answer if you're ready to conclude.`)
-        ];
-
-        const response = await this.llm.invoke(messages);
-        const responseText = response.content as string;
-        
-        this.logger.log(`ReAct iteration ${iteration}: ${responseText.substring(0, 100)}...`);
-
-        // Parse the response
-        const thoughtMatch = responseText.match(/Thought:\s*(.*?)(?=Action:|Final Answer:|$)/s);
-        const actionMatch = responseText.match(/Action:\s*(.*?)(?=Action Input:|$)/s);
-        const actionInputMatch = responseText.match(/Action Input:\s*(.*?)(?=$)/s);
-        const finalAnswerMatch = responseText.match(/Final Answer:\s*(.*?)(?=$)/s);
-
-        if (thoughtMatch) {
-          const thought = thoughtMatch[1].trim();
-          reasoning.push(thought);
-          this.logger.log(`Thought: ${thought}`);
-        }
+        const step = iteration;
 
-        if (finalAnswerMatch) {
-          finalAnswer = finalAnswerMatch[1].trim();
+        const response = await this.llm.invoke(messages, {
+          model: run.model,
+          signal: run.signal,
+          tools: this.tools.definitions().filter((tool) => clarify || tool.name !== CLARIFY_TOOL),
+          onToken: run.onEvent ? (token) => emit({ type: 'token', iteration: step, token }) : undefined,
+        });
+        const responseText = response.content.trim();
+        const toolCalls = response.toolCalls || [];
+
+        this.logger.log(
+          `ReAct iteration ${iteration}: ${toolCalls.length} tool call(s)${responseText ? `, ${responseText.substring(0, 100)}` : ''}`,
+        );
+
+        if (toolCalls.length === 0) {
+          if (!responseText) {
+            reasoning.push('Model returned neither a tool call nor an answer');
+            break;
+          }
+          finalAnswer = responseText;
+          reasoning.push(finalAnswer);
+          emit({ type: 'final_answer', iteration, text: finalAnswer });
           this.logger.log(`Final Answer: ${finalAnswer}`);
           break;
         }
 
-        if (actionMatch && actionInputMatch) {
-          const action = actionMatch[1].trim();
-          const actionInput = actionInputMatch[1].trim();
-          
-          this.logger.log(`Action: ${action}, Input: ${actionInput}`);
-          
-          // Execute the action
-          const observation = await this.executeAction(action, actionInput);
+        if (responseText) {
+          reasoning.push(responseText);
+          emit({ type: 'thought', iteration, text: responseText });
+          this.logger.log(`Thought: ${responseText}`);
+        }
+        messages.push(toAssistantMessage(response));
+
+        for (const call of toolCalls) {
+          const actionInput = JSON.stringify(call.args);
+          this.logger.log(`Action: ${call.name}, Input: ${actionInput}`);
+          emit({ type: 'action', iteration, tool: call.name });
+          emit({ type: 'action_input', iteration, input: actionInput });
+
+          throwIfCancelled(run.signal);
+          const observation = await this.tools.execute(call, {
+            limits,
+            signal: run.signal,
+            datasource: run.datasource,
+            role: run.role,
+            clarify,
+          });
           observations.push(observation);
-          
-          // If this was a SQL query, track it
-          if (action.toLowerCase() === 'sql-query') {
-            sqlQueries.push(actionInput);
-            
-            // Try to extract the data from the observation
+          emit({ type: 'observation', iteration, observation });
+          messages.push(new ToolMessage({ content: observation, tool_call_id: call.id }));
+
+          // Track SQL and accumulate results from all successful queries
+          if (call.name === 'sql-query' && typeof call.args.query === 'string') {
+            sqlQueries.push(call.args.query);
             try {
               const obsResult = JSON.parse(observation);
               if (obsResult.success && obsResult.data) {
-                // Accumulate results from all successful queries
+                querySucceeded = true;
                 allQueryResults = allQueryResults.concat(obsResult.data);
+                truncated = truncated || !!obsResult.truncated;
+              } else if (obsResult.error) {
+                lastQueryError = obsResult.error;
               }
             } catch {
               // Ignore parsing errors
             }
           }
-
-          // Add to context for next iteration
-          context += `\nAction: ${action}\nAction Input: ${actionInput}\nObservation: ${observation}`;
-        } else {
-          // If we can't parse the action, break
-          reasoning.push('Unable to parse action from response');
-          break;
         }
       }
 
@@ -321,16 +411,43 @@ Be concise and focused on SQL data retrieval only.`;
 
       this.logger.log(`ReAct query completed in ${duration}ms with ${iteration} iterations`);
 
+      if (sqlQueries.length > 0 && !querySucceeded) {
+        this.logger.warn(`ReAct query failed: none of ${sqlQueries.length} SQL queries succeeded`);
+        return {
+          sql: sqlQueries,
+          reasoning,
+          observations,
+          rows: [],
+          iterations: iteration,
+          success: false,
+          error: lastQueryError || 'No SQL query succeeded',
+          linkedTables,
+          examples: examples.length > 0 ? examples : undefined,
+        };
+      }
+
       return {
         sql: sqlQueries,
         reasoning,
         observations,
         rows: allQueryResults,
         iterations: iteration,
-        success: true
+        success: true,
+        linkedTables,
+        examples: examples.length > 0 ? examples : undefined,
+        finalAnswer: finalAnswer || undefined,
+        ...(truncated ? { truncated, rowLimit: limits.maxRows } : {})
       };
 
     } catch (error) {
+      if (error instanceof QueryCancelledError || run.signal?.aborted) {
+        this.logger.warn(`ReAct query cancelled after ${iteration} iterations`);
+        throw new QueryCancelledError();
+      }
+      if (error instanceof ClarificationNeededError) {
+        this.logger.log(`ReAct agent asks: ${error.clarification.question}`);
+        throw error;
+      }
       this.logger.error(`ReAct query failed: ${error.message}`, error.stack);
 
       return {
@@ -339,12 +456,9 @@ Be concise and focused on SQL data retrieval only.`;
         observations: [`Failed to complete query processing`],
         rows: [],
         iterations: iteration,
-        success: false
+        success: false,
+        error: error.message
       };
     }
   }
-
-  async isHealthy(): Promise<boolean> {
-    return this.llm !== null;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { PassThrough, Writable } from 'stream';
+import { types } from 'pg';
+import * as ExcelJS from 'exceljs';
+import { RequestValidationError } from './errors';
+import { createResultWriter, negotiateFormat } from './result-export';
+import { ExportFormat, GeneratedStreamResult, ResultColumn } from './types';
+
+const { INT4, INT8, NUMERIC, TEXT } = types.builtins;
+const RESULT: GeneratedStreamResult = {
+  rowCount: 2,
+  truncated: false,
+  rowLimit: 10,
+  estimate: { totalCost: 0 },
+};
+
+// Runs the writer over the batches and returns everything it wrote
+async function exportRows(
+  format: ExportFormat,
+  columns: ResultColumn[],
+  batches: any[][],
+  result = RESULT,
+): Promise<Buffer> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const writer = createResultWriter(format, out);
+  for (const rows of batches) {
+    await writer.write(rows, columns);
+  }
+  await writer.end(result);
+  return Buffer.concat(chunks);
+}
+
+describe('negotiateFormat', () => {
+  it('prefers the explicit format, then the Accept header', () => {
+    expect(negotiateFormat('jsonl', 'text/csv')).toBe('ndjson');
+    expect(negotiateFormat(undefined, 'text/html, text/csv;q=0.9')).toBe('csv');
+    expect(negotiateFormat()).toBe('json');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => negotiateFormat('pdf')).toThrow(RequestValidationError);
+  });
+});
+
+describe('createResultWriter', () => {
+  const columns: ResultColumn[] = [
+    { name: 'id', dataTypeID: INT4 },
+    { name: 'note', dataTypeID: TEXT },
+  ];
+
+  it('writes RFC 4180 CSV with one header row', async () => {
+    const csv = await exportRows('csv', columns, [
+      [],
+      [{ id: 1, note: 'plain' }],
+      [{ id: 2, note: 'says "hi", twice\n' }],
+    ]);
+
+    expect(csv.toString()).toBe('id,note\r\n1,plain\r\n2,"says ""hi"", twice\n"\r\n');
+  });
+
+  it('writes one JSON object per line with bigints as strings', async () => {
+    const ndjson = await exportRows('ndjson', columns, [[{ id: BigInt(2) ** BigInt(63) }]]);
+
+    expect(ndjson.toString()).toBe('{"id":"9223372036854775808"}\n');
+  });
+
+  it('notes the row cap under a truncated markdown table', async () => {
+    const markdown = await exportRows('markdown', columns, [[{ id: 1, note: 'a|b' }]], {
+      ...RESULT,
+      truncated: true,
+    });
+
+    expect(markdown.toString()).toBe(
+      '| id | note |\n| --- | --- |\n| 1 | a\\|b |\n\n_Truncated at 10 rows._\n',
+    );
+  });
+
+  it('keeps numbers Excel cannot hold exactly as text', async () => {
+    const xlsx = await exportRows(
+      'xlsx',
+      [
+        { name: 'count', dataTypeID: INT8 },
+        { name: 'amount', dataTypeID: NUMERIC },
+      ],
+      [
+        [
+          { count: '42', amount: '12.5' },
+          { count: '9007199254740993', amount: '12345678901234567.89' },
+          { count: null, amount: '1.50' },
+        ],
+      ],
+    );
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(xlsx as unknown as ExcelJS.Buffer);
+    const values = workbook
+      .getWorksheet('Results')!
+      .getSheetValues()
+      .slice(2)
+      .map((row) => (row as ExcelJS.CellValue[]).slice(1));
+    expect(values).toEqual([
+      [42, 12.5],
+      ['9007199254740993', '12345678901234567.89'],
+      [undefined, '1.50'],
+    ]);
+  });
+
+  it('waits for a slow client to drain before taking the next batch', async () => {
+    let drained = false;
+    const out = new Writable({
+      highWaterMark: 1,
+      write: (_chunk, _encoding, callback) => setTimeout(callback, 10),
+    });
+    out.on('drain', () => (drained = true));
+    const writer = createResultWriter('xlsx', out);
+
+    await writer.write([{ id: 1, note: 'x'.repeat(100_000) }], columns);
+    await writer.end(RESULT);
+
+    expect(drained).toBe(true);
+  });
+
+  it('fails instead of hanging when the client disconnects', async () => {
+    const out = new PassThrough();
+    out.destroy();
+
+    await expect(createResultWriter('csv', out).write([], columns)).rejects.toThrow(
+      'Export stream closed',
+    );
+  });
+});
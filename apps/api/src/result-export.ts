@@ -0,0 +1,286 @@
+import { Writable } from 'stream';
+import { types } from 'pg';
+import * as ExcelJS from 'exceljs';
+import { RequestValidationError } from './errors';
+import { ExportFormat, GeneratedStreamResult, ResultColumn } from './types';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  markdown: 'text/markdown; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  markdown: 'md',
+  xlsx: 'xlsx',
+};
+
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  markdown: 'markdown',
+  md: 'markdown',
+  xlsx: 'xlsx',
+  excel: 'xlsx',
+};
+
+const { INT2, INT4, INT8, OID, FLOAT4, FLOAT8, NUMERIC, DATE, TIMESTAMP, TIMESTAMPTZ } =
+  types.builtins;
+const NUMBER_TYPES = new Set<number>([INT2, INT4, INT8, OID, FLOAT4, FLOAT8, NUMERIC]);
+
+/**
+ * Picks the output format from an explicit `format` (query string or body)
+ * or, failing that, the first supported type in the Accept header.
+ */
+export function negotiateFormat(format?: string, accept?: string): ExportFormat {
+  if (format) {
+    const resolved = FORMAT_ALIASES[format.toLowerCase()];
+    if (!resolved) {
+      throw new RequestValidationError([
+        {
+          field: 'format',
+          message: `must be one of ${Object.keys(CONTENT_TYPES).join(', ')}`,
+        },
+      ]);
+    }
+    return resolved;
+  }
+
+  for (const mediaType of (accept || '').split(',')) {
+    const type = mediaType.split(';')[0].trim().toLowerCase();
+    const match = (Object.keys(CONTENT_TYPES) as ExportFormat[]).find(
+      (candidate) => CONTENT_TYPES[candidate].split(';')[0] === type,
+    );
+    if (match) return match;
+  }
+  return 'json';
+}
+
+export function exportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function exportFileName(format: ExportFormat): string {
+  return `query-results.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Writes result batches in one export format. write() is called once per
+ * cursor batch (the first time possibly with no rows) and waits for the
+ * output to drain, so a slow client slows the cursor down instead of
+ * buffering the result.
+ */
+export interface ResultWriter {
+  write(rows: any[], columns: ResultColumn[]): Promise<void>;
+  end(result: GeneratedStreamResult): Promise<void>;
+}
+
+export function createResultWriter(format: ExportFormat, out: Writable): ResultWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvWriter(out);
+    case 'ndjson':
+      return new NdjsonWriter(out);
+    case 'markdown':
+      return new MarkdownWriter(out);
+    case 'xlsx':
+      return new XlsxWriter(out);
+    default:
+      throw new Error(`No streaming writer for format: ${format}`);
+  }
+}
+
+// Text form of a value: ISO 8601 timestamps, exact numeric/bigint strings, JSON for objects
+export function textValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `\\x${value.toString('hex')}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Waits for the client to catch up; fails instead of hanging if it disconnects
+async function writeChunk(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('Export stream closed');
+  }
+  if (out.write(chunk)) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      out.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      out.off('drain', onDrain);
+      reject(new Error('Export stream closed'));
+    };
+    out.once('drain', onDrain);
+    out.once('close', onClose);
+  });
+}
+
+class CsvWriter implements ResultWriter {
+  private started = false;
+
+  constructor(private readonly out: Writable) {}
+
+  async write(rows: any[], columns: ResultColumn[]): Promise<void> {
+    const lines: string[] = [];
+    if (!this.started) {
+      this.started = true;
+      lines.push(columns.map((column) => this.escape(column.name)).join(','));
+    }
+    for (const row of rows) {
+      lines.push(columns.map((column) => this.escape(textValue(row[column.name]))).join(','));
+    }
+    if (lines.length > 0) {
+      await writeChunk(this.out, lines.join('\r\n') + '\r\n');
+    }
+  }
+
+  async end(): Promise<void> {
+    this.out.end();
+  }
+
+  // RFC 4180: quote fields containing separators, quotes or line breaks
+  private escape(text: string): string {
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+class NdjsonWriter implements ResultWriter {
+  constructor(private readonly out: Writable) {}
+
+  async write(rows: any[]): Promise<void> {
+    if (rows.length > 0) {
+      await writeChunk(
+        this.out,
+        rows.map((row) => JSON.stringify(row, this.replacer)).join('\n') + '\n',
+      );
+    }
+  }
+
+  async end(): Promise<void> {
+    this.out.end();
+  }
+
+  private replacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+}
+
+class MarkdownWriter implements ResultWriter {
+  private started = false;
+
+  constructor(private readonly out: Writable) {}
+
+  async write(rows: any[], columns: ResultColumn[]): Promise<void> {
+    const lines: string[] = [];
+    if (!this.started) {
+      this.started = true;
+      lines.push(
+        `| ${columns.map((column) => this.escape(column.name)).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+      );
+    }
+    for (const row of rows) {
+      lines.push(
+        `| ${columns.map((column) => this.escape(textValue(row[column.name]))).join(' | ')} |`,
+      );
+    }
+    if (lines.length > 0) {
+      await writeChunk(this.out, lines.join('\n') + '\n');
+    }
+  }
+
+  async end(result: GeneratedStreamResult): Promise<void> {
+    if (result.truncated) {
+      await writeChunk(this.out, `\n_Truncated at ${result.rowLimit} rows._\n`);
+    }
+    this.out.end();
+  }
+
+  private escape(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  }
+}
+
+// ExcelJS writes into a buffer that write() and end() flush through writeChunk
+class XlsxWriter implements ResultWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private sheet: ExcelJS.Worksheet | null = null;
+  private pending: Buffer[] = [];
+
+  constructor(private readonly out: Writable) {
+    const buffer = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.pending.push(chunk);
+        callback();
+      },
+    });
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: buffer, useStyles: true });
+  }
+
+  async write(rows: any[], columns: ResultColumn[]): Promise<void> {
+    if (!this.sheet) {
+      this.sheet = this.workbook.addWorksheet('Results');
+      this.sheet.columns = columns.map((column) => ({
+        header: column.name,
+        key: column.name,
+        style: this.columnStyle(column),
+      }));
+      this.sheet.getRow(1).font = { bold: true };
+    }
+    for (const row of rows) {
+      this.sheet.addRow(columns.map((column) => this.cellValue(row[column.name], column))).commit();
+    }
+    await this.flush();
+  }
+
+  async end(): Promise<void> {
+    this.sheet?.commit();
+    await this.workbook.commit();
+    await this.flush();
+    this.out.end();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+    const chunk = Buffer.concat(this.pending);
+    this.pending = [];
+    await writeChunk(this.out, chunk);
+  }
+
+  private columnStyle(column: ResultColumn): Partial<ExcelJS.Style> {
+    if (column.dataTypeID === DATE) return { numFmt: 'yyyy-mm-dd' };
+    if (column.dataTypeID === TIMESTAMP || column.dataTypeID === TIMESTAMPTZ) {
+      return { numFmt: 'yyyy-mm-dd hh:mm:ss' };
+    }
+    return {};
+  }
+
+  // Real numbers and dates where Excel can hold them exactly; text otherwise
+  private cellValue(value: unknown, column: ResultColumn): ExcelJS.CellValue {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date || typeof value === 'boolean') return value;
+    if (NUMBER_TYPES.has(column.dataTypeID)) return exactNumber(value);
+    if (column.dataTypeID === DATE && typeof value === 'string') {
+      return new Date(`${value}T00:00:00Z`);
+    }
+    return textValue(value);
+  }
+}
+
+// A number only when it round-trips: 12345678901234567.89 or 1.50 stay text
+function exactNumber(value: unknown): number | string {
+  const number = Number(value);
+  return Number.isFinite(number) && String(number) === String(value) ? number : textValue(value);
+}
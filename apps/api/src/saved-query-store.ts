@@ -0,0 +1,45 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { SavedQuery, SavedQueryStoreName } from './types';
+import { AppConfigService } from './config';
+import { MemorySavedQueryStore } from './memory-saved-query-store';
+import { PgSavedQueryStore } from './pg-saved-query-store';
+
+export const SAVED_QUERY_STORE = 'SAVED_QUERY_STORE';
+
+/**
+ * Persistence for saved queries. Inject it with `@Inject(SAVED_QUERY_STORE)`;
+ * the implementation is chosen by SAVED_QUERY_STORE. Like sessions, every
+ * saved query has an `owner` (see ownerOf); reads and deletes only see the
+ * owner's queries, and names are unique per owner.
+ */
+export interface SavedQueryStore {
+  readonly name: SavedQueryStoreName;
+  // Creates the query, or replaces the one with the same id
+  save(owner: string, query: SavedQuery): Promise<void>;
+  get(id: string, owner: string): Promise<SavedQuery | null>;
+  findByName(name: string, owner: string): Promise<SavedQuery | null>;
+  // Sorted by name
+  list(owner: string): Promise<SavedQuery[]>;
+  delete(id: string, owner: string): Promise<boolean>;
+}
+
+export function createSavedQueryStore(db: DbService, config: AppConfigService): SavedQueryStore {
+  const logger = new Logger('SavedQueryStore');
+  const name = config.get('stores', { infer: true }).savedQueries;
+
+  let store: SavedQueryStore;
+  switch (name) {
+    case 'memory':
+      store = new MemorySavedQueryStore();
+      break;
+    case 'postgres':
+      store = new PgSavedQueryStore(db);
+      break;
+    default:
+      throw new Error(`Unknown SAVED_QUERY_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} saved query store`);
+  return store;
+}
@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { SavedQueryService } from './saved-query.service';
+import { QueryHistoryService } from './query-history.service';
+import { ApiKeyGuard, ApiKeyUsageInterceptor, Caller } from './api-key.guard';
+import { ValidBody } from './validation';
+import { parseSaveQueryRequest, parseSavedQueryUpdate } from './query-request';
+import { QueryCaller, RunSavedQueryRequest, SaveQueryRequest } from './types';
+
+@Controller('api/saved-queries')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
+export class SavedQueryController {
+  constructor(
+    private readonly savedQueries: SavedQueryService,
+    private readonly history: QueryHistoryService,
+  ) {}
+
+  @Post()
+  async create(
+    @Body(ValidBody(parseSaveQueryRequest)) body: SaveQueryRequest,
+    @Caller() caller: QueryCaller,
+  ) {
+    return await this.savedQueries.create(body, caller);
+  }
+
+  @Get()
+  async list(@Caller() caller: QueryCaller) {
+    return await this.savedQueries.list(caller);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string, @Caller() caller: QueryCaller) {
+    return await this.savedQueries.get(id, caller);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body(ValidBody(parseSavedQueryUpdate)) body: Partial<SaveQueryRequest>,
+    @Caller() caller: QueryCaller,
+  ) {
+    return await this.savedQueries.update(id, body, caller);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(@Param('id') id: string, @Caller() caller: QueryCaller) {
+    await this.savedQueries.delete(id, caller);
+  }
+
+  // Runs the saved SQL with the given parameters; no LLM call is made
+  @Post(':id/run')
+  async run(
+    @Param('id') id: string,
+    @Caller() caller: QueryCaller,
+    @Body() body: RunSavedQueryRequest = {},
+  ) {
+    const { query, params, rows, truncated, rowLimit } = await this.history.track(
+      'saved',
+      {},
+      caller,
+      async () => {
+        const result = await this.savedQueries.run(id, body || {}, caller);
+        return { ...result, sql: result.query.sql, datasource: result.query.datasource };
+      },
+    );
+
+    // Required behavior: print to Node console
+    console.log('\n--- Saved Query ---');
+    console.log('Name:', query.name);
+    console.log('SQL:', query.sql);
+    if (params.length > 0) {
+      console.log('Params:', params);
+    }
+    console.log('Rows:', rows.length);
+    if (truncated) {
+      console.log('Truncated at:', rowLimit);
+    }
+    console.table(rows);
+
+    return {
+      id: query.id,
+      name: query.name,
+      datasource: query.datasource,
+      sql: query.sql,
+      params,
+      rows,
+      truncated,
+      rowLimit,
+    };
+  }
+}
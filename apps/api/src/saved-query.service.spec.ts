@@ -0,0 +1,111 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { DbService } from './db.service';
+import { RequestValidationError } from './errors';
+import { MemorySavedQueryStore } from './memory-saved-query-store';
+import { SavedQueryService } from './saved-query.service';
+import { SqlGuardService } from './sql-guard.service';
+import { SaveQueryRequest } from './types';
+
+describe('SavedQueryService', () => {
+  const config = new ConfigService<AppConfig, true>({
+    sql: {
+      allowWrites: false,
+      statementTimeoutMs: 1000,
+      maxRows: 100,
+      exportMaxRows: 100,
+      maxPlanCost: 1e6,
+      maxPlanRows: 1e6,
+    },
+  });
+  const datasources = {
+    get: () => ({ name: 'postgres', dialect: 'postgresql', schema: 'public' }),
+  } as unknown as DatasourceRegistry;
+  const alice = { keyId: 'key-a', keyName: 'alice', role: 'analyst' };
+  const bob = { keyId: 'key-b', keyName: 'bob', role: 'support' };
+  const recent: SaveQueryRequest = {
+    name: 'recent-cases',
+    sql: 'SELECT id FROM cases WHERE created_at > $1 LIMIT $2',
+    parameters: [
+      { name: 'since', type: 'date' },
+      { name: 'limit', type: 'integer', default: 10 },
+    ],
+  };
+  let execGenerated: jest.Mock;
+  let savedQueries: SavedQueryService;
+
+  beforeEach(() => {
+    execGenerated = jest.fn(async () => ({ rows: [], rowCount: 0 }));
+    savedQueries = new SavedQueryService(
+      new MemorySavedQueryStore(),
+      { execGenerated } as unknown as DbService,
+      new SqlGuardService(),
+      datasources,
+      config,
+    );
+  });
+
+  beforeAll(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+
+  it('coerces parameters to their declared types and fills in defaults', async () => {
+    const { id } = await savedQueries.create(recent, alice);
+
+    const result = await savedQueries.run(id, { params: { since: '2026-10-01' } }, alice);
+    expect(result.params).toEqual(['2026-10-01', 10]);
+    await savedQueries.run(id, { params: { since: '2026-10-01', limit: '25' } }, alice);
+    expect(execGenerated).toHaveBeenLastCalledWith(recent.sql, expect.anything(), {
+      params: ['2026-10-01', 25],
+      datasource: 'postgres',
+      role: 'analyst',
+    });
+  });
+
+  it('rejects missing, mistyped and unknown parameters', async () => {
+    const { id } = await savedQueries.create(recent, alice);
+    const run = (params: Record<string, unknown>) =>
+      savedQueries.run(id, { params }, alice).catch((error: BadRequestException) => error.message);
+
+    expect(await run({})).toBe('Parameter since is required');
+    expect(await run({ since: '2026-13-45' })).toBe('Parameter since must be a date');
+    expect(await run({ since: '2026-10-01', limit: '2.5' })).toBe(
+      'Parameter limit must be a integer',
+    );
+    expect(await run({ since: '2026-10-01', until: '2026-11-01' })).toBe(
+      'Unknown parameter(s) for recent-cases: until',
+    );
+  });
+
+  it('rejects a default that does not fit its type', async () => {
+    await expect(
+      savedQueries.create(
+        {
+          ...recent,
+          parameters: [recent.parameters![0], { name: 'limit', type: 'integer', default: 'ten' }],
+        },
+        alice,
+      ),
+    ).rejects.toBeInstanceOf(RequestValidationError);
+  });
+
+  it('checks placeholders against the declared parameters', async () => {
+    await expect(
+      savedQueries.create({ ...recent, parameters: [recent.parameters![0]] }, alice),
+    ).rejects.toThrow('The SQL uses $1, $2, but 1 parameter(s) are declared');
+  });
+
+  it('keeps each key’s saved queries to itself', async () => {
+    const { id } = await savedQueries.create(recent, alice);
+
+    expect(await savedQueries.list(bob)).toEqual([]);
+    await expect(savedQueries.get(id, bob)).rejects.toBeInstanceOf(NotFoundException);
+    await expect(savedQueries.update(id, { sql: 'SELECT 1' }, bob)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(savedQueries.delete(id, bob)).rejects.toBeInstanceOf(NotFoundException);
+    // Names are unique per key
+    await expect(savedQueries.create(recent, bob)).resolves.toMatchObject({ name: recent.name });
+    await expect(savedQueries.create(recent, alice)).rejects.toBeInstanceOf(ConflictException);
+  });
+});
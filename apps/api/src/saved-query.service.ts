@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { SAVED_QUERY_STORE, SavedQueryStore } from './saved-query-store';
+import { DbService } from './db.service';
+import { SqlGuardService } from './sql-guard.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { resolveQueryLimits } from './query-run';
+import { ownerOf } from './api-key.guard';
+import { RequestValidationError } from './errors';
+import {
+  GeneratedQueryResult,
+  QueryCaller,
+  RunSavedQueryRequest,
+  SaveQueryRequest,
+  SavedQuery,
+  SavedQueryParamType,
+} from './types';
+import { AppConfig } from './config';
+
+// The value bound for a parameter, or undefined when `value` does not fit its type
+function coerceParam(
+  type: SavedQueryParamType,
+  value: unknown,
+): string | number | boolean | undefined {
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+      return type === 'integer' && !Number.isInteger(number) ? undefined : number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'date':
+      return typeof value === 'string' &&
+        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        !Number.isNaN(Date.parse(value))
+        ? value
+        : undefined;
+    case 'timestamp':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+  }
+}
+
+/**
+ * Named SQL, run again without the LLM. The SQL passes the SQL guard when it
+ * is saved and again, with the caller's access policy, the cost check and
+ * the read-only limits, every time it runs. Parameters are bound as `$1`,
+ * `$2`, ... in the order they are declared, so they are only supported on
+ * PostgreSQL datasources. A saved query belongs to the API key that saved it
+ * (see ownerOf); other keys cannot see, run or change it.
+ */
+@Injectable()
+export class SavedQueryService {
+  private readonly logger = new Logger(SavedQueryService.name);
+
+  constructor(
+    @Inject(SAVED_QUERY_STORE) private readonly store: SavedQueryStore,
+    private readonly db: DbService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  async create(request: SaveQueryRequest, caller: QueryCaller): Promise<SavedQuery> {
+    const now = new Date().toISOString();
+    const query = await this.validate(
+      {
+        ...this.fields(request),
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      },
+      caller,
+    );
+    await this.store.save(ownerOf(caller), query);
+    this.logger.log(`Saved query ${query.name} (${query.id})`);
+    return query;
+  }
+
+  async list(caller: QueryCaller): Promise<SavedQuery[]> {
+    return await this.store.list(ownerOf(caller));
+  }
+
+  async get(id: string, caller: QueryCaller): Promise<SavedQuery> {
+    const query = await this.store.get(id, ownerOf(caller));
+    if (!query) {
+      throw new NotFoundException(`Saved query ${id} not found`);
+    }
+    return query;
+  }
+
+  // Fields left out of the request keep their value
+  async update(
+    id: string,
+    request: Partial<SaveQueryRequest>,
+    caller: QueryCaller,
+  ): Promise<SavedQuery> {
+    const current = await this.get(id, caller);
+    const query = await this.validate(
+      {
+        ...current,
+        ...this.fields({ ...current, ...request }),
+        updatedAt: new Date().toISOString(),
+      },
+      caller,
+    );
+    await this.store.save(ownerOf(caller), query);
+    this.logger.log(`Updated saved query ${query.name} (${query.id})`);
+    return query;
+  }
+
+  async delete(id: string, caller: QueryCaller): Promise<void> {
+    if (!(await this.store.delete(id, ownerOf(caller)))) {
+      throw new NotFoundException(`Saved query ${id} not found`);
+    }
+    this.logger.log(`Deleted saved query ${id}`);
+  }
+
+  // Binds the parameters by name and runs the SQL with the caller's role
+  async run(
+    id: string,
+    request: RunSavedQueryRequest,
+    caller: QueryCaller,
+  ): Promise<GeneratedQueryResult & { query: SavedQuery; params: unknown[] }> {
+    const query = await this.get(id, caller);
+    const values = request?.params || {};
+    const unknown = Object.keys(values).filter(
+      (name) => !query.parameters.some((param) => param.name === name),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown parameter(s) for ${query.name}: ${unknown.join(', ')}`,
+      );
+    }
+
+    const params = query.parameters.map((param) => {
+      const value = values[param.name] ?? param.default;
+      if (value === undefined || value === null) {
+        throw new BadRequestException(`Parameter ${param.name} is required`);
+      }
+      const bound = coerceParam(param.type, value);
+      if (bound === undefined) {
+        throw new BadRequestException(`Parameter ${param.name} must be a ${param.type}`);
+      }
+      return bound;
+    });
+
+    const result = await this.db.execGenerated(
+      query.sql,
+      resolveQueryLimits(this.config.get('sql', { infer: true }), request),
+      {
+        params,
+        datasource: query.datasource,
+        role: caller.role,
+      },
+    );
+    return { ...result, query, params };
+  }
+
+  // The body's shape was checked by parseSaveQueryRequest; defaults must also fit their type
+  private fields(request: SaveQueryRequest): Omit<SavedQuery, 'id' | 'createdAt' | 'updatedAt'> {
+    const parameters = request.parameters || [];
+    const errors = parameters
+      .map((param, index) => ({ param, field: `parameters.${index}.default` }))
+      .filter(
+        ({ param }) =>
+          param.default !== undefined && coerceParam(param.type, param.default) === undefined,
+      )
+      .map(({ param, field }) => ({ field, message: `must be a ${param.type}` }));
+    if (errors.length > 0) {
+      throw new RequestValidationError(errors);
+    }
+
+    return {
+      name: request.name,
+      description: request.description,
+      sql: request.sql,
+      datasource: this.datasources.get(request.datasource).name,
+      parameters,
+      prompt: request.prompt,
+    };
+  }
+
+  // Guard, placeholder and name checks against the datasource and the other saved queries
+  private async validate(query: SavedQuery, caller: QueryCaller): Promise<SavedQuery> {
+    const datasource = this.datasources.get(query.datasource);
+    const { dialect } = datasource;
+    const guard = await this.sqlGuard.validate(query.sql, {
+      allowWrites: this.config.get('sql', { infer: true }).allowWrites,
+      datasource,
+    });
+    if (guard.allowed === false) {
+      throw new BadRequestException({
+        message: `Guard: ${guard.reason}`,
+        rule: guard.rule,
+      });
+    }
+
+    if (dialect !== 'postgresql') {
+      if (query.parameters.length > 0) {
+        throw new BadRequestException(
+          `Parameters are only supported on PostgreSQL datasources, ${query.datasource} is ${dialect}`,
+        );
+      }
+    } else {
+      const numbers = await this.sqlGuard.parameterNumbers(query.sql);
+      const declared = query.parameters.map((_param, i) => i + 1);
+      if (numbers.join() !== declared.join()) {
+        throw new BadRequestException(
+          `The SQL uses ${numbers.map((n) => `$${n}`).join(', ') || 'no parameters'}, ` +
+            `but ${declared.length} parameter(s) are declared; declare one per placeholder, in order`,
+        );
+      }
+    }
+
+    const sameName = await this.store.findByName(query.name, ownerOf(caller));
+    if (sameName && sameName.id !== query.id) {
+      throw new ConflictException(`A saved query named ${query.name} already exists`);
+    }
+    return query;
+  }
+}
@@ -0,0 +1,40 @@
+import { Controller, Post, Query, UseGuards } from '@nestjs/common';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { TableEmbeddingsService } from './table-embeddings.service';
+import { AdminKeyGuard } from './api-key.guard';
+
+// Schema upkeep reads every table, whatever the caller's role, so it takes ADMIN_API_KEY
+@Controller('api/admin/schema')
+@UseGuards(AdminKeyGuard)
+export class SchemaAdminController {
+  constructor(
+    private readonly schemaCatalog: SchemaCatalogService,
+    private readonly tableEmbeddings: TableEmbeddingsService,
+  ) {}
+
+  @Post('refresh')
+  async refresh(@Query('datasource') datasource?: string) {
+    const previousVersion = (await this.schemaCatalog.getCatalog(datasource)).version;
+    const catalog = await this.schemaCatalog.refresh(datasource);
+
+    console.log('\n--- Schema Catalog Refresh ---');
+    console.log('Datasource:', catalog.datasource);
+    console.log('Version:', `${previousVersion} → ${catalog.version}`);
+    console.log('Relations:', catalog.tables.length);
+
+    return {
+      datasource: catalog.datasource,
+      version: catalog.version,
+      previousVersion,
+      changed: previousVersion !== catalog.version,
+      loadedAt: catalog.loadedAt,
+      tables: catalog.tables.map((table) => table.name),
+    };
+  }
+
+  @Post('embeddings')
+  async initEmbeddings() {
+    await this.tableEmbeddings.initializeEmbeddings();
+    return { success: true, message: 'Embeddings initialized successfully' };
+  }
+}
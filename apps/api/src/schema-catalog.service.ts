@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { DatasourceRegistry } from './datasource-registry';
+import { DIALECT_LABELS } from './datasource';
+import { CatalogTable, SchemaCatalog } from './types';
+
+/**
+ * Introspects tables, views, keys and comments of each datasource once,
+ * caches the result and renders the schema section of the LLM prompts from
+ * it. Call refresh() after a migration. Methods default to the default
+ * datasource.
+ */
+@Injectable()
+export class SchemaCatalogService {
+  private readonly logger = new Logger(SchemaCatalogService.name);
+  private readonly catalogs = new Map<string, SchemaCatalog>();
+  private readonly loading = new Map<string, Promise<SchemaCatalog>>();
+
+  constructor(private readonly datasources: DatasourceRegistry) {}
+
+  async getCatalog(datasource?: string): Promise<SchemaCatalog> {
+    const catalog = this.catalogs.get(this.datasources.get(datasource).name);
+    if (catalog) {
+      return catalog;
+    }
+    return this.refresh(datasource);
+  }
+
+  async refresh(datasource?: string): Promise<SchemaCatalog> {
+    const name = this.datasources.get(datasource).name;
+    if (!this.loading.has(name)) {
+      this.loading.set(
+        name,
+        this.load(name)
+          .then((catalog) => {
+            if (this.catalogs.get(name)?.version !== catalog.version) {
+              this.logger.log(
+                `Schema catalog loaded for ${name}: ${catalog.tables.length} relations, version ${catalog.version}`,
+              );
+            }
+            this.catalogs.set(name, catalog);
+            return catalog;
+          })
+          .finally(() => {
+            this.loading.delete(name);
+          }),
+      );
+    }
+    return this.loading.get(name);
+  }
+
+  async getTableNames(datasource?: string): Promise<string[]> {
+    const catalog = await this.getCatalog(datasource);
+    return catalog.tables.map((table) => table.name);
+  }
+
+  /**
+   * Renders the schema section of the prompt. With a selection (table name →
+   * columns to keep, or null for all columns) only those tables are rendered.
+   */
+  async renderPromptSchema(
+    selection?: Map<string, string[] | null>,
+    datasource?: string,
+  ): Promise<string> {
+    const catalog = await this.getCatalog(datasource);
+    const selected = catalog.tables
+      .filter((table) => !selection || selection.has(table.name))
+      .map((table) => {
+        const columns = selection?.get(table.name);
+        if (!columns) return table;
+        return {
+          ...table,
+          columns: table.columns.filter((column) => columns.includes(column.name)),
+          foreignKeys: table.foreignKeys.filter((fk) => selection.has(fk.referencedTable)),
+        };
+      });
+    const tables = selected.filter((table) => table.type === 'table');
+    const views = selected.filter((table) => table.type === 'view');
+
+    const lines = [`DATABASE SCHEMA (${DIALECT_LABELS[catalog.dialect]}):`];
+    if (tables.length > 0) {
+      lines.push('Tables:', ...tables.map((table) => this.renderTable(table)));
+    }
+    if (views.length > 0) {
+      lines.push('', 'Views:', ...views.map((table) => this.renderTable(table)));
+    }
+    return lines.join('\n');
+  }
+
+  private renderTable(table: CatalogTable): string {
+    const columns = table.columns.map((column) => {
+      let text = `${column.name} ${column.dataType}`;
+      if (table.primaryKey.length === 1 && table.primaryKey[0] === column.name) {
+        text += ' PRIMARY KEY';
+      } else if (!column.nullable && table.type === 'table') {
+        text += ' NOT NULL';
+      }
+      if (column.comment) {
+        text += ` /* ${column.comment} */`;
+      }
+      return text;
+    });
+
+    const lines = [`  ${table.name}(${columns.join(', ')})`];
+    if (table.comment) {
+      lines.push(`    -- ${table.comment}`);
+    }
+    if (table.primaryKey.length > 1) {
+      lines.push(`    PRIMARY KEY (${table.primaryKey.join(', ')})`);
+    }
+    for (const fk of table.foreignKeys) {
+      lines.push(
+        `    FOREIGN KEY (${fk.columns.join(', ')}) REFERENCES ${fk.referencedTable}(${fk.referencedColumns.join(', ')})`,
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private async load(name: string): Promise<SchemaCatalog> {
+    const datasource = this.datasources.get(name);
+    const tables = await datasource.introspect();
+    const version = createHash('sha256')
+      .update(JSON.stringify(tables))
+      .digest('hex')
+      .substring(0, 12);
+
+    return {
+      datasource: datasource.name,
+      dialect: datasource.dialect,
+      version,
+      loadedAt: new Date().toISOString(),
+      tables,
+    };
+  }
+}
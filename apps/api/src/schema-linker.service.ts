@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { PolicyService } from './policy.service';
+import { TableEmbeddingsService } from './table-embeddings.service';
+import { CatalogTable, LinkedTable } from './types';
+import { AppConfig } from './config';
+
+export interface PromptSchema {
+  schema: string;
+  linkedTables?: LinkedTable[];
+}
+
+/**
+ * Schema linking: picks the tables and columns relevant to a question via
+ * vector search, adds their foreign-key neighbours and renders only those
+ * into the prompt. Falls back to the full schema when disabled, when the
+ * index is empty or when the vector store is unavailable. The index covers
+ * the default datasource only; other datasources always get the full schema.
+ * Either way, tables and columns the caller's role may not read are left out.
+ */
+@Injectable()
+export class SchemaLinkerService {
+  private readonly logger = new Logger(SchemaLinkerService.name);
+
+  constructor(
+    private readonly schemaCatalog: SchemaCatalogService,
+    private readonly tableEmbeddings: TableEmbeddingsService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly policies: PolicyService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  async buildPromptSchema(
+    prompt: string,
+    datasource?: string,
+    role?: string,
+  ): Promise<PromptSchema> {
+    const visible = await this.policies.visibleSelection(role, datasource);
+    if (
+      !this.config.get('schemaLinking', { infer: true }).enabled ||
+      (datasource && datasource !== this.datasources.defaultName)
+    ) {
+      return { schema: await this.schemaCatalog.renderPromptSchema(visible, datasource) };
+    }
+
+    try {
+      const linkedTables = (await this.link(prompt))
+        .filter((link) => !visible || visible.has(link.tableName))
+        .map((link) => {
+          const readable = visible?.get(link.tableName);
+          return readable
+            ? { ...link, columns: link.columns.filter((column) => readable.includes(column)) }
+            : link;
+        });
+      if (linkedTables.length === 0) {
+        this.logger.warn('Schema linking found no relevant tables, using the full schema');
+        return { schema: await this.schemaCatalog.renderPromptSchema(visible) };
+      }
+
+      const selection = new Map(linkedTables.map((link) => [link.tableName, link.columns]));
+      this.logger.log(
+        `Linked tables: ${linkedTables.map((link) => `${link.tableName} (${link.score.toFixed(3)})`).join(', ')}`,
+      );
+      return { schema: await this.schemaCatalog.renderPromptSchema(selection), linkedTables };
+    } catch (error) {
+      this.logger.warn(`Schema linking failed, using the full schema: ${error.message}`);
+      return { schema: await this.schemaCatalog.renderPromptSchema(visible) };
+    }
+  }
+
+  async link(prompt: string): Promise<LinkedTable[]> {
+    const { topK, columnTopK, minScore } = this.config.get('schemaLinking', { infer: true });
+
+    const { tables } = await this.schemaCatalog.getCatalog();
+    const byName = new Map(tables.map((table) => [table.name, table]));
+
+    const tableMatches = (await this.tableEmbeddings.findBestTableMatch(prompt, topK)).filter(
+      (match) => match.score >= minScore && byName.has(match.metadata.tableName),
+    );
+    const columnMatches = (
+      await this.tableEmbeddings.findBestColumnMatch(prompt, columnTopK)
+    ).filter((match) => match.score >= minScore && byName.has(match.metadata.tableName));
+
+    // Best score per table, from either its own vector or one of its columns
+    const scored = new Map<string, { score: number; reason: 'table' | 'column' }>();
+    for (const match of tableMatches) {
+      scored.set(match.metadata.tableName, { score: match.score, reason: 'table' });
+    }
+    const matchedColumns = new Map<string, Set<string>>();
+    for (const match of columnMatches) {
+      const { tableName, columnName } = match.metadata;
+      if (!matchedColumns.has(tableName)) matchedColumns.set(tableName, new Set());
+      matchedColumns.get(tableName).add(columnName);
+
+      const current = scored.get(tableName);
+      if (!current) {
+        scored.set(tableName, { score: match.score, reason: 'column' });
+      } else if (match.score > current.score) {
+        current.score = match.score;
+      }
+    }
+
+    const selected = [...scored.entries()]
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, topK)
+      .map(([tableName, { score, reason }]) => ({ tableName, score, reason }));
+    const selectedNames = new Set(selected.map((link) => link.tableName));
+
+    const neighbours = new Set<string>();
+    for (const name of selectedNames) {
+      for (const neighbour of this.foreignKeyNeighbours(byName.get(name), tables)) {
+        if (!selectedNames.has(neighbour)) neighbours.add(neighbour);
+      }
+    }
+
+    const links: LinkedTable[] = [
+      ...selected,
+      ...[...neighbours].map((tableName) => ({
+        tableName,
+        score: 0,
+        reason: 'foreign-key' as const,
+      })),
+    ].map((link) => ({
+      ...link,
+      columns: this.columnsFor(byName.get(link.tableName), link.reason, matchedColumns, tables),
+    }));
+
+    return links;
+  }
+
+  private foreignKeyNeighbours(table: CatalogTable, tables: CatalogTable[]): string[] {
+    const outgoing = table.foreignKeys.map((fk) => fk.referencedTable);
+    const incoming = tables
+      .filter((other) => other.foreignKeys.some((fk) => fk.referencedTable === table.name))
+      .map((other) => other.name);
+    return [...outgoing, ...incoming];
+  }
+
+  // A table matched on its own with no column hits keeps all its columns;
+  // otherwise only matched columns plus the keys needed to join it
+  private columnsFor(
+    table: CatalogTable,
+    reason: LinkedTable['reason'],
+    matchedColumns: Map<string, Set<string>>,
+    tables: CatalogTable[],
+  ): string[] {
+    const matched = matchedColumns.get(table.name);
+    if (reason === 'table' && !matched) {
+      return table.columns.map((column) => column.name);
+    }
+
+    const keep = new Set<string>([...(matched || []), ...table.primaryKey]);
+    table.foreignKeys.forEach((fk) => fk.columns.forEach((column) => keep.add(column)));
+    for (const other of tables) {
+      for (const fk of other.foreignKeys) {
+        if (fk.referencedTable === table.name) {
+          fk.referencedColumns.forEach((column) => keep.add(column));
+        }
+      }
+    }
+    return table.columns.map((column) => column.name).filter((name) => keep.has(name));
+  }
+}
@@ -0,0 +1,46 @@
+import { resolve } from 'path';
+import { FixtureApp, startFixtureApp } from '../test/fixture-app';
+
+// Access policies without API keys: every caller gets fixtures/policies.json's defaultRole
+describe('Access policies without API keys (fixture LLM)', () => {
+  const asAdmin = { 'X-Role': 'admin' };
+  let api: FixtureApp;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    api = await startFixtureApp({
+      API_KEYS_ENABLED: 'false',
+      POLICY_PATH: resolve(__dirname, '../../../fixtures/policies.json'),
+    });
+  }, 60000);
+
+  afterAll(() => api?.close());
+
+  it('ignores an X-Role header and still masks columns', async () => {
+    const response = await api.post('/api/query', { prompt: 'recent contacts' }, asAdmin);
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.rows.length).toBeGreaterThan(0);
+    for (const row of body.rows) {
+      expect(Object.keys(row)).toEqual(['id', 'first_name', 'last_name', 'created_at']);
+      expect(row.first_name).toMatch(/^.\*\*\*$/);
+      expect(row.last_name).toMatch(/^[0-9a-f]{32}$/);
+    }
+  });
+
+  it('lists only the tables and columns the role may read', async () => {
+    const response = await api.get('/api/schema', asAdmin);
+
+    expect(response.status).toBe(200);
+    const { tables } = await response.json();
+    expect(
+      Object.fromEntries(
+        tables.map((table: any) => [table.name, table.columns.map((column: any) => column.name)]),
+      ),
+    ).toEqual({
+      contacts: ['id', 'first_name', 'last_name', 'created_at'],
+      cases: ['id', 'topic', 'created_at', 'updated_at'],
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { Controller, Get, Query, UseGuards, UseInterceptors } from '@nestjs/common';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { PolicyService } from './policy.service';
+import { ApiKeyGuard, ApiKeyUsageInterceptor, Caller } from './api-key.guard';
+import { QueryCaller, SchemaCatalog } from './types';
+
+@Controller('api/schema')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
+export class SchemaController {
+  constructor(
+    private readonly schemaCatalog: SchemaCatalogService,
+    private readonly policies: PolicyService,
+  ) {}
+
+  // Only the tables and columns the caller's role may read
+  @Get()
+  async getSchema(@Caller() caller: QueryCaller, @Query('datasource') datasource?: string) {
+    return await this.visibleCatalog(await this.schemaCatalog.getCatalog(datasource), caller);
+  }
+
+  private async visibleCatalog(
+    catalog: SchemaCatalog,
+    caller: QueryCaller,
+  ): Promise<SchemaCatalog> {
+    const visible = await this.policies.visibleSelection(caller.role, catalog.datasource);
+    if (!visible) return catalog;
+
+    const tables = catalog.tables
+      .filter((table) => visible.has(table.name))
+      .map((table) => {
+        const readable = new Set(visible.get(table.name) || table.columns.map((c) => c.name));
+        return {
+          ...table,
+          columns: table.columns.filter((column) => readable.has(column.name)),
+          primaryKey: table.primaryKey.filter((name) => readable.has(name)),
+          // Keys into tables or columns the role cannot see are left out
+          foreignKeys: table.foreignKeys.filter(
+            (key) =>
+              visible.has(key.referencedTable) &&
+              key.columns.every((name) => readable.has(name)) &&
+              key.referencedColumns.every((name) => {
+                const columns = visible.get(key.referencedTable);
+                return !columns || columns.includes(name);
+              }),
+          ),
+        };
+      });
+    return { ...catalog, tables };
+  }
+}
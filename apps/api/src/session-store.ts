@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { QuerySession, QuerySessionSummary, SessionStoreName, SessionTurn } from './types';
+import { AppConfigService } from './config';
+import { MemorySessionStore } from './memory-session-store';
+import { PgSessionStore } from './pg-session-store';
+
+export const SESSION_STORE = 'SESSION_STORE';
+
+/**
+ * Persistence for conversational query sessions. Inject it with
+ * `@Inject(SESSION_STORE)`; the implementation is chosen by SESSION_STORE.
+ * Every session has an `owner` (see SessionService); get, list and delete
+ * only see the owner's sessions.
+ */
+export interface SessionStore {
+  readonly name: SessionStoreName;
+  create(owner: string, title?: string): Promise<QuerySession>;
+  get(id: string, owner: string): Promise<QuerySession | null>;
+  list(owner: string): Promise<QuerySessionSummary[]>;
+  delete(id: string, owner: string): Promise<boolean>;
+  appendTurn(id: string, turn: SessionTurn): Promise<void>;
+}
+
+/**
+ * Renders prior turns for the prompt so follow-ups ("only the ones from
+ * 2024", "now count them") can be resolved against them.
+ */
+export function formatConversationHistory(turns: SessionTurn[]): string {
+  if (!turns || turns.length === 0) return '';
+  const lines = ['Conversation so far (oldest first):'];
+  turns.forEach((turn, i) => {
+    lines.push(`${i + 1}. Question: ${turn.prompt}`);
+    if (turn.sql.length > 0) {
+      lines.push(`   SQL: ${turn.sql[turn.sql.length - 1]}`);
+    }
+    lines.push(`   Result: ${turn.rowCount} rows; columns: ${turn.columns.join(', ') || 'none'}`);
+  });
+  lines.push(
+    'The next question may refer to these results ("them", "those", "only the ones ...").',
+    'Resolve such references by building on the most recent relevant SQL.',
+  );
+  return lines.join('\n');
+}
+
+export function createSessionStore(db: DbService, config: AppConfigService): SessionStore {
+  const logger = new Logger('SessionStore');
+  const name = config.get('sessions', { infer: true }).store;
+
+  let store: SessionStore;
+  switch (name) {
+    case 'memory':
+      store = new MemorySessionStore();
+      break;
+    case 'postgres':
+      store = new PgSessionStore(db);
+      break;
+    default:
+      throw new Error(`Unknown SESSION_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} session store`);
+  return store;
+}
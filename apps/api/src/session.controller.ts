@@ -0,0 +1,42 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { SessionService } from './session.service';
+import { ApiKeyGuard, ApiKeyUsageInterceptor, Caller } from './api-key.guard';
+import { QueryCaller } from './types';
+
+@Controller('api/sessions')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(ApiKeyUsageInterceptor)
+export class SessionController {
+  constructor(private readonly sessions: SessionService) {}
+
+  @Post()
+  async create(@Body() body: { title?: string } = {}, @Caller() caller: QueryCaller) {
+    return await this.sessions.create(caller, body?.title);
+  }
+
+  @Get()
+  async list(@Caller() caller: QueryCaller) {
+    return await this.sessions.list(caller);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string, @Caller() caller: QueryCaller) {
+    return await this.sessions.get(id, caller);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(@Param('id') id: string, @Caller() caller: QueryCaller) {
+    await this.sessions.delete(id, caller);
+  }
+}
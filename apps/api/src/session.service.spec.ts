@@ -0,0 +1,88 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { MemorySessionStore } from './memory-session-store';
+import { SessionService } from './session.service';
+
+describe('SessionService', () => {
+  const config = new ConfigService<AppConfig, true>({
+    sessions: { store: 'memory', historyWindow: 2 },
+  });
+  const alice = { keyId: 'key-a', keyName: 'alice', role: 'analyst' };
+  const bob = { keyId: 'key-b', keyName: 'bob', role: 'analyst' };
+  let sessions: SessionService;
+
+  beforeEach(() => {
+    sessions = new SessionService(new MemorySessionStore(), config);
+  });
+
+  it('records the SQL and result shape of each turn', async () => {
+    const { id } = await sessions.create(alice, 'contacts');
+    await sessions.recordTurn(
+      id,
+      'show recent contacts',
+      'direct',
+      ['SELECT id, first_name FROM contacts ORDER BY created_at DESC LIMIT 10'],
+      [
+        { id: 1, first_name: 'Ada' },
+        { id: 2, first_name: 'Grace' },
+      ],
+    );
+
+    expect((await sessions.get(id, alice)).turns).toEqual([
+      expect.objectContaining({
+        prompt: 'show recent contacts',
+        columns: ['id', 'first_name'],
+        rowCount: 2,
+      }),
+    ]);
+    expect((await sessions.list(alice)).map((session) => session.turnCount)).toEqual([1]);
+  });
+
+  it('keeps only the last historyWindow turns as history', async () => {
+    const { id } = await sessions.create(alice);
+    for (const prompt of ['show recent contacts', 'only the ones from 2024', 'now count them']) {
+      await sessions.recordTurn(id, prompt, 'direct', ['SELECT 1'], []);
+    }
+
+    expect((await sessions.getHistory(id, alice)).map((turn) => turn.prompt)).toEqual([
+      'only the ones from 2024',
+      'now count them',
+    ]);
+  });
+
+  it('reports unknown sessions as not found', async () => {
+    await expect(sessions.get('missing', alice)).rejects.toBeInstanceOf(NotFoundException);
+    await expect(sessions.delete('missing', alice)).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('lists only the calling key’s sessions', async () => {
+    const mine = await sessions.create(alice, 'mine');
+    await sessions.create(bob, 'theirs');
+
+    expect((await sessions.list(alice)).map((session) => session.id)).toEqual([mine.id]);
+  });
+
+  it('hides another key’s session from get, history and delete', async () => {
+    const { id } = await sessions.create(alice);
+    await sessions.recordTurn(
+      id,
+      'how many contacts',
+      'direct',
+      ['SELECT COUNT(*) FROM contacts'],
+      [{ count: 132 }],
+    );
+
+    await expect(sessions.get(id, bob)).rejects.toBeInstanceOf(NotFoundException);
+    await expect(sessions.getHistory(id, bob)).rejects.toBeInstanceOf(NotFoundException);
+    await expect(sessions.delete(id, bob)).rejects.toBeInstanceOf(NotFoundException);
+    expect(await sessions.getHistory(id, alice)).toHaveLength(1);
+  });
+
+  it('keeps keyed and keyless sessions apart', async () => {
+    const { id } = await sessions.create({});
+
+    await expect(sessions.get(id, alice)).rejects.toBeInstanceOf(NotFoundException);
+    await expect(sessions.delete(id, {})).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SESSION_STORE, SessionStore } from './session-store';
+import { ownerOf } from './api-key.guard';
+import { QueryCaller, QueryMode, QuerySession, QuerySessionSummary, SessionTurn } from './types';
+import { AppConfig } from './config';
+
+@Injectable()
+export class SessionService {
+  constructor(
+    @Inject(SESSION_STORE) private readonly store: SessionStore,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  async create(caller: QueryCaller, title?: string): Promise<QuerySession> {
+    return await this.store.create(ownerOf(caller), title);
+  }
+
+  async list(caller: QueryCaller): Promise<QuerySessionSummary[]> {
+    return await this.store.list(ownerOf(caller));
+  }
+
+  // Other callers' sessions are not found, the same as unknown ids
+  async get(id: string, caller: QueryCaller): Promise<QuerySession> {
+    const session = await this.store.get(id, ownerOf(caller));
+    if (!session) {
+      throw new NotFoundException(`Session ${id} not found`);
+    }
+    return session;
+  }
+
+  async delete(id: string, caller: QueryCaller): Promise<void> {
+    if (!(await this.store.delete(id, ownerOf(caller)))) {
+      throw new NotFoundException(`Session ${id} not found`);
+    }
+  }
+
+  // The most recent turns, bounded by SESSION_HISTORY_WINDOW
+  async getHistory(id: string, caller: QueryCaller): Promise<SessionTurn[]> {
+    const session = await this.get(id, caller);
+    const window = this.config.get('sessions', { infer: true }).historyWindow;
+    return window > 0 ? session.turns.slice(-window) : [];
+  }
+
+  async recordTurn(
+    id: string,
+    prompt: string,
+    mode: QueryMode,
+    sql: string[],
+    // The rows, or just their shape when they were streamed
+    result: any[] | Pick<SessionTurn, 'columns' | 'rowCount'>,
+  ): Promise<void> {
+    const shape = Array.isArray(result)
+      ? { columns: result.length > 0 ? Object.keys(result[0]) : [], rowCount: result.length }
+      : result;
+    await this.store.appendTurn(id, {
+      prompt,
+      mode,
+      sql,
+      columns: shape.columns,
+      rowCount: shape.rowCount,
+      createdAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { SqlErrorAnalysis, SqlErrorType } from './types';
+
+// SQLSTATE codes from https://www.postgresql.org/docs/current/errcodes-appendix.html
+const SQLSTATE_TYPES: Record<string, SqlErrorType> = {
+  '42601': 'SYNTAX_ERROR',
+  '42P01': 'RELATION_NOT_FOUND',
+  '42703': 'COLUMN_NOT_FOUND',
+  '42702': 'AMBIGUOUS_COLUMN',
+  '42804': 'TYPE_MISMATCH',
+  '42883': 'TYPE_MISMATCH',
+  '22P02': 'TYPE_MISMATCH',
+  '22007': 'TYPE_MISMATCH',
+  '22008': 'TYPE_MISMATCH',
+  '42803': 'GROUPING_ERROR',
+  '57014': 'TIMEOUT',
+};
+
+// mysql2 error codes (MySQL and MariaDB)
+const MYSQL_TYPES: Record<string, SqlErrorType> = {
+  ER_PARSE_ERROR: 'SYNTAX_ERROR',
+  ER_NO_SUCH_TABLE: 'RELATION_NOT_FOUND',
+  ER_BAD_FIELD_ERROR: 'COLUMN_NOT_FOUND',
+  ER_NON_UNIQ_ERROR: 'AMBIGUOUS_COLUMN',
+  ER_WRONG_FIELD_WITH_GROUP: 'GROUPING_ERROR',
+  ER_MIX_OF_GROUP_FUNC_AND_FIELDS: 'GROUPING_ERROR',
+  ER_TRUNCATED_WRONG_VALUE: 'TYPE_MISMATCH',
+  ER_QUERY_TIMEOUT: 'TIMEOUT',
+  ER_STATEMENT_TIMEOUT: 'TIMEOUT',
+};
+
+const RETRYABLE: SqlErrorType[] = [
+  'SYNTAX_ERROR',
+  'RELATION_NOT_FOUND',
+  'COLUMN_NOT_FOUND',
+  'AMBIGUOUS_COLUMN',
+  'TYPE_MISMATCH',
+  'GROUPING_ERROR',
+  'SAFETY_GUARD',
+  'COST_LIMIT',
+];
+
+/**
+ * Classifies a failed query (by SQLSTATE or mysql2 error code when
+ * available, otherwise by the message, including SQLite's) and suggests a fix, with the real table and column names from
+ * the catalog. Used by direct-mode self-correction and the ReAct
+ * error-analyzer tool.
+ */
+@Injectable()
+export class SqlErrorAnalyzerService {
+  constructor(private readonly schemaCatalog: SchemaCatalogService) {}
+
+  async analyze(
+    errorMessage: string,
+    query?: string,
+    code?: string,
+    datasource?: string,
+  ): Promise<SqlErrorAnalysis> {
+    const errorType = this.classify(errorMessage, code);
+    return {
+      errorType,
+      originalError: errorMessage,
+      originalQuery: query || null,
+      suggestions: await this.suggest(errorType, query, datasource),
+      canRetry: RETRYABLE.includes(errorType),
+    };
+  }
+
+  classify(errorMessage: string, code?: string): SqlErrorType {
+    if (code && (SQLSTATE_TYPES[code] || MYSQL_TYPES[code])) {
+      return SQLSTATE_TYPES[code] || MYSQL_TYPES[code];
+    }
+
+    const errorLower = errorMessage.toLowerCase();
+    if (errorLower.startsWith('guard:')) {
+      return 'SAFETY_GUARD';
+    } else if (errorLower.startsWith('cost guard:')) {
+      return 'COST_LIMIT';
+    } else if (errorLower.startsWith('policy:')) {
+      return 'POLICY_VIOLATION';
+    } else if (errorLower.includes('statement timeout')) {
+      return 'TIMEOUT';
+    } else if (errorLower.includes('syntax error')) {
+      return 'SYNTAX_ERROR';
+    } else if (
+      (errorLower.includes('relation') && errorLower.includes('does not exist')) ||
+      errorLower.includes('no such table')
+    ) {
+      return 'RELATION_NOT_FOUND';
+    } else if (
+      (errorLower.includes('column') && errorLower.includes('does not exist')) ||
+      errorLower.includes('no such column')
+    ) {
+      return 'COLUMN_NOT_FOUND';
+    } else if (
+      errorLower.includes('is ambiguous') ||
+      errorLower.includes('ambiguous column name')
+    ) {
+      return 'AMBIGUOUS_COLUMN';
+    } else if (
+      errorLower.includes('operator does not exist') ||
+      errorLower.includes('invalid input syntax')
+    ) {
+      return 'TYPE_MISMATCH';
+    } else if (errorLower.includes('group by clause')) {
+      return 'GROUPING_ERROR';
+    }
+    return 'UNKNOWN_ERROR';
+  }
+
+  private async suggest(
+    errorType: SqlErrorType,
+    query?: string,
+    datasource?: string,
+  ): Promise<string[]> {
+    switch (errorType) {
+      case 'SYNTAX_ERROR':
+        return ['Check SQL syntax for missing commas, parentheses, or quotes'];
+      case 'RELATION_NOT_FOUND': {
+        const tableNames = await this.schemaCatalog.getTableNames(datasource);
+        return [`Check table name spelling - available tables: ${tableNames.join(', ')}`];
+      }
+      case 'COLUMN_NOT_FOUND':
+      case 'AMBIGUOUS_COLUMN': {
+        const suggestions =
+          errorType === 'COLUMN_NOT_FOUND'
+            ? ['Verify column name spelling and case']
+            : ['Qualify the column with its table name or alias'];
+        return [...suggestions, ...(await this.columnsOfQueriedTables(query, datasource))];
+      }
+      case 'TYPE_MISMATCH':
+        return [
+          'Compare values of the same type; cast explicitly (e.g. CAST(x AS date)) if needed',
+        ];
+      case 'GROUPING_ERROR':
+        return ['Every selected column must be aggregated or listed in GROUP BY'];
+      case 'SAFETY_GUARD':
+        return ['Only a single read-only SELECT without denied functions is allowed'];
+      case 'POLICY_VIOLATION':
+        return ['The question needs tables or columns this role may not read'];
+      case 'COST_LIMIT':
+        return ['Narrow the query with filters, aggregate the rows, or add a LIMIT'];
+      case 'TIMEOUT':
+        return ['The query ran past the statement timeout; filter or aggregate more'];
+      default:
+        return ['Review the query for common SQL errors'];
+    }
+  }
+
+  private async columnsOfQueriedTables(query?: string, datasource?: string): Promise<string[]> {
+    if (!query) return [];
+    const { tables } = await this.schemaCatalog.getCatalog(datasource);
+    return tables
+      .filter((table) => new RegExp(`\\b${table.name}\\b`, 'i').test(query))
+      .map(
+        (table) =>
+          `Columns of ${table.name}: ${table.columns.map((column) => column.name).join(', ')}`,
+      );
+  }
+}
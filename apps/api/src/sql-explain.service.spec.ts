@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config';
+import { DatasourceRegistry } from './datasource-registry';
+import { DbService } from './db.service';
+import { LlmProvider } from './llm.provider';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { SqlExplainService } from './sql-explain.service';
+import { SqlGuardError, SqlGuardService } from './sql-guard.service';
+
+describe('SqlExplainService', () => {
+  const config = new ConfigService<AppConfig, true>({ sql: { allowWrites: false } });
+  const catalog = {
+    getCatalog: async () => ({
+      tables: [
+        { name: 'contacts', columns: [{ name: 'id' }, { name: 'first_name' }] },
+        { name: 'cases', columns: [{ name: 'id' }, { name: 'contact_id' }, { name: 'topic' }] },
+      ],
+    }),
+  } as unknown as SchemaCatalogService;
+  let invoke: jest.Mock;
+  let plan: jest.Mock;
+  let explainer: SqlExplainService;
+
+  const risks = async (sql: string) =>
+    (await explainer.explain(sql)).risks.map((risk) => risk.code);
+
+  beforeEach(() => {
+    invoke = jest.fn(async () => ({ content: '1. Reads contacts.\n2. Returns their names.' }));
+    plan = jest.fn(async () => ({ totalCost: 12, planRows: 40 }));
+    explainer = new SqlExplainService(
+      { invoke } as unknown as LlmProvider,
+      { plan } as unknown as DbService,
+      new SqlGuardService(),
+      {
+        get: () => ({ name: 'postgres', dialect: 'postgresql', schema: 'public' }),
+      } as unknown as DatasourceRegistry,
+      catalog,
+      config,
+    );
+  });
+
+  it('returns the model’s steps with the lineage and the plan', async () => {
+    const explanation = await explainer.explain(
+      'SELECT c.first_name, COUNT(*) FROM contacts c JOIN cases k ON k.contact_id = c.id ' +
+        "WHERE k.topic LIKE '%help%' GROUP BY c.first_name LIMIT 10",
+    );
+
+    expect(explanation.steps).toEqual(['Reads contacts.', 'Returns their names.']);
+    expect(explanation.lineage.tables.map((table) => table.name).sort()).toEqual([
+      'cases',
+      'contacts',
+    ]);
+    expect(explanation.lineage.joins).toHaveLength(1);
+    expect(explanation.lineage.limit).toBe(10);
+    expect(explanation.estimate).toEqual({ totalCost: 12, planRows: 40 });
+    expect(explanation.risks).toEqual([]);
+  });
+
+  it('flags a join whose condition does not compare both sides as a cross join', async () => {
+    expect(await risks('SELECT c.id FROM contacts c JOIN cases k ON 1 = 1 LIMIT 5')).toEqual([
+      'CROSS_JOIN',
+    ]);
+    expect(await risks('SELECT c.id FROM contacts c JOIN cases k ON TRUE LIMIT 5')).toEqual([
+      'CROSS_JOIN',
+    ]);
+    expect(await risks('SELECT c.id FROM contacts c JOIN cases k ON k.id > 3 LIMIT 5')).toEqual([
+      'CROSS_JOIN',
+    ]);
+    expect(await risks('SELECT c.id FROM contacts c JOIN cases k ON k.id = c.id LIMIT 5')).toEqual(
+      [],
+    );
+  });
+
+  it('flags a missing LIMIT and the full scans in the plan', async () => {
+    plan.mockResolvedValueOnce({ totalCost: 12, planRows: 40, fullScans: ['contacts'] });
+
+    expect(await risks('SELECT first_name FROM contacts')).toEqual(['NO_LIMIT', 'FULL_SCAN']);
+  });
+
+  it('describes the structure when the model fails', async () => {
+    invoke.mockRejectedValueOnce(new Error('upstream timeout'));
+
+    const { steps } = await explainer.explain('SELECT first_name FROM contacts LIMIT 5');
+
+    expect(steps).toEqual([
+      'Reads rows from contacts.',
+      'Reads the columns contacts.first_name.',
+      'Returns at most 5 rows.',
+    ]);
+  });
+
+  it('refuses SQL the guard rejects without planning it', async () => {
+    await expect(explainer.explain('DROP TABLE contacts')).rejects.toBeInstanceOf(SqlGuardError);
+    expect(plan).not.toHaveBeenCalled();
+  });
+});
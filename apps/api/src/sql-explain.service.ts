@@ -0,0 +1,474 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { Parser } from 'node-sql-parser';
+import { LLM_PROVIDER, LlmProvider } from './llm.provider';
+import { DbService } from './db.service';
+import { SqlGuardError, SqlGuardService } from './sql-guard.service';
+import { DatasourceRegistry } from './datasource-registry';
+import { DIALECT_LABELS } from './datasource';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { QueryCancelledError } from './query-run';
+import { RequestValidationError } from './errors';
+import {
+  LineageColumn,
+  LineageFilter,
+  LineageTable,
+  PlanEstimate,
+  SqlDialect,
+  SqlExplanation,
+  SqlLineage,
+  SqlRiskFlag,
+} from './types';
+import { AppConfig } from './config';
+
+const MAX_STEPS = 8;
+const STEP_PREFIX = /^\s*(?:\d+[.)]|[-*•])\s*/;
+
+// What the statement's shape says beyond the lineage, for the risk flags
+interface StatementShape {
+  lineage: SqlLineage;
+  // A SELECT that may return many rows; an aggregate without GROUP BY returns one
+  needsLimit: boolean;
+  // Tables each WHERE condition reads, to tell a comma join from a cross join
+  filterTables: Set<string>[];
+  // Per entry of lineage.joins, the sources its ON condition reads; null when
+  // there is no ON or a column's source cannot be told
+  joinSources: (Set<string> | null)[];
+  // False when only the references could be read, see analyze
+  complete: boolean;
+}
+
+/**
+ * Explains a statement for reviewers: the tables and columns it reads, its
+ * joins and filters, risk flags from its shape and its EXPLAIN plan, and
+ * plain-English steps. The model writes the steps from the SQL and those
+ * facts; when it fails, the steps are built from the facts alone. The SQL
+ * goes through the guard and the caller's access policy but is never run.
+ */
+@Injectable()
+export class SqlExplainService {
+  private readonly logger = new Logger(SqlExplainService.name);
+
+  private readonly parser = new Parser();
+
+  constructor(
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+    private readonly db: DbService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly datasources: DatasourceRegistry,
+    private readonly catalog: SchemaCatalogService,
+    private readonly config: ConfigService<AppConfig, true>,
+  ) {}
+
+  async explain(
+    sql: string,
+    options: { datasource?: string; role?: string; signal?: AbortSignal; model?: string } = {},
+  ): Promise<SqlExplanation> {
+    const text = typeof sql === 'string' ? sql.trim() : '';
+    if (!text) {
+      throw new RequestValidationError([{ field: 'sql', message: 'is required' }]);
+    }
+    const datasource = this.datasources.get(options.datasource);
+    const guard = await this.sqlGuard.validate(text, {
+      allowWrites: this.config.get('sql', { infer: true }).allowWrites,
+      datasource,
+    });
+    if (guard.allowed === false) {
+      throw new SqlGuardError(guard);
+    }
+
+    const estimate = await this.db.plan(text, { datasource: datasource.name, role: options.role });
+
+    const shape = await this.analyze(text, datasource.dialect, datasource.name);
+    const risks = [...this.shapeRisks(shape), ...this.planRisks(estimate, shape.lineage)];
+    const steps = await this.writeSteps(text, datasource.dialect, shape, options);
+    this.logger.log(
+      `Explained SQL in ${steps.length} steps${risks.length > 0 ? `, risks: ${risks.map((risk) => risk.code).join(', ')}` : ''}`,
+    );
+    return {
+      sql: text,
+      datasource: datasource.name,
+      steps,
+      lineage: shape.lineage,
+      risks,
+      estimate,
+    };
+  }
+
+  /**
+   * Reads the statement with node-sql-parser, which can print expressions back
+   * as SQL. What it cannot parse (some PostgreSQL-only syntax) falls back to
+   * the guard's references: tables and columns, without joins or filters.
+   */
+  private async analyze(
+    sql: string,
+    dialect: SqlDialect,
+    datasource: string,
+  ): Promise<StatementShape> {
+    let root: any;
+    try {
+      const ast = this.parser.astify(sql, { database: dialect });
+      root = (Array.isArray(ast) ? ast : [ast]).filter(Boolean)[0];
+    } catch (error) {
+      this.logger.warn(`Explaining from references only, the SQL did not parse: ${error.message}`);
+      // SQLite syntax only SQLite itself parses has no references either
+      const refs = await this.sqlGuard
+        .references(sql, dialect)
+        .catch(() => ({ tables: [], columns: [], ctes: [] }));
+      const ctes = new Set(refs.ctes);
+      const tables = refs.tables.filter((table) => !ctes.has(table.name));
+      return {
+        lineage: {
+          tables: this.unique(tables, (table) => `${table.schema}.${table.name}`),
+          columns: this.unique(
+            refs.columns.map((name) => ({ name })),
+            (column) => column.name,
+          ),
+          joins: [],
+          filters: [],
+          groupBy: [],
+          orderBy: [],
+        },
+        needsLimit: false,
+        filterTables: [],
+        joinSources: [],
+        complete: false,
+      };
+    }
+
+    const expr = (node: any) =>
+      this.parser
+        .exprToSQL(node, { database: dialect })
+        .replace(/["`]([A-Za-z_][A-Za-z0-9_]*)["`]/g, '$1');
+    const ctes = new Set<string>(
+      (root.with || []).map((cte: any) => String(cte.name?.value ?? cte.name).toLowerCase()),
+    );
+
+    // Every SELECT in the statement: the top level, CTEs, subqueries and UNION branches
+    const selects: any[] = [];
+    this.walk(root, (node) => {
+      if (node.type === 'select') selects.push(node);
+    });
+
+    const tables: LineageTable[] = [];
+    // Alias or table name → table; null for CTEs and subqueries
+    const sources = new Map<string, string | null>();
+    const joins: SqlLineage['joins'] = [];
+    const joinConditions: any[] = [];
+    for (const select of selects) {
+      (select.from || []).forEach((item: any, index: number) => {
+        const name = typeof item.table === 'string' ? item.table.toLowerCase() : undefined;
+        const isTable = !!name && !ctes.has(name);
+        if (isTable) {
+          tables.push({ name, schema: item.db || undefined, alias: item.as || undefined });
+          sources.set(name, name);
+        } else if (name) {
+          sources.set(name, null);
+        }
+        if (item.as) sources.set(String(item.as).toLowerCase(), isTable ? name : null);
+
+        const label = name || item.as || '(subquery)';
+        if (item.join) {
+          const condition = item.on
+            ? expr(item.on)
+            : item.using
+              ? `USING (${item.using.map((column: any) => column.value ?? column).join(', ')})`
+              : undefined;
+          joins.push({ type: String(item.join).toUpperCase(), table: label, condition });
+          joinConditions.push(item.on);
+        } else if (index > 0) {
+          joins.push({ type: 'implicit', table: label });
+          joinConditions.push(undefined);
+        }
+      });
+    }
+
+    const lineageTables = this.unique(tables, (table) => `${table.name} ${table.alias}`);
+    const baseTables = [...new Set(lineageTables.map((table) => table.name))];
+    const resolve = await this.columnResolver(baseTables, datasource);
+
+    const columns: LineageColumn[] = [];
+    const outputAliases = new Set<string>(
+      (root.columns || [])
+        .map((column: any) => (typeof column?.as === 'string' ? column.as.toLowerCase() : null))
+        .filter(Boolean),
+    );
+    const tablesOf = (node: any): Set<string> => {
+      const found = new Set<string>();
+      this.walk(node, (ref) => {
+        if (ref.type !== 'column_ref') return;
+        const column = this.columnName(ref);
+        if (!column) return;
+        const qualifier = typeof ref.table === 'string' ? ref.table.toLowerCase() : undefined;
+        // Columns of CTEs and subqueries are read from inside them
+        if (qualifier && sources.get(qualifier) === null) return;
+        const table = qualifier ? sources.get(qualifier) || qualifier : resolve(column);
+        if (!qualifier && !table && outputAliases.has(column)) return;
+        columns.push({ table, name: column });
+        if (table) found.add(table);
+      });
+      return found;
+    };
+    tablesOf(root);
+
+    // Tables, aliases, CTEs and subqueries an ON condition reads columns of
+    const sourcesOf = (node: any): Set<string> | null => {
+      const found = new Set<string>();
+      let known = true;
+      this.walk(node, (ref) => {
+        if (ref.type !== 'column_ref') return;
+        const column = this.columnName(ref);
+        if (!column) return;
+        const source = typeof ref.table === 'string' ? ref.table.toLowerCase() : resolve(column);
+        if (source) found.add(source);
+        else known = false;
+      });
+      return known ? found : null;
+    };
+    const joinSources = joinConditions.map((condition) =>
+      condition ? sourcesOf(condition) : null,
+    );
+
+    const filters: LineageFilter[] = [];
+    const filterTables: Set<string>[] = [];
+    for (const select of selects) {
+      for (const condition of this.conjuncts(select.where)) {
+        filters.push({ clause: 'where', condition: expr(condition) });
+        filterTables.push(tablesOf(condition));
+      }
+      for (const condition of this.conjuncts(select.having)) {
+        filters.push({ clause: 'having', condition: expr(condition) });
+      }
+    }
+
+    const groupBy: any[] = Array.isArray(root.groupby) ? root.groupby : root.groupby?.columns || [];
+    const limit = root.limit?.value?.[root.limit.seperator === ',' ? 1 : 0];
+    const outputs: any[] = Array.isArray(root.columns) ? root.columns : [];
+
+    return {
+      lineage: {
+        tables: lineageTables,
+        columns: this.unique(columns, (column) => `${column.table}.${column.name}`),
+        joins,
+        filters,
+        groupBy: groupBy.map(expr),
+        orderBy: (root.orderby || []).map(
+          (order: any) => `${expr(order.expr)}${order.type === 'DESC' ? ' DESC' : ''}`,
+        ),
+        limit: limit?.type === 'number' ? Number(limit.value) : undefined,
+      },
+      needsLimit:
+        root.type === 'select' &&
+        !(
+          !root._next &&
+          groupBy.length === 0 &&
+          outputs.length > 0 &&
+          outputs.every((column) => column.expr?.type === 'aggr_func')
+        ),
+      filterTables,
+      joinSources,
+      complete: true,
+    };
+  }
+
+  private shapeRisks(shape: StatementShape): SqlRiskFlag[] {
+    const { lineage } = shape;
+    const risks: SqlRiskFlag[] = [];
+    if (!shape.complete) return risks;
+
+    if (lineage.limit === undefined && shape.needsLimit) {
+      risks.push({
+        code: 'NO_LIMIT',
+        message: 'No LIMIT: every matching row is returned, up to the row cap',
+      });
+    }
+    const aliases = new Map(lineage.tables.map((table) => [table.alias || table.name, table.name]));
+    lineage.joins.forEach((join, index) => {
+      const table = aliases.get(join.table) || join.table;
+      if (join.type === 'implicit') {
+        // A comma join is fine when a WHERE condition ties the table to another one
+        const linked = shape.filterTables.some((tables) => tables.has(table) && tables.size > 1);
+        if (!linked) {
+          risks.push({
+            code: 'CROSS_JOIN',
+            message: `${join.table} is listed in FROM with no condition linking it to the other tables, so every pair of rows is combined`,
+            table,
+          });
+        }
+      } else if (
+        join.type.includes('CROSS') ||
+        (!join.condition && !join.type.includes('NATURAL'))
+      ) {
+        risks.push({
+          code: 'CROSS_JOIN',
+          message: `${join.type} ${join.table} has no join condition, so every pair of rows is combined`,
+          table,
+        });
+      } else if ((shape.joinSources[index]?.size ?? 2) < 2) {
+        // ON 1=1, ON TRUE or a condition on one side only joins like a CROSS JOIN
+        risks.push({
+          code: 'CROSS_JOIN',
+          message: `${join.type} ${join.table} ON ${join.condition} does not compare columns of both sides, so every pair of rows is combined`,
+          table,
+        });
+      }
+    });
+    return risks;
+  }
+
+  // SQLite names scans by alias, so names are matched against aliases too
+  private planRisks(estimate: PlanEstimate, lineage: SqlLineage): SqlRiskFlag[] {
+    const aliases = new Map(lineage.tables.map((table) => [table.alias || table.name, table.name]));
+    const scanned = new Set(
+      (estimate.fullScans || []).map((name) => aliases.get(name) || name.toLowerCase()),
+    );
+    return [...scanned].map((table) => ({
+      code: 'FULL_SCAN',
+      message: `The EXPLAIN plan reads all of ${table} (a full scan, no index is used)`,
+      table,
+    }));
+  }
+
+  private async writeSteps(
+    sql: string,
+    dialect: SqlDialect,
+    shape: StatementShape,
+    options: { signal?: AbortSignal; model?: string },
+  ): Promise<string[]> {
+    try {
+      const completion = await this.llm.invoke(
+        [
+          new SystemMessage(`You explain SQL statements to reviewers who do not read SQL.
+Explain the statement as numbered steps, in the order the database applies them: where the rows come from, how tables are joined, which rows are kept, how they are grouped and sorted, and what is returned.
+Use plain English, one short sentence per step, at most ${MAX_STEPS} steps. Name tables and columns as they are written in the SQL.
+Do not judge or rewrite the statement.`),
+          new HumanMessage(`${DIALECT_LABELS[dialect]} SQL:
+${sql}
+
+Facts:
+${this.describe(shape)
+  .map((fact) => `- ${fact}`)
+  .join('\n')}`),
+        ],
+        { signal: options.signal, model: options.model },
+      );
+      const steps = completion.content
+        .split('\n')
+        .map((line) => line.replace(STEP_PREFIX, '').trim())
+        .filter(Boolean)
+        .slice(0, MAX_STEPS);
+      if (steps.length > 0) return steps;
+      this.logger.warn('Model returned an empty explanation, describing the structure');
+    } catch (error) {
+      if (options.signal?.aborted) throw new QueryCancelledError();
+      this.logger.warn(`SQL explanation failed, describing the structure: ${error.message}`);
+    }
+    return this.describe(shape);
+  }
+
+  // Steps built from the lineage alone; also the facts the model is given
+  private describe({ lineage, needsLimit, complete }: StatementShape): string[] {
+    const named = (table: { name: string; alias?: string }) =>
+      table.alias && table.alias !== table.name ? `${table.name} (as ${table.alias})` : table.name;
+    const steps: string[] = [];
+    const joined = new Set(lineage.joins.map((join) => join.table));
+    const first = lineage.tables.filter(
+      (table) => !joined.has(table.alias || table.name) && !joined.has(table.name),
+    );
+    steps.push(
+      `Reads rows from ${(first.length > 0 ? first : lineage.tables).map(named).join(', ')}.`,
+    );
+    for (const join of lineage.joins) {
+      steps.push(
+        join.type === 'implicit'
+          ? `Combines them with ${join.table}, listed after a comma in FROM.`
+          : `Joins ${join.table} with a ${join.type}${join.condition ? ` on ${join.condition}` : ' and no condition'}.`,
+      );
+    }
+    const where = lineage.filters.filter((filter) => filter.clause === 'where');
+    if (where.length > 0) {
+      steps.push(`Keeps rows where ${where.map((filter) => filter.condition).join(' and ')}.`);
+    }
+    if (lineage.groupBy.length > 0) {
+      steps.push(`Groups the rows by ${lineage.groupBy.join(', ')}.`);
+    }
+    const having = lineage.filters.filter((filter) => filter.clause === 'having');
+    if (having.length > 0) {
+      steps.push(`Keeps groups where ${having.map((filter) => filter.condition).join(' and ')}.`);
+    }
+    if (lineage.orderBy.length > 0) {
+      steps.push(`Sorts by ${lineage.orderBy.join(', ')}.`);
+    }
+    const read = lineage.columns.filter((column) => column.name !== '*');
+    if (read.length > 0) {
+      steps.push(
+        `Reads the columns ${read.map((column) => (column.table ? `${column.table}.${column.name}` : column.name)).join(', ')}.`,
+      );
+    }
+    if (lineage.limit !== undefined) {
+      steps.push(`Returns at most ${lineage.limit} rows.`);
+    } else if (complete) {
+      steps.push(needsLimit ? 'Returns every matching row.' : 'Returns one row.');
+    }
+    return steps;
+  }
+
+  // Unqualified columns belong to the one table that has them, when exactly one does
+  private async columnResolver(
+    tables: string[],
+    datasource: string,
+  ): Promise<(column: string) => string | undefined> {
+    if (tables.length === 1) return () => tables[0];
+    let catalog: Map<string, Set<string>>;
+    try {
+      const { tables: known } = await this.catalog.getCatalog(datasource);
+      catalog = new Map(
+        known
+          .filter((table) => tables.includes(table.name.toLowerCase()))
+          .map((table) => [
+            table.name.toLowerCase(),
+            new Set(table.columns.map((column) => column.name.toLowerCase())),
+          ]),
+      );
+    } catch (error) {
+      this.logger.warn(`Schema catalog unavailable, columns stay unresolved: ${error.message}`);
+      return () => undefined;
+    }
+    return (column) => {
+      const owners = [...catalog].filter(([, columns]) => columns.has(column));
+      return owners.length === 1 ? owners[0][0] : undefined;
+    };
+  }
+
+  private columnName(ref: any): string | undefined {
+    const column = typeof ref.column === 'string' ? ref.column : ref.column?.expr?.value;
+    return typeof column === 'string' ? column.toLowerCase() : undefined;
+  }
+
+  // Splits a condition on its top-level ANDs
+  private conjuncts(node: any): any[] {
+    if (!node) return [];
+    if (node.type === 'binary_expr' && String(node.operator).toUpperCase() === 'AND') {
+      return [...this.conjuncts(node.left), ...this.conjuncts(node.right)];
+    }
+    return [node];
+  }
+
+  private unique<T>(items: T[], key: (item: T) => string): T[] {
+    const seen = new Map<string, T>();
+    for (const item of items) {
+      if (!seen.has(key(item))) seen.set(key(item), item);
+    }
+    return [...seen.values()];
+  }
+
+  private walk(node: any, visit: (node: any) => void): void {
+    if (Array.isArray(node)) {
+      node.forEach((item) => this.walk(item, visit));
+    } else if (node && typeof node === 'object') {
+      visit(node);
+      Object.values(node).forEach((value) => this.walk(value, visit));
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSampleDatabase } from '../test/fixture-app';
+import { guardRejections } from './metrics';
+import { SqlGuardError, SqlGuardService } from './sql-guard.service';
+import { SqliteDatasource } from './sqlite-datasource';
+import { SqlDialect, SqlGuardResult } from './types';
+
+describe('SqlGuardService', () => {
+  const guard = new SqlGuardService();
+
+  const rule = async (sql: string, dialect?: SqlDialect): Promise<string> => {
+    const result: SqlGuardResult = await guard.validate(sql, { dialect });
+    return result.allowed === false ? result.rule : 'ALLOWED';
+  };
+
+  describe('PostgreSQL', () => {
+    it('allows a single SELECT', async () => {
+      expect(await rule('SELECT id, name FROM contacts WHERE id = 1')).toBe('ALLOWED');
+      expect(await rule('WITH recent AS (SELECT id FROM contacts) SELECT * FROM recent')).toBe(
+        'ALLOWED',
+      );
+    });
+
+    it('rejects empty SQL', async () => {
+      expect(await rule('   ')).toBe('EMPTY');
+    });
+
+    it('rejects SQL that does not parse', async () => {
+      expect(await rule('SELEC * FROM contacts')).toBe('PARSE_ERROR');
+    });
+
+    it('rejects multiple statements', async () => {
+      expect(await rule('SELECT 1; DROP TABLE contacts')).toBe('MULTIPLE_STATEMENTS');
+      expect(await rule('SELECT 1; SELECT 2')).toBe('MULTIPLE_STATEMENTS');
+    });
+
+    it('rejects writes unless they are allowed', async () => {
+      expect(await rule('DELETE FROM contacts')).toBe('NOT_READ_ONLY');
+      await expect(
+        guard.validate('DELETE FROM contacts', { allowWrites: true }),
+      ).resolves.toMatchObject({ allowed: true, statementType: 'DeleteStmt' });
+    });
+
+    it('rejects writable CTEs', async () => {
+      expect(
+        await rule('WITH gone AS (DELETE FROM contacts RETURNING id) SELECT * FROM gone'),
+      ).toBe('DATA_MODIFYING_CTE');
+      expect(
+        await rule("WITH added AS (INSERT INTO cases (title) VALUES ('x') RETURNING id) SELECT 1"),
+      ).toBe('DATA_MODIFYING_CTE');
+    });
+
+    it('rejects row-locking clauses', async () => {
+      expect(await rule('SELECT * FROM contacts FOR UPDATE')).toBe('LOCKING_CLAUSE');
+      expect(await rule('SELECT * FROM contacts FOR SHARE')).toBe('LOCKING_CLAUSE');
+    });
+
+    it('rejects SELECT INTO', async () => {
+      expect(await rule('SELECT * INTO copy FROM contacts')).toBe('SELECT_INTO');
+    });
+
+    it('rejects pg_sleep and other denied functions, also nested or qualified', async () => {
+      expect(await rule('SELECT pg_sleep(10)')).toBe('DENIED_FUNCTION');
+      expect(await rule('SELECT * FROM contacts WHERE id IN (SELECT pg_catalog.pg_sleep(1))')).toBe(
+        'DENIED_FUNCTION',
+      );
+      expect(await rule("SELECT pg_read_file('/etc/passwd')")).toBe('DENIED_FUNCTION');
+      expect(await rule("SELECT query_to_xml('SELECT * FROM secrets', true, true, '')")).toBe(
+        'DENIED_FUNCTION',
+      );
+    });
+
+    it('rejects the app schema and the system catalogs', async () => {
+      expect(await rule('SELECT * FROM app.api_keys')).toBe('RESERVED_SCHEMA');
+      // Every prompt, SQL statement and caller of the query history
+      expect(await rule('SELECT prompt, sql FROM App.query_history')).toBe('RESERVED_SCHEMA');
+      expect(
+        await rule('WITH h AS (SELECT * FROM "app"."query_history") SELECT COUNT(*) FROM h'),
+      ).toBe('RESERVED_SCHEMA');
+      expect(
+        await rule('SELECT c.id FROM contacts c JOIN (SELECT * FROM app.query_sessions) s ON true'),
+      ).toBe('RESERVED_SCHEMA');
+      expect(await rule('SELECT * FROM information_schema.columns')).toBe('RESERVED_SCHEMA');
+      expect(await rule('SELECT * FROM pg_catalog.pg_roles')).toBe('RESERVED_SCHEMA');
+      // pg_catalog is on every search_path
+      expect(await rule('SELECT query FROM pg_stat_activity')).toBe('RESERVED_SCHEMA');
+      expect(await rule('SELECT * FROM public.contacts')).toBe('ALLOWED');
+    });
+
+    it('throws a SqlGuardError carrying the rule from assertSafe', async () => {
+      const error = await guard.assertSafe('SELECT pg_sleep(1)').catch((caught) => caught);
+      expect(error).toBeInstanceOf(SqlGuardError);
+      expect(error.rejection.rule).toBe('DENIED_FUNCTION');
+      expect(error.message).toBe('Guard: Function pg_sleep() is not allowed.');
+      expect(error.getStatus()).toBe(422);
+    });
+
+    it('counts rejections only when SQL was about to run', async () => {
+      const count = async () =>
+        (await guardRejections.get()).values.find((value) => value.labels.rule === 'EMPTY')
+          ?.value || 0;
+      const before = await count();
+
+      await guard.validate('');
+      expect(await count()).toBe(before);
+
+      await guard.assertSafe('').catch(() => undefined);
+      expect(await count()).toBe(before + 1);
+    });
+  });
+
+  describe('MySQL', () => {
+    it('allows a single SELECT', async () => {
+      expect(await rule('SELECT id FROM contacts LIMIT 5', 'mysql')).toBe('ALLOWED');
+    });
+
+    it('rejects SLEEP and BENCHMARK', async () => {
+      expect(await rule('SELECT SLEEP(5)', 'mysql')).toBe('DENIED_FUNCTION');
+      expect(await rule('SELECT * FROM contacts WHERE id = 1 AND sleep(5) = 0', 'mysql')).toBe(
+        'DENIED_FUNCTION',
+      );
+      expect(await rule("SELECT BENCHMARK(1000000, MD5('x'))", 'mariadb')).toBe('DENIED_FUNCTION');
+    });
+
+    it('rejects multiple statements and writes', async () => {
+      expect(await rule('SELECT 1; SELECT 2', 'mysql')).toBe('MULTIPLE_STATEMENTS');
+      expect(await rule("UPDATE contacts SET name = 'x'", 'mysql')).toBe('NOT_READ_ONLY');
+    });
+
+    it('rejects FOR UPDATE', async () => {
+      expect(await rule('SELECT * FROM contacts FOR UPDATE', 'mysql')).toBe('LOCKING_CLAUSE');
+    });
+
+    it('rejects the app schema and the system databases', async () => {
+      expect(await rule('SELECT * FROM app.api_keys', 'mysql')).toBe('RESERVED_SCHEMA');
+      expect(await rule('SELECT * FROM information_schema.tables', 'mariadb')).toBe(
+        'RESERVED_SCHEMA',
+      );
+      expect(await rule('SELECT user, host FROM mysql.user', 'mysql')).toBe('RESERVED_SCHEMA');
+    });
+  });
+
+  describe('SQLite', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sql-ai-'));
+    const datasource = new SqliteDatasource('local', createSampleDatabase(dir), false);
+    const sqlite = async (sql: string, allowWrites = false): Promise<string> => {
+      const result = await guard.validate(sql, { datasource, allowWrites });
+      return result.allowed === false ? result.rule : result.statementType;
+    };
+
+    afterAll(async () => {
+      await datasource.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('checks what node-sql-parser parses with the shared rules', async () => {
+      expect(await sqlite("SELECT COUNT(*) FROM cases WHERE topic LIKE '%help%'")).toBe(
+        'SelectStmt',
+      );
+      expect(await sqlite('SELECT load_extension(1)')).toBe('DENIED_FUNCTION');
+      expect(await sqlite('DELETE FROM contacts')).toBe('NOT_READ_ONLY');
+    });
+
+    it('lets SQLite compile the syntax node-sql-parser does not know', async () => {
+      expect(await sqlite('SELECT c.id, k.id FROM contacts c CROSS JOIN cases k')).toBe(
+        'SelectStmt',
+      );
+      expect(await sqlite('SELECT id FROM contacts EXCEPT SELECT id FROM cases')).toBe(
+        'SelectStmt',
+      );
+      expect(
+        await sqlite('SELECT * FROM contacts RIGHT JOIN cases ON contacts.id = cases.id'),
+      ).toBe('SelectStmt');
+      expect(await sqlite('SELECT id FROM contacts ORDER BY id DESC NULLS LAST')).toBe(
+        'SelectStmt',
+      );
+    });
+
+    it('applies the guard rules to the SQL SQLite compiled', async () => {
+      expect(
+        await sqlite('SELECT c.id FROM contacts c CROSS JOIN cases k; DELETE FROM cases'),
+      ).toBe('MULTIPLE_STATEMENTS');
+      expect(
+        await sqlite(
+          'DELETE FROM cases WHERE id IN (SELECT k.id FROM contacts c CROSS JOIN cases k)',
+        ),
+      ).toBe('NOT_READ_ONLY');
+      expect(await sqlite('SELECT load_extension(c.id) FROM contacts c CROSS JOIN cases k')).toBe(
+        'DENIED_FUNCTION',
+      );
+      expect(await sqlite('SELECT * FROM contacts c CROSS JOIN missing m')).toBe('PARSE_ERROR');
+      expect(await sqlite("SELECT id FROM contacts WHERE first_name ILIKE '%a%'")).toBe(
+        'PARSE_ERROR',
+      );
+    });
+
+    it('rejects the sqlite_* catalog tables', async () => {
+      expect(await sqlite('SELECT sql FROM sqlite_master')).toBe('RESERVED_SCHEMA');
+      expect(await sqlite('SELECT name FROM main.sqlite_schema')).toBe('RESERVED_SCHEMA');
+      expect(await sqlite('SELECT * FROM contacts c CROSS JOIN sqlite_master m')).toBe(
+        'RESERVED_SCHEMA',
+      );
+    });
+
+    it('rejects what node-sql-parser cannot parse without the datasource', async () => {
+      expect(await rule('SELECT c.id FROM contacts c CROSS JOIN cases k', 'sqlite')).toBe(
+        'PARSE_ERROR',
+      );
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { parse } from 'libpg-query';
+import { Parser } from 'node-sql-parser';
+import type { Datasource } from './datasource';
+import { ApiError } from './errors';
+import { guardRejections } from './metrics';
+import { SqlDialect, SqlGuardResult, SqlGuardRule, SqlReferences } from './types';
+
+// Functions that sleep, touch the server filesystem, signal backends, change
+// server state, run SQL of their own or dump tables by name (which would get
+// past access policies). Matched on the unqualified name.
+const DENIED_FUNCTIONS = new Set([
+  'pg_sleep',
+  'pg_sleep_for',
+  'pg_sleep_until',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'pg_ls_dir',
+  'pg_stat_file',
+  'pg_ls_logdir',
+  'pg_ls_waldir',
+  'pg_ls_tmpdir',
+  'pg_file_write',
+  'lo_import',
+  'lo_export',
+  'lo_from_bytea',
+  'lo_put',
+  'lo_unlink',
+  'dblink',
+  'dblink_exec',
+  'dblink_connect',
+  'dblink_send_query',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_promote',
+  'pg_switch_wal',
+  'pg_create_restore_point',
+  'pg_logical_emit_message',
+  'pg_notify',
+  'set_config',
+  'nextval',
+  'setval',
+  'pg_advisory_lock',
+  'pg_advisory_lock_shared',
+  'pg_advisory_xact_lock',
+  'pg_advisory_xact_lock_shared',
+  'pg_try_advisory_lock',
+  'pg_try_advisory_lock_shared',
+  'pg_try_advisory_xact_lock',
+  'pg_try_advisory_xact_lock_shared',
+  'query_to_xml',
+  'query_to_xmlschema',
+  'query_to_xml_and_xmlschema',
+  'cursor_to_xml',
+  'table_to_xml',
+  'table_to_xmlschema',
+  'table_to_xml_and_xmlschema',
+  'schema_to_xml',
+  'schema_to_xmlschema',
+  'schema_to_xml_and_xmlschema',
+  'database_to_xml',
+  'database_to_xmlschema',
+  'database_to_xml_and_xmlschema',
+]);
+
+const WRITE_NODES = new Set(['InsertStmt', 'UpdateStmt', 'DeleteStmt', 'MergeStmt']);
+
+// The same, for the dialects parsed with node-sql-parser
+const DIALECT_DENIED_FUNCTIONS: Partial<Record<SqlDialect, Set<string>>> = {
+  mysql: new Set([
+    'sleep',
+    'benchmark',
+    'load_file',
+    'get_lock',
+    'release_lock',
+    'release_all_locks',
+    'is_free_lock',
+    'is_used_lock',
+    'master_pos_wait',
+    'source_pos_wait',
+    'wait_for_executed_gtid_set',
+    'sys_exec',
+    'sys_eval',
+  ]),
+  sqlite: new Set(['load_extension', 'readfile', 'writefile', 'edit', 'fts3_tokenizer']),
+};
+DIALECT_DENIED_FUNCTIONS.mariadb = DIALECT_DENIED_FUNCTIONS.mysql;
+
+// Schemas generated and saved SQL may not read: the app's own tables (API
+// keys, history, sessions, ...) and the system catalogs
+const RESERVED_SCHEMAS: Record<SqlDialect, Set<string>> = {
+  postgresql: new Set(['app', 'pg_catalog', 'information_schema']),
+  mysql: new Set(['app', 'information_schema', 'mysql', 'performance_schema', 'sys']),
+  mariadb: new Set(['app', 'information_schema', 'mysql', 'performance_schema', 'sys']),
+  sqlite: new Set(),
+};
+
+// Catalog tables that live next to the user's tables, in any schema
+// (sqlite_master, sqlite_schema, sqlite_sequence, sqlite_stat1, ...)
+const RESERVED_TABLES: Partial<Record<SqlDialect, RegExp>> = {
+  sqlite: /^sqlite_/i,
+};
+
+const DIALECT_WRITE_TYPES = new Set(['insert', 'replace', 'update', 'delete']);
+
+// Leading comments, then the keyword a read-only statement starts with
+const READ_STATEMENT = /^(?:\s+|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*(?:SELECT|WITH|VALUES)\b/i;
+
+export interface SqlGuardOptions {
+  allowWrites?: boolean;
+  // PostgreSQL unless given, or taken from the datasource
+  dialect?: SqlDialect;
+  // Lets SQL that node-sql-parser rejects be checked by the engine itself (SQLite)
+  datasource?: Pick<Datasource, 'dialect' | 'prepare'>;
+}
+
+export class SqlGuardError extends ApiError {
+  constructor(public readonly rejection: Extract<SqlGuardResult, { allowed: false }>) {
+    super('GUARD_REJECTED', HttpStatus.UNPROCESSABLE_ENTITY, `Guard: ${rejection.reason}`, {
+      rule: rejection.rule,
+    });
+  }
+}
+
+/**
+ * Validates SQL with the real PostgreSQL parser (libpg_query) before it is
+ * executed; MySQL, MariaDB and SQLite go through node-sql-parser with the
+ * same rules. Only a single, read-only SELECT is accepted unless writes are
+ * explicitly allowed; dangerous functions and the app's own and system
+ * catalog schemas are rejected either way. SQLite syntax node-sql-parser
+ * does not know (aliased CROSS JOIN, EXCEPT, RIGHT JOIN, ...) is compiled by
+ * SQLite itself when the datasource is given.
+ */
+@Injectable()
+export class SqlGuardService {
+  private readonly logger = new Logger(SqlGuardService.name);
+
+  private readonly dialectParser = new Parser();
+
+  async validate(sql: string, options: SqlGuardOptions = {}): Promise<SqlGuardResult> {
+    if (!sql || !sql.trim()) {
+      return this.reject('EMPTY', 'No SQL statement was provided.');
+    }
+    const dialect = options.dialect || options.datasource?.dialect;
+    if (dialect && dialect !== 'postgresql') {
+      return this.validateDialect(sql, dialect, !!options.allowWrites, options.datasource);
+    }
+
+    let tree: any;
+    try {
+      tree = await parse(sql);
+    } catch (error) {
+      return this.reject('PARSE_ERROR', `SQL could not be parsed: ${error.message}`);
+    }
+
+    const stmts = tree.stmts || [];
+    if (stmts.length === 0) {
+      return this.reject('EMPTY', 'No SQL statement was provided.');
+    }
+    if (stmts.length > 1) {
+      return this.reject(
+        'MULTIPLE_STATEMENTS',
+        `Only a single statement is allowed, found ${stmts.length}.`,
+      );
+    }
+
+    const stmt = stmts[0].stmt;
+    const statementType = Object.keys(stmt)[0];
+
+    if (!options.allowWrites && statementType !== 'SelectStmt') {
+      return this.reject(
+        'NOT_READ_ONLY',
+        `Only SELECT statements are allowed, got ${statementType}.`,
+        statementType,
+      );
+    }
+
+    const violation = this.inspect(stmt, !options.allowWrites);
+    if (violation) {
+      return violation;
+    }
+
+    return { allowed: true, statementType };
+  }
+
+  // Returns the statement type (e.g. SelectStmt) when the SQL is allowed
+  async assertSafe(sql: string, options: SqlGuardOptions = {}): Promise<string> {
+    const result = await this.validate(sql, options);
+    if (result.allowed === false) {
+      // Only here: validate() also answers schema, explain and saved-query checks
+      guardRejections.inc({ rule: result.rule });
+      this.logger.warn(`Rejected SQL (${result.rule}): ${result.reason}`);
+      throw new SqlGuardError(result);
+    }
+    return result.statementType;
+  }
+
+  /**
+   * Tables and columns referenced anywhere in a statement that already passed
+   * validate(), for checks that need names rather than node types (PolicyService).
+   */
+  async references(sql: string, dialect: SqlDialect = 'postgresql'): Promise<SqlReferences> {
+    const refs: SqlReferences = {
+      statementType: '',
+      tables: [],
+      columns: [],
+      ctes: [],
+      aliases: [],
+    };
+    const add = (list: string[], name: unknown) => {
+      if (typeof name === 'string' && name !== '*') list.push(name.toLowerCase());
+    };
+
+    if (dialect === 'postgresql') {
+      const stmt = (await parse(sql)).stmts[0].stmt;
+      refs.statementType = Object.keys(stmt)[0];
+      this.walk(stmt, (key, node) => {
+        if (key === 'RangeVar') {
+          refs.tables.push({ schema: node.schemaname, name: String(node.relname).toLowerCase() });
+        } else if (key === 'ColumnRef') {
+          const fields = (node.fields || []).map((field: any) => field.String?.sval);
+          add(refs.columns, fields[fields.length - 1]);
+        } else if (key === 'CommonTableExpr') {
+          add(refs.ctes, node.ctename);
+        } else if (key === 'ResTarget') {
+          add(refs.aliases, node.name);
+        }
+      });
+      return refs;
+    }
+
+    const ast = this.dialectParser.astify(sql, { database: dialect });
+    const stmt = (Array.isArray(ast) ? ast : [ast]).filter(Boolean)[0];
+    const type = String(stmt.type || 'unknown');
+    refs.statementType = `${type.charAt(0).toUpperCase()}${type.slice(1)}Stmt`;
+    this.walk(stmt, (_key, node) => {
+      if (node.type === 'column_ref') {
+        add(refs.columns, typeof node.column === 'string' ? node.column : node.column?.expr?.value);
+      } else if (typeof node.table === 'string' && 'db' in node) {
+        refs.tables.push({ schema: node.db || undefined, name: node.table.toLowerCase() });
+      }
+      if (Array.isArray(node.with)) {
+        node.with.forEach((cte: any) => add(refs.ctes, cte.name?.value));
+      }
+      if (Array.isArray(node.columns)) {
+        node.columns.forEach((column: any) => add(refs.aliases, column?.as));
+      }
+    });
+    return refs;
+  }
+
+  // Positional parameters ($1, $2, ...) of a validated PostgreSQL statement, ascending
+  async parameterNumbers(sql: string): Promise<number[]> {
+    const numbers = new Set<number>();
+    this.walk((await parse(sql)).stmts[0].stmt, (key, node) => {
+      if (key === 'ParamRef') numbers.add(node.number);
+    });
+    return [...numbers].sort((a, b) => a - b);
+  }
+
+  // Calls visit for every object in the tree, with the key it was found under
+  private walk(node: any, visit: (key: string, node: any) => void, key = ''): void {
+    if (Array.isArray(node)) {
+      node.forEach((item) => this.walk(item, visit, key));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    visit(key, node);
+    for (const [childKey, value] of Object.entries(node)) {
+      this.walk(value, visit, childKey);
+    }
+  }
+
+  private validateDialect(
+    sql: string,
+    dialect: SqlDialect,
+    allowWrites: boolean,
+    datasource?: SqlGuardOptions['datasource'],
+  ): SqlGuardResult {
+    let ast: any;
+    try {
+      ast = this.dialectParser.astify(sql, { database: dialect });
+    } catch (error) {
+      if (datasource?.prepare) {
+        return this.validatePrepared(
+          sql,
+          dialect,
+          allowWrites,
+          datasource.prepare.bind(datasource),
+        );
+      }
+      return this.reject('PARSE_ERROR', `SQL could not be parsed: ${error.message}`);
+    }
+
+    const stmts = (Array.isArray(ast) ? ast : [ast]).filter(Boolean);
+    if (stmts.length === 0) {
+      return this.reject('EMPTY', 'No SQL statement was provided.');
+    }
+    if (stmts.length > 1) {
+      return this.reject(
+        'MULTIPLE_STATEMENTS',
+        `Only a single statement is allowed, found ${stmts.length}.`,
+      );
+    }
+
+    // Same names as libpg_query, so callers can keep checking for SelectStmt
+    const type = String(stmts[0].type || 'unknown');
+    const statementType = `${type.charAt(0).toUpperCase()}${type.slice(1)}Stmt`;
+    if (!allowWrites && statementType !== 'SelectStmt') {
+      return this.reject(
+        'NOT_READ_ONLY',
+        `Only SELECT statements are allowed, got ${statementType}.`,
+        statementType,
+      );
+    }
+
+    const violation = this.inspectDialect(stmts[0], dialect, !allowWrites, true);
+    return violation || { allowed: true, statementType };
+  }
+
+  /**
+   * The engine compiles the statement without running it: that catches syntax
+   * errors and more than one statement, and tells reads from writes. Function
+   * names are matched on the text, as there is no tree to walk.
+   */
+  private validatePrepared(
+    sql: string,
+    dialect: SqlDialect,
+    allowWrites: boolean,
+    prepare: NonNullable<Datasource['prepare']>,
+  ): SqlGuardResult {
+    let statement: ReturnType<typeof prepare>;
+    try {
+      statement = prepare(sql);
+    } catch (error) {
+      if (/more than one statement/i.test(error.message)) {
+        return this.reject('MULTIPLE_STATEMENTS', 'Only a single statement is allowed.');
+      }
+      return this.reject('PARSE_ERROR', `SQL could not be parsed: ${error.message}`);
+    }
+
+    const read = statement.reader && statement.readonly && READ_STATEMENT.test(sql);
+    if (!allowWrites && !read) {
+      return this.reject('NOT_READ_ONLY', 'Only SELECT statements are allowed.');
+    }
+    for (const name of DIALECT_DENIED_FUNCTIONS[dialect] || []) {
+      if (new RegExp(`\\b${name}\\s*\\(`, 'i').test(sql)) {
+        return this.reject('DENIED_FUNCTION', `Function ${name}() is not allowed.`, name);
+      }
+    }
+    const reserved = RESERVED_TABLES[dialect];
+    const table = reserved && sql.match(/\b\w+\b/g)?.find((word) => reserved.test(word));
+    if (table) {
+      return this.reject('RESERVED_SCHEMA', `Table ${table} is not readable.`, table);
+    }
+    return { allowed: true, statementType: read ? 'SelectStmt' : 'UnknownStmt' };
+  }
+
+  private inspectDialect(
+    node: any,
+    dialect: SqlDialect,
+    readOnly: boolean,
+    root = false,
+  ): SqlGuardResult | null {
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        const violation = this.inspectDialect(item, dialect, readOnly);
+        if (violation) return violation;
+      }
+      return null;
+    }
+    if (!node || typeof node !== 'object') {
+      return null;
+    }
+
+    if (readOnly && !root && DIALECT_WRITE_TYPES.has(node.type)) {
+      return this.reject(
+        'DATA_MODIFYING_CTE',
+        `Data-modifying statements are not allowed inside a query (${node.type}).`,
+        node.type,
+      );
+    }
+    if (readOnly && (node.locking_read || node.for_update)) {
+      return this.reject(
+        'LOCKING_CLAUSE',
+        'Row-locking clauses (FOR UPDATE/SHARE) are not allowed.',
+      );
+    }
+    if (readOnly && node.into?.keyword) {
+      return this.reject(
+        'SELECT_INTO',
+        'SELECT INTO writes outside the result and is not allowed.',
+      );
+    }
+    if (
+      typeof node.table === 'string' &&
+      (RESERVED_SCHEMAS[dialect].has(String(node.db).toLowerCase()) ||
+        RESERVED_TABLES[dialect]?.test(node.table))
+    ) {
+      const qualified = (node.db ? `${node.db}.${node.table}` : node.table).toLowerCase();
+      return this.reject('RESERVED_SCHEMA', `Table ${qualified} is not readable.`, qualified);
+    }
+    if (node.type === 'function') {
+      const parts = (node.name?.name || []).map((part: any) => part.value);
+      const name = String(parts[parts.length - 1] || '').toLowerCase();
+      if (DIALECT_DENIED_FUNCTIONS[dialect]?.has(name)) {
+        return this.reject('DENIED_FUNCTION', `Function ${name}() is not allowed.`, name);
+      }
+    }
+
+    for (const value of Object.values(node)) {
+      const violation = this.inspectDialect(value, dialect, readOnly);
+      if (violation) return violation;
+    }
+    return null;
+  }
+
+  private inspect(node: any, readOnly: boolean): SqlGuardResult | null {
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        const violation = this.inspect(item, readOnly);
+        if (violation) return violation;
+      }
+      return null;
+    }
+    if (!node || typeof node !== 'object') {
+      return null;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (readOnly && WRITE_NODES.has(key)) {
+        return this.reject(
+          'DATA_MODIFYING_CTE',
+          `Data-modifying statements are not allowed inside a query (${key}).`,
+          key,
+        );
+      }
+      if (readOnly && key === 'lockingClause') {
+        return this.reject(
+          'LOCKING_CLAUSE',
+          'Row-locking clauses (FOR UPDATE/SHARE) are not allowed.',
+        );
+      }
+      if (readOnly && key === 'intoClause') {
+        return this.reject('SELECT_INTO', 'SELECT INTO creates a table and is not allowed.');
+      }
+      if (key === 'RangeVar') {
+        const violation = this.inspectRelation(value);
+        if (violation) return violation;
+      }
+      if (key === 'FuncCall') {
+        const name = this.functionName(value);
+        if (DENIED_FUNCTIONS.has(name)) {
+          return this.reject('DENIED_FUNCTION', `Function ${name}() is not allowed.`, name);
+        }
+      }
+
+      const violation = this.inspect(value, readOnly);
+      if (violation) return violation;
+    }
+    return null;
+  }
+
+  // pg_catalog is searched first even when the name is not qualified
+  private inspectRelation(rangeVar: any): SqlGuardResult | null {
+    const schema = String(rangeVar.schemaname || '').toLowerCase();
+    const name = String(rangeVar.relname || '').toLowerCase();
+    if (RESERVED_SCHEMAS.postgresql.has(schema) || (!schema && name.startsWith('pg_'))) {
+      const qualified = schema ? `${schema}.${name}` : name;
+      return this.reject('RESERVED_SCHEMA', `Table ${qualified} is not readable.`, qualified);
+    }
+    return null;
+  }
+
+  private functionName(funcCall: any): string {
+    const parts = (funcCall?.funcname || []).map((part: any) => part.String?.sval);
+    return String(parts[parts.length - 1] || '').toLowerCase();
+  }
+
+  private reject(rule: SqlGuardRule, reason: string, detail?: string): SqlGuardResult {
+    return { allowed: false, rule, reason, detail };
+  }
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const traces = new AsyncLocalStorage<string[]>();
+
+/**
+ * Runs `fn` collecting, in order, every generated statement checked by
+ * DbService.checkCost inside it, so the query history has the SQL of runs
+ * that failed as well.
+ */
+export async function traceGeneratedSql<T>(fn: () => Promise<T>, statements: string[]): Promise<T> {
+  return await traces.run(statements, fn);
+}
+
+// Called by DbService.checkCost; a no-op outside traceGeneratedSql
+export function recordGeneratedSql(sql: string): void {
+  const statements = traces.getStore();
+  if (statements && statements[statements.length - 1] !== sql) {
+    statements.push(sql);
+  }
+}
@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatasourceRunOptions } from './datasource';
+import { createSampleDatabase } from '../test/fixture-app';
+import { SqliteDatasource } from './sqlite-datasource';
+
+describe('SqliteDatasource', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'sql-ai-'));
+  const datasource = new SqliteDatasource('local', createSampleDatabase(dir), false);
+
+  const options = (timeoutMs: number, maxRows = 100): DatasourceRunOptions => ({
+    params: [],
+    limits: { timeoutMs, maxRows, maxPlanCost: 1e6, maxPlanRows: 1e6 },
+    batchSize: 50,
+    statementType: 'SelectStmt',
+    allowWrites: false,
+  });
+  const read = async (sql: string, runOptions = options(5000)) => {
+    const rows: any[] = [];
+    const batches: number[] = [];
+    let columns: string[] = [];
+    const result = await datasource.run(sql, runOptions, async (batch, batchColumns) => {
+      rows.push(...batch);
+      batches.push(batch.length);
+      columns = batchColumns.map((column) => column.name);
+    });
+    return { ...result, rows, batches, columns };
+  };
+
+  afterAll(async () => {
+    await datasource.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads rows up to the row cap', async () => {
+    const result = await read('SELECT id FROM contacts ORDER BY id', options(5000, 10));
+
+    expect(result.rows).toHaveLength(10);
+    expect(result.rows[0]).toEqual({ id: 1 });
+    expect(result.truncated).toBe(true);
+  });
+
+  it('streams rows in batches', async () => {
+    const result = await read('SELECT id FROM contacts ORDER BY id LIMIT 120', options(5000, 200));
+
+    expect(result.batches).toEqual([50, 50, 20]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('stops reading when onBatch returns false', async () => {
+    const batches: number[] = [];
+    const result = await datasource.run(
+      'SELECT id FROM contacts ORDER BY id',
+      options(5000),
+      async (batch) => {
+        batches.push(batch.length);
+        return false;
+      },
+    );
+
+    expect(batches).toEqual([50]);
+    expect(result.rowCount).toBe(50);
+    // The reader is free for the next query
+    expect((await read('SELECT COUNT(*) AS n FROM cases')).rows).toHaveLength(1);
+  });
+
+  it('skips to the offset of a join that selects duplicate column names', async () => {
+    const result = await read(
+      'SELECT * FROM contacts c JOIN cases k ON k.id = c.id ORDER BY c.id',
+      {
+        ...options(5000, 2),
+        offset: 3,
+      },
+    );
+
+    expect(result.columns.filter((name) => name === 'id')).toHaveLength(2);
+    expect(result.rows.map((row) => row.id)).toEqual([4, 5]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('stops a single long-running step at the statement timeout', async () => {
+    // One aggregate step that never yields a row
+    const endless =
+      'WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n';
+    const startedAt = Date.now();
+
+    await expect(read(endless, options(300))).rejects.toThrow('statement timeout (300 ms)');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    // A new reader takes the killed one's place
+    expect((await read('SELECT id FROM contacts ORDER BY id', options(5000, 1))).rows).toEqual([
+      { id: 1 },
+    ]);
+  });
+
+  it('compiles SQL without running it', () => {
+    expect(datasource.prepare('SELECT * FROM contacts c CROSS JOIN cases k')).toEqual({
+      reader: true,
+      readonly: true,
+    });
+    expect(datasource.prepare('DELETE FROM contacts')).toEqual({ reader: false, readonly: false });
+    expect(() => datasource.prepare('SELECT * FROM missing')).toThrow('no such table');
+  });
+});
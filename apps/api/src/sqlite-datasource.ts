@@ -0,0 +1,305 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { types } from 'pg';
+import { ChildProcess, spawn } from 'child_process';
+import {
+  BatchHandler,
+  Datasource,
+  DatasourceRunOptions,
+  PreparedStatementInfo,
+} from './datasource';
+import { CatalogTable, PlanEstimate, QueryLimits } from './types';
+
+const { INT8, FLOAT8, NUMERIC, TEXT } = types.builtins;
+
+// SQLite type affinity (https://www.sqlite.org/datatype3.html#determination_of_column_affinity)
+function affinityOid(declaredType: string | null): number {
+  const type = (declaredType || '').toUpperCase();
+  if (type.includes('INT')) return INT8;
+  if (/CHAR|CLOB|TEXT/.test(type) || type === '' || type.includes('BLOB')) return TEXT;
+  if (/REAL|FLOA|DOUB/.test(type)) return FLOAT8;
+  return NUMERIC;
+}
+
+// Reads SELECTs on a read-only connection of its own, one batch at a time:
+// after each batch it waits for the parent to ask for more
+const READER_SOURCE = `
+const { createHash } = require('crypto');
+let db = null;
+let next = null;
+const open = (driver, path) => {
+  db = new (require(driver))(path, { readonly: true, fileMustExist: true });
+  db.function('md5', { deterministic: true }, (value) =>
+    value === null ? null : createHash('md5').update(String(value)).digest('hex'),
+  );
+  return db;
+};
+process.on('message', (message) => {
+  if (message.sql === undefined) next(message.more);
+  else read(message);
+});
+async function read({ driver, path, sql, params, offset, maxRows, batchSize }) {
+  try {
+    let skipped = 0;
+    let rowCount = 0;
+    let truncated = false;
+    let batch = [];
+    for (const row of (db || open(driver, path)).prepare(sql).iterate(...params)) {
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      if (rowCount === maxRows) {
+        truncated = true;
+        break;
+      }
+      batch.push(row);
+      rowCount++;
+      if (batch.length === batchSize) {
+        process.send({ rows: batch });
+        batch = [];
+        if (!(await new Promise((resolve) => (next = resolve)))) break;
+      }
+    }
+    process.send({ rows: batch, done: true, rowCount, truncated });
+  } catch (error) {
+    process.send({ error: { message: error.message, code: error.code } });
+  }
+}
+`;
+
+/**
+ * A child process running READER_SOURCE. Idle readers are kept for the next
+ * SELECT; one that is killed at the statement timeout is not reused.
+ */
+class SqliteReader {
+  private readonly child: ChildProcess;
+  private pending: { resolve(message: any): void; reject(error: Error): void } | null = null;
+  private exited = false;
+
+  constructor() {
+    this.child = spawn(process.execPath, ['-e', READER_SOURCE], {
+      stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
+      serialization: 'advanced',
+    });
+    // Idle readers do not keep the process alive; a pending request has its timer
+    this.child.unref();
+    this.child.channel?.unref();
+    this.child.on('message', (message) => {
+      const pending = this.pending;
+      this.pending = null;
+      pending?.resolve(message);
+    });
+    this.child.on('error', (error) => this.fail(error));
+    this.child.once('exit', (code) => {
+      this.exited = true;
+      this.fail(new Error(`SQLite reader stopped with exit code ${code}`));
+    });
+  }
+
+  get usable(): boolean {
+    return !this.exited;
+  }
+
+  // Sends a message and waits for the next reply; null if the reader was killed at the deadline
+  request(message: object, timeoutMs: number): Promise<any | null> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        this.kill();
+        resolve(null);
+      }, timeoutMs);
+      this.pending = {
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      this.child.send(message);
+    });
+  }
+
+  kill(): void {
+    this.exited = true;
+    this.child.kill('SIGKILL');
+  }
+
+  private fail(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+}
+
+/**
+ * A local SQLite file, meant for tests and small datasets. The file is opened
+ * read-only unless ALLOW_WRITE_SQL=true. better-sqlite3 is synchronous and
+ * cannot interrupt a statement, and a worker thread cannot be stopped inside
+ * SQLite either, so SELECTs run in child processes that are killed at the
+ * statement timeout, even in the middle of a big sort. Rows come back in
+ * batches, and the child reads the next batch only when asked for it.
+ */
+export class SqliteDatasource implements Datasource {
+  readonly driver = 'sqlite';
+  readonly dialect = 'sqlite';
+  readonly schema = 'main';
+  private readonly db: Database.Database;
+  private readonly readers: SqliteReader[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly path: string,
+    allowWrites: boolean,
+  ) {
+    this.db = new Database(path, {
+      readonly: !allowWrites,
+      fileMustExist: true,
+    });
+    // SQLite has no md5(); the 'hash' column mask needs it
+    this.db.function('md5', { deterministic: true }, (value: unknown) =>
+      value === null ? null : createHash('md5').update(String(value)).digest('hex'),
+    );
+  }
+
+  // SQLite has no cost model; planning still catches unknown tables and columns
+  async estimate(sql: string, params: any[] = []): Promise<PlanEstimate> {
+    const steps = this.db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all(...params) as {
+      detail: string;
+    }[];
+    // "SCAN k" or "SCAN TABLE cases AS k"; a scan USING an index is not a table scan
+    const fullScans = steps
+      .map((step) => /^SCAN (?:TABLE )?(\S+)(?: AS \S+)?$/.exec(step.detail)?.[1])
+      .filter(Boolean);
+    return { totalCost: 0, fullScans: [...new Set(fullScans)] };
+  }
+
+  // SQLite's own parser, for the syntax node-sql-parser does not know
+  prepare(sql: string): PreparedStatementInfo {
+    const { reader, readonly } = this.db.prepare(sql);
+    return { reader, readonly };
+  }
+
+  async run(
+    sql: string,
+    options: DatasourceRunOptions,
+    onBatch: BatchHandler,
+  ): Promise<{ rowCount: number; truncated: boolean }> {
+    const { params, limits, batchSize } = options;
+    const statement = this.db.prepare(sql);
+    if (!statement.reader) {
+      this.db.transaction(() => statement.run(...params))();
+      await onBatch([], []);
+      return { rowCount: 0, truncated: false };
+    }
+
+    const columns = statement
+      .columns()
+      .map((column) => ({ name: column.name, dataTypeID: affinityOid(column.type) }));
+    const reader = this.readers.pop() || new SqliteReader();
+    try {
+      return await this.read(
+        reader,
+        {
+          driver: require.resolve('better-sqlite3'),
+          path: this.path,
+          sql,
+          params,
+          offset: options.offset || 0,
+          maxRows: limits.maxRows,
+          batchSize,
+        },
+        limits,
+        (rows) => onBatch(rows, columns),
+      );
+    } finally {
+      if (reader.usable) this.readers.push(reader);
+    }
+  }
+
+  // The statement timeout counts the time the reader works, not the time onBatch takes
+  private async read(
+    reader: SqliteReader,
+    query: object,
+    limits: QueryLimits,
+    onBatch: (rows: any[]) => Promise<boolean | void>,
+  ): Promise<{ rowCount: number; truncated: boolean }> {
+    let remainingMs = limits.timeoutMs;
+    const request = async (message: object) => {
+      const startedAt = Date.now();
+      const reply = await reader.request(message, remainingMs);
+      remainingMs -= Date.now() - startedAt;
+      if (!reply) {
+        throw new Error(`SQLite query cancelled by statement timeout (${limits.timeoutMs} ms)`);
+      }
+      if (reply.error) throw Object.assign(new Error(reply.error.message), reply.error);
+      return reply;
+    };
+
+    let reply = await request(query);
+    while (!reply.done) {
+      const more = (await onBatch(reply.rows)) !== false;
+      reply = await request({ more });
+      if (!more) return { rowCount: reply.rowCount, truncated: reply.truncated };
+    }
+    await onBatch(reply.rows);
+    return { rowCount: reply.rowCount, truncated: reply.truncated };
+  }
+
+  async introspect(): Promise<CatalogTable[]> {
+    const relations = this.db
+      .prepare(
+        `SELECT name, type FROM sqlite_master
+         WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+         ORDER BY name`,
+      )
+      .all() as { name: string; type: 'table' | 'view' }[];
+
+    return relations.map((relation) => {
+      const columns = this.db.prepare('SELECT * FROM pragma_table_info(?)').all(relation.name) as {
+        name: string;
+        type: string;
+        notnull: number;
+        dflt_value: string | null;
+        pk: number;
+      }[];
+      const foreignKeys = this.db
+        .prepare('SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq')
+        .all(relation.name) as { id: number; table: string; from: string; to: string | null }[];
+
+      const byId = new Map<number, typeof foreignKeys>();
+      for (const fk of foreignKeys) {
+        byId.set(fk.id, [...(byId.get(fk.id) || []), fk]);
+      }
+      return {
+        name: relation.name,
+        type: relation.type,
+        columns: columns.map((column) => ({
+          name: column.name,
+          dataType: column.type || 'ANY',
+          nullable: !column.notnull,
+          defaultValue: column.dflt_value ?? undefined,
+        })),
+        primaryKey: columns
+          .filter((column) => column.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map((column) => column.name),
+        foreignKeys: [...byId.entries()].map(([id, parts]) => ({
+          name: `${relation.name}_fk_${id}`,
+          columns: parts.map((part) => part.from),
+          referencedTable: parts[0].table,
+          // A missing `to` means the referenced table's primary key
+          referencedColumns: parts.map((part) => part.to).filter(Boolean),
+        })),
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    this.readers.splice(0).forEach((reader) => reader.kill());
+    this.db.close();
+  }
+}
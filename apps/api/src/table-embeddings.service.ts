@@ -1,73 +1,127 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { DbService } from './db.service';
-import { PineconeService } from './pinecone.service';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SchemaCatalogService } from './schema-catalog.service';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from './embedding.provider';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { VectorStoreError } from './errors';
+import { ColumnMatch, TableMatch, VectorRecord } from './types';
 
-interface TableInfo {
-  name: string;
-  description?: string;
-}
+const TABLE_NAMESPACE = 'tables';
+const COLUMN_NAMESPACE = 'columns';
 
 @Injectable()
 export class TableEmbeddingsService {
   private readonly logger = new Logger(TableEmbeddingsService.name);
 
   constructor(
-    private readonly db: DbService,
-    private readonly pinecone: PineconeService,
+    private readonly schemaCatalog: SchemaCatalogService,
+    @Inject(VECTOR_STORE) private readonly vectorStore: VectorStore,
+    @Inject(EMBEDDING_PROVIDER) private readonly embeddings: EmbeddingProvider,
   ) {}
 
-  async getTablesFromDatabase(): Promise<TableInfo[]> {
-    try {
-      const sql = `
-        SELECT 
-          table_name as name,
-          COALESCE(
-            obj_description(c.oid),
-            'Table: ' || table_name
-          ) as description
-        FROM information_schema.tables t
-        LEFT JOIN pg_class c ON c.relname = t.table_name
-        LEFT JOIN pg_namespace n ON n.oid = c.relnamespace
-        WHERE table_schema = 'public' 
-        AND table_type = 'BASE TABLE'
-        ORDER BY table_name;
-      `;
-      
-      const tables = await this.db.execSelect<TableInfo>(sql);
-      this.logger.log(`Found ${tables.length} tables in database`);
-      return tables;
-    } catch (error) {
-      this.logger.error('Error fetching tables from database:', error.message);
-      return [];
-    }
-  }
-
   async initializeEmbeddings(): Promise<void> {
     try {
-      await this.pinecone.initialize();
-      const tables = await this.getTablesFromDatabase();
-      
+      const { tables } = await this.schemaCatalog.refresh();
+
       if (tables.length === 0) {
         this.logger.warn('No tables found in database');
         return;
       }
 
-      await this.pinecone.upsertTableEmbeddings(tables);
-      this.logger.log(`Successfully created embeddings for ${tables.length} tables`);
+      // One vector per table (name + description), one per column (table, name, type, comment)
+      const tableTexts = tables.map((table) =>
+        `${table.name} ${table.comment || `Table: ${table.name}`}`.trim(),
+      );
+      const columns = tables.flatMap((table) =>
+        table.columns.map((column) => ({ table: table.name, column })),
+      );
+      const columnTexts = columns.map(({ table, column }) =>
+        `${table} ${column.name} ${column.dataType} ${column.comment || ''}`.trim(),
+      );
+
+      const tableValues = await this.embeddings.embedMany(tableTexts);
+      const columnValues = await this.embeddings.embedMany(columnTexts);
+
+      const tableRecords: VectorRecord[] = tables.map((table, i) => ({
+        id: table.name,
+        values: tableValues[i],
+        metadata: { tableName: table.name, description: table.comment || `Table: ${table.name}` },
+      }));
+      const columnRecords: VectorRecord[] = columns.map(({ table, column }, i) => ({
+        id: `${table}.${column.name}`,
+        values: columnValues[i],
+        metadata: {
+          tableName: table,
+          columnName: column.name,
+          dataType: column.dataType,
+          description: column.comment || '',
+        },
+      }));
+
+      await this.replaceNamespace(TABLE_NAMESPACE, tableRecords);
+      await this.replaceNamespace(COLUMN_NAMESPACE, columnRecords);
+      this.logger.log(
+        `Successfully created embeddings for ${tableRecords.length} tables and ${columnRecords.length} columns`,
+      );
     } catch (error) {
       this.logger.error('Error initializing embeddings:', error.message);
-      throw error;
+      throw VectorStoreError.from(error);
     }
   }
 
-  async findBestTableMatch(query: string, topK: number = 5) {
+  async findBestTableMatch(query: string, topK: number = 5): Promise<TableMatch[]> {
     try {
-      const matches = await this.pinecone.searchSimilarTables(query, topK);
+      const vector = await this.embeddings.embed(query);
+      const results = await this.vectorStore.query(vector, { topK, namespace: TABLE_NAMESPACE });
+      const matches = results.map((match) => ({
+        id: match.id,
+        score: match.score,
+        metadata: {
+          tableName: match.metadata.tableName as string,
+          description: match.metadata.description as string,
+        },
+      }));
       this.logger.log(`Found ${matches.length} table matches for query: "${query}"`);
       return matches;
     } catch (error) {
       this.logger.error('Error searching for table matches:', error.message);
-      throw error;
+      throw VectorStoreError.from(error);
     }
   }
-}
\ No newline at end of file
+
+  async findBestColumnMatch(query: string, topK: number = 10): Promise<ColumnMatch[]> {
+    try {
+      const vector = await this.embeddings.embed(query);
+      const results = await this.vectorStore.query(vector, { topK, namespace: COLUMN_NAMESPACE });
+      const matches = results.map((match) => ({
+        id: match.id,
+        score: match.score,
+        metadata: {
+          tableName: match.metadata.tableName as string,
+          columnName: match.metadata.columnName as string,
+          dataType: match.metadata.dataType as string,
+          description: match.metadata.description as string,
+        },
+      }));
+      this.logger.log(`Found ${matches.length} column matches for query: "${query}"`);
+      return matches;
+    } catch (error) {
+      this.logger.error('Error searching for column matches:', error.message);
+      throw VectorStoreError.from(error);
+    }
+  }
+
+  // Upserts the new records, then drops vectors for tables/columns that no longer exist
+  private async replaceNamespace(namespace: string, records: VectorRecord[]): Promise<void> {
+    await this.vectorStore.upsert(records, namespace);
+    try {
+      const current = new Set(records.map((record) => record.id));
+      const stale = (await this.vectorStore.list({ namespace })).filter((id) => !current.has(id));
+      if (stale.length > 0) {
+        await this.vectorStore.delete(stale, namespace);
+        this.logger.log(`Removed ${stale.length} stale vectors from '${namespace}'`);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not prune stale vectors from '${namespace}': ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Attributes, Span, SpanStatusCode, trace } from '@opentelemetry/api';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { AppConfig } from './config';
+
+const tracer = trace.getTracer('sql-ai-api');
+
+/**
+ * Exports spans over OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT (or
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set; the exporter reads the rest
+ * of the standard OTEL_EXPORTER_OTLP_* variables itself. Without it spans
+ * are no-ops. Called from main.ts before the app starts listening.
+ */
+export function startTracing(tracing: AppConfig['tracing']): NodeTracerProvider | undefined {
+  if (!tracing.otlpEndpoint) {
+    return undefined;
+  }
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': tracing.serviceName }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  return provider;
+}
+
+// Runs `fn` in a span under the current one; a thrown error marks the span and is rethrown
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
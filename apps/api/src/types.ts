@@ -1,4 +1,18 @@
-export type Nl2SqlResult = { sql: string };
+export type Nl2SqlResult = {
+  sql: string;
+  linkedTables?: LinkedTable[];
+  examples?: FewShotExample[];
+};
+
+export type DirectQueryResult = Nl2SqlResult & {
+  rows: any[];
+  truncated: boolean;
+  rowLimit: number;
+  page: PageInfo;
+  attempts: SqlAttempt[];
+  answer?: string;
+  explanation?: SqlExplanation;
+};
 
 export type ReactQueryResult = {
   sql: string[];
@@ -7,10 +21,182 @@ export type ReactQueryResult = {
   rows: any[];
   iterations: number;
   success: boolean;
+  // Why the run failed: the last sql-query error, when none succeeded
+  error?: string;
+  linkedTables?: LinkedTable[];
+  examples?: FewShotExample[];
+  truncated?: boolean;
+  rowLimit?: number;
+  page?: PageInfo;
+  // The agent's own closing message
+  finalAnswer?: string;
+  // Answer synthesized from the rows, see AnswerSynthesisService
+  answer?: string;
+  // Explanation of the last statement, when the request asked for one
+  explanation?: SqlExplanation;
 };
 
 export type QueryMode = 'direct' | 'react';
 
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'markdown' | 'xlsx';
+
+export interface QueryRequest {
+  prompt: string;
+  mode?: QueryMode;
+  sessionId?: string;
+  // Tighten the configured statement timeout and row cap for this request
+  timeoutMs?: number;
+  maxRows?: number;
+  // Rows per page, up to the row cap (default PAGE_SIZE)
+  pageSize?: number;
+  // Same as ?format= or the Accept header
+  format?: ExportFormat;
+  // Natural-language answer next to the rows (default ANSWER_SYNTHESIS_ENABLED)
+  answer?: boolean;
+  // Name from GET /api/datasources (default DEFAULT_DATASOURCE)
+  datasource?: string;
+  // Answers to earlier clarification questions about this prompt
+  clarifications?: ClarificationAnswer[];
+  // Explain the SQL that ran, see SqlExplainService
+  explain?: boolean;
+  // One of LLM_ALLOWED_MODELS (default OPENAI_MODEL)
+  model?: string;
+  // ReAct iterations, up to REACT_MAX_ITERATIONS
+  maxIterations?: number;
+}
+
+// Request fields an administrator lets callers set, see QUERY_OVERRIDES
+export type QueryOverride = 'model' | 'maxIterations' | 'maxRows' | 'timeoutMs' | 'answer';
+
+export interface ExplainRequest {
+  sql: string;
+  datasource?: string;
+}
+
+export interface LineageTable {
+  name: string;
+  schema?: string;
+  alias?: string;
+}
+
+export interface LineageColumn {
+  // Unset when the column could not be tied to one table
+  table?: string;
+  name: string;
+}
+
+export interface LineageJoin {
+  // e.g. LEFT JOIN, CROSS JOIN; "implicit" for a comma in FROM
+  type: string;
+  table: string;
+  condition?: string;
+}
+
+export interface LineageFilter {
+  clause: 'where' | 'having';
+  condition: string;
+}
+
+export interface SqlLineage {
+  tables: LineageTable[];
+  columns: LineageColumn[];
+  joins: LineageJoin[];
+  // One entry per AND-ed condition
+  filters: LineageFilter[];
+  groupBy: string[];
+  orderBy: string[];
+  limit?: number;
+}
+
+export type SqlRiskCode = 'NO_LIMIT' | 'CROSS_JOIN' | 'FULL_SCAN';
+
+export interface SqlRiskFlag {
+  code: SqlRiskCode;
+  message: string;
+  table?: string;
+}
+
+export interface SqlExplanation {
+  sql: string;
+  datasource: string;
+  // Plain-English steps, in the order the database applies them
+  steps: string[];
+  lineage: SqlLineage;
+  risks: SqlRiskFlag[];
+  estimate: PlanEstimate;
+}
+
+export type ClarificationReason = 'entity' | 'time_range' | 'column';
+
+// What the model asks instead of guessing at an ambiguous question
+export interface Clarification {
+  question: string;
+  reason: ClarificationReason;
+  options: string[];
+}
+
+export interface ClarificationAnswer {
+  question: string;
+  // One of the options, or the client's own words
+  answer: string;
+}
+
+// Returned by /api/query in place of rows; send the prompt again with the answer added
+export interface ClarificationResult {
+  prompt: string;
+  clarification: Clarification;
+  clarifications: ClarificationAnswer[];
+  sessionId?: string;
+}
+
+export interface PageRequest {
+  // nextPageToken from a previous response
+  pageToken: string;
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+export interface MatchRequest {
+  table: string;
+  topK?: number;
+}
+
+// Stable, machine-readable error codes, see errors.ts
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'GUARD_REJECTED'
+  | 'POLICY_VIOLATION'
+  | 'COST_LIMIT_EXCEEDED'
+  | 'SQL_EXECUTION_FAILED'
+  | 'DATABASE_UNAVAILABLE'
+  | 'LLM_UPSTREAM_FAILED'
+  | 'VECTOR_STORE_FAILED'
+  | 'CLARIFICATION_NEEDED'
+  | 'RATE_LIMITED'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'GONE'
+  | 'UNPROCESSABLE'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
+export interface FieldError {
+  // Dotted path into the body, e.g. clarifications.0.answer
+  field: string;
+  message: string;
+}
+
+// Body of every error response; details (rule, attempts, errors, ...) sit next to these
+export interface ApiErrorBody {
+  statusCode: number;
+  code: ApiErrorCode;
+  message: string;
+  [detail: string]: unknown;
+}
+
 export interface TableMatch {
   id: string;
   score: number;
@@ -19,3 +205,560 @@ export interface TableMatch {
     description?: string;
   };
 }
+
+export interface ColumnMatch {
+  id: string;
+  score: number;
+  metadata: {
+    tableName: string;
+    columnName: string;
+    dataType: string;
+    description?: string;
+  };
+}
+
+// A table chosen for the prompt by schema linking, and why
+export interface LinkedTable {
+  tableName: string;
+  score: number;
+  reason: 'table' | 'column' | 'foreign-key';
+  columns: string[];
+}
+
+// An approved example put into the prompt, by similarity of its question
+export interface FewShotExample {
+  id: string;
+  prompt: string;
+  sql: string;
+  score: number;
+}
+
+export type SqlGuardRule =
+  | 'EMPTY'
+  | 'PARSE_ERROR'
+  | 'MULTIPLE_STATEMENTS'
+  | 'NOT_READ_ONLY'
+  | 'DATA_MODIFYING_CTE'
+  | 'LOCKING_CLAUSE'
+  | 'SELECT_INTO'
+  | 'DENIED_FUNCTION'
+  | 'RESERVED_SCHEMA';
+
+export type SqlGuardResult =
+  | { allowed: true; statementType: string }
+  | { allowed: false; rule: SqlGuardRule; reason: string; detail?: string };
+
+export type SqlErrorType =
+  | 'SYNTAX_ERROR'
+  | 'RELATION_NOT_FOUND'
+  | 'COLUMN_NOT_FOUND'
+  | 'AMBIGUOUS_COLUMN'
+  | 'TYPE_MISMATCH'
+  | 'GROUPING_ERROR'
+  | 'SAFETY_GUARD'
+  | 'COST_LIMIT'
+  | 'TIMEOUT'
+  | 'POLICY_VIOLATION'
+  | 'UNKNOWN_ERROR';
+
+export type PolicyRule =
+  | 'UNKNOWN_ROLE'
+  | 'UNPARSED_SQL'
+  | 'NOT_READ_ONLY'
+  | 'QUALIFIED_TABLE'
+  | 'SHADOWED_TABLE'
+  | 'TABLE_NOT_ALLOWED'
+  | 'COLUMN_NOT_ALLOWED';
+
+// hash: MD5 of the value, partial: first character then ***, null: always NULL
+export type ColumnMask = 'hash' | 'partial' | 'null';
+
+export interface TablePolicy {
+  // Readable columns; all of them when omitted or '*'
+  columns?: string[] | '*';
+  mask?: Record<string, ColumnMask>;
+  // SQL condition every row must meet, in the datasource's dialect
+  rowFilter?: string;
+}
+
+export interface RolePolicy {
+  // '*' reads everything unrestricted; otherwise only the listed tables and views
+  tables: Record<string, TablePolicy> | '*';
+}
+
+// Contents of POLICY_PATH
+export interface PolicyFile {
+  version: number;
+  // Role for callers whose API key has none, or without API keys; without it they are rejected
+  defaultRole?: string;
+  roles: Record<string, RolePolicy>;
+}
+
+// Tables and columns a statement refers to, from the guard's parse tree
+export interface SqlReferences {
+  statementType: string;
+  tables: { schema?: string; name: string }[];
+  columns: string[];
+  // Names defined by the statement itself: CTEs and output aliases
+  ctes: string[];
+  aliases: string[];
+}
+
+export interface SqlErrorAnalysis {
+  errorType: SqlErrorType;
+  originalError: string;
+  originalQuery: string | null;
+  suggestions: string[];
+  canRetry: boolean;
+}
+
+// One generate → validate → execute round of direct mode
+export interface SqlAttempt {
+  attempt: number;
+  sql: string;
+  stage?: 'guard' | 'explain' | 'execute';
+  estimate?: PlanEstimate;
+  error?: string;
+  errorType?: SqlErrorType;
+}
+
+export interface CatalogColumn {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  defaultValue?: string;
+  comment?: string;
+}
+
+export interface CatalogForeignKey {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface CatalogTable {
+  name: string;
+  type: 'table' | 'view';
+  comment?: string;
+  columns: CatalogColumn[];
+  primaryKey: string[];
+  foreignKeys: CatalogForeignKey[];
+}
+
+export interface SchemaCatalog {
+  datasource: string;
+  dialect: SqlDialect;
+  version: string;
+  loadedAt: string;
+  tables: CatalogTable[];
+}
+
+export type DatasourceDriverName = 'postgres' | 'mysql' | 'sqlite';
+
+// SQL flavour used for prompts and the guard; a driver may serve several (mysql, mariadb)
+export type SqlDialect = 'postgresql' | 'mysql' | 'mariadb' | 'sqlite';
+
+// One entry of DATASOURCES
+export interface DatasourceConfig {
+  driver: DatasourceDriverName;
+  // Defaults to the driver's own dialect
+  dialect?: SqlDialect;
+  // Connection string for postgres and mysql
+  url?: string;
+  // Database file for sqlite
+  path?: string;
+  // Connection pool size for postgres and mysql
+  poolSize?: number;
+}
+
+export interface DatasourceInfo {
+  name: string;
+  driver: DatasourceDriverName;
+  dialect: SqlDialect;
+  default: boolean;
+}
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface JsonSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  // Element schema of an array
+  items?: JsonSchemaProperty;
+}
+
+// JSON schema for the arguments of a tool the model may call
+export interface LlmToolParameters {
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: LlmToolParameters;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  // Set when the model sent arguments that are not valid JSON
+  argsError?: string;
+}
+
+export interface LlmCompletion {
+  content: string;
+  toolCalls?: LlmToolCall[];
+  usage?: LlmUsage;
+}
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'hash';
+
+export type VectorStoreName = 'pinecone' | 'pgvector' | 'memory';
+
+export type VectorMetadata = Record<string, string | number | boolean | string[]>;
+
+// Equality or membership per metadata key; all keys must match
+export type VectorFilter = Record<
+  string,
+  string | number | boolean | { $in: Array<string | number | boolean> }
+>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface SessionTurn {
+  prompt: string;
+  mode: QueryMode;
+  sql: string[];
+  columns: string[];
+  rowCount: number;
+  createdAt: string;
+}
+
+export interface QuerySession {
+  id: string;
+  title?: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: SessionTurn[];
+}
+
+export type QuerySessionSummary = Omit<QuerySession, 'turns'> & { turnCount: number };
+
+export type SessionStoreName = 'memory' | 'postgres';
+
+export type ApiKeyStoreName = 'memory' | 'postgres';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Start of the secret, to tell keys apart in listings
+  prefix: string;
+  // Access policy role the key's requests run as, see PolicyService
+  role?: string;
+  // 0 means unlimited
+  requestsPerMinute: number;
+  dailyTokenBudget: number;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+// One key's requests and LLM usage on one UTC day
+export interface ApiKeyUsage {
+  day: string;
+  requests: number;
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type ApiKeyDetails = ApiKey & { usage: ApiKeyUsage[] };
+
+export interface IssueApiKeyRequest {
+  name: string;
+  role?: string;
+  requestsPerMinute?: number;
+  dailyTokenBudget?: number;
+}
+
+// Who made a request: the API key, when keys are enabled, and the policy role
+export interface QueryCaller {
+  keyId?: string;
+  keyName?: string;
+  role?: string;
+}
+
+export type HistoryStoreName = 'memory' | 'postgres';
+
+export type HistoryKind = 'query' | 'stream' | 'export' | 'page' | 'replay' | 'saved';
+
+export type HistoryOutcome = 'success' | 'error' | 'cancelled' | 'clarification';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  kind: HistoryKind;
+  prompt?: string;
+  mode?: QueryMode;
+  datasource?: string;
+  sessionId?: string;
+  caller: QueryCaller;
+  // Every statement generated or run, in order
+  sql: string[];
+  // Tables the statements read, lowercased
+  tables: string[];
+  // ReAct thoughts and tool observations
+  reasoning?: string[];
+  observations?: string[];
+  attempts?: SqlAttempt[];
+  rowCount?: number;
+  durationMs: number;
+  usage: LlmUsage & { calls: number };
+  outcome: HistoryOutcome;
+  error?: string;
+  errorType?: SqlErrorType;
+  statusCode?: number;
+  // The entry this one replayed
+  replayOf?: string;
+}
+
+export interface HistoryFilter {
+  // API key id or name
+  caller?: string;
+  role?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  table?: string;
+  outcome?: HistoryOutcome;
+  kind?: HistoryKind;
+  datasource?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface ReplayRequest {
+  // Re-run the recorded SQL, or translate the prompt again with the current model
+  as?: 'sql' | 'prompt';
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+export interface ReplayResult {
+  as: 'sql' | 'prompt';
+  original: HistoryEntry;
+  // Missing when the replay could not be recorded
+  replay?: HistoryEntry;
+  rows: any[];
+  sqlChanged: boolean;
+  rowCountChanged: boolean;
+}
+
+export type SavedQueryStoreName = 'memory' | 'postgres';
+
+export type SavedQueryParamType = 'text' | 'integer' | 'number' | 'boolean' | 'date' | 'timestamp';
+
+// The parameter bound to $n is the n-th of SavedQuery.parameters
+export interface SavedQueryParam {
+  name: string;
+  type: SavedQueryParamType;
+  description?: string;
+  // Used when a run does not pass the parameter; without it the parameter is required
+  default?: string | number | boolean;
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description?: string;
+  sql: string;
+  datasource: string;
+  parameters: SavedQueryParam[];
+  // The question the SQL was generated for
+  prompt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /api/saved-queries; PATCH takes any part of it
+export interface SaveQueryRequest {
+  name: string;
+  description?: string;
+  sql: string;
+  datasource?: string;
+  parameters?: SavedQueryParam[];
+  prompt?: string;
+}
+
+export interface RunSavedQueryRequest {
+  // Values by parameter name
+  params?: Record<string, unknown>;
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+export type FeedbackStoreName = 'memory' | 'postgres';
+
+export type FeedbackRating = 'up' | 'down';
+
+// Review state of the example a feedback entry proposes
+export type ExampleStatus = 'pending' | 'approved' | 'rejected';
+
+export interface FeedbackRequest {
+  prompt: string;
+  // The SQL of the response being rated
+  sql?: string;
+  rating?: FeedbackRating;
+  // The SQL the response should have had
+  correctedSql?: string;
+  comment?: string;
+  datasource?: string;
+}
+
+export interface QueryFeedback {
+  id: string;
+  prompt: string;
+  sql?: string;
+  rating?: FeedbackRating;
+  correctedSql?: string;
+  comment?: string;
+  datasource: string;
+  caller: QueryCaller;
+  // The SQL to learn: the correction, or the rated SQL when rated up
+  exampleSql?: string;
+  // Only set when there is an example
+  status?: ExampleStatus;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+// Server-Sent Events emitted by POST /api/query/stream, in order of occurrence
+export type HealthStatus = 'up' | 'down';
+
+export interface HealthCheck {
+  status: HealthStatus;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+// GET /health/ready: ready only when every check is up
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<'database' | 'llm' | 'vectorStore', HealthCheck>;
+}
+
+export type QueryStreamEvent =
+  | { type: 'start'; mode: QueryMode }
+  | { type: 'token'; iteration?: number; token: string }
+  | { type: 'thought'; iteration: number; text: string }
+  | { type: 'action'; iteration: number; tool: string }
+  | { type: 'action_input'; iteration: number; input: string }
+  | { type: 'observation'; iteration: number; observation: string }
+  | { type: 'final_answer'; iteration: number; text: string }
+  | { type: 'sql'; sql: string; attempt?: number }
+  | {
+      type: 'sql_error';
+      attempt: number;
+      stage: SqlAttempt['stage'];
+      errorType: SqlErrorType;
+      message: string;
+    }
+  | { type: 'rows'; rowCount: number; rows: any[] }
+  | { type: 'answer'; text: string }
+  | { type: 'explanation'; explanation: SqlExplanation }
+  | { type: 'clarification'; clarification: Clarification }
+  | { type: 'done'; success: boolean; iterations?: number; error?: string }
+  | { type: 'error'; message: string; code: ApiErrorCode };
+
+// Runtime limits for generated SQL, see resolveQueryLimits
+export interface QueryLimits {
+  timeoutMs: number;
+  maxRows: number;
+  maxPlanCost: number;
+  maxPlanRows: number;
+}
+
+export interface PlanEstimate {
+  totalCost: number;
+  // Absent when the driver has no row estimate (SQLite)
+  planRows?: number;
+  // Tables the plan reads with a full sequential scan
+  fullScans?: string[];
+}
+
+export interface ResultColumn {
+  name: string;
+  // Postgres type OID, e.g. 1184 for timestamptz; other drivers map their types onto these
+  dataTypeID: number;
+}
+
+export interface GeneratedStreamResult {
+  rowCount: number;
+  truncated: boolean;
+  rowLimit: number;
+  estimate: PlanEstimate;
+}
+
+export interface GeneratedQueryResult<T = any> {
+  rows: T[];
+  // More rows were available than the cap allowed
+  truncated: boolean;
+  rowLimit: number;
+  estimate: PlanEstimate;
+}
+
+export interface PageInfo {
+  offset: number;
+  pageSize: number;
+  // Pass to POST /api/query/page for the next page; absent on the last page
+  nextPageToken?: string;
+  // Exact on the last page, otherwise the planner's estimate, or null without one
+  totalRows: number | null;
+  totalExact: boolean;
+}
+
+export interface QueryPage<T = any> {
+  rows: T[];
+  truncated: boolean;
+  rowLimit: number;
+  page: PageInfo;
+}
+
+// Streaming callback, cancellation and limits for a single query run
+export interface QueryRunOptions {
+  onEvent?: (event: QueryStreamEvent) => void;
+  signal?: AbortSignal;
+  limits?: QueryLimits;
+  pageSize?: number;
+  // Registered datasource name; the default datasource when unset
+  datasource?: string;
+  // Access policy role of the caller's API key, see PolicyService
+  role?: string;
+  // Answered clarification questions, see clarification.ts
+  clarifications?: ClarificationAnswer[];
+  // Per-request overrides of OPENAI_MODEL and REACT_MAX_ITERATIONS
+  model?: string;
+  maxIterations?: number;
+}
@@ -0,0 +1,114 @@
+import { Injectable, PipeTransform, Type, mixin } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RequestValidationError } from './errors';
+import { AppConfig, AppConfigService } from './config';
+import { FieldError } from './types';
+
+/**
+ * Reads a request body field by field, collecting every problem instead of
+ * stopping at the first one. Missing optional fields read as undefined and
+ * unknown fields are ignored. `done()` throws a RequestValidationError (400)
+ * listing all of them.
+ */
+export class BodyValidator {
+  private readonly errors: FieldError[] = [];
+  private readonly body: Record<string, any>;
+
+  constructor(body: unknown) {
+    const isObject = !!body && typeof body === 'object' && !Array.isArray(body);
+    if (!isObject) this.fail('body', 'must be a JSON object');
+    this.body = isObject ? (body as Record<string, any>) : {};
+  }
+
+  has(field: string): boolean {
+    return this.body[field] !== undefined && this.body[field] !== null;
+  }
+
+  // Trimmed; an empty string counts as missing
+  string(
+    field: string,
+    options: { required?: boolean; maxLength?: number } = {},
+  ): string | undefined {
+    const value = this.body[field];
+    if (value === undefined || value === null || value === '') {
+      return options.required ? this.fail(field, 'is required') : undefined;
+    }
+    if (typeof value !== 'string') return this.fail(field, 'must be a string');
+    const text = value.trim();
+    if (!text) return options.required ? this.fail(field, 'must not be blank') : undefined;
+    if (options.maxLength && text.length > options.maxLength) {
+      return this.fail(field, `must be at most ${options.maxLength} characters`);
+    }
+    return text;
+  }
+
+  integer(field: string, range: { min?: number; max?: number } = {}): number | undefined {
+    const value = this.body[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Number.isInteger(value)) return this.fail(field, 'must be an integer');
+    if (range.min !== undefined && value < range.min) {
+      return this.fail(field, `must be at least ${range.min}`);
+    }
+    if (range.max !== undefined && value > range.max) {
+      return this.fail(field, `must be at most ${range.max}`);
+    }
+    return value;
+  }
+
+  boolean(field: string): boolean | undefined {
+    const value = this.body[field];
+    if (value === undefined || value === null) return undefined;
+    return typeof value === 'boolean' ? value : this.fail(field, 'must be true or false');
+  }
+
+  oneOf<T extends string>(field: string, values: readonly T[]): T | undefined {
+    const value = this.body[field];
+    if (value === undefined || value === null) return undefined;
+    return values.includes(value) ? value : this.fail(field, `must be one of ${values.join(', ')}`);
+  }
+
+  // Each item goes through `read`, which returns undefined after calling fail() for a bad one
+  list<T>(
+    field: string,
+    read: (item: any, path: string) => T | undefined,
+    options: { maxItems?: number } = {},
+  ): T[] | undefined {
+    const value = this.body[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) return this.fail(field, 'must be a list');
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      return this.fail(field, `must have at most ${options.maxItems} items`);
+    }
+    return value.map((item, index) => read(item, `${field}.${index}`));
+  }
+
+  fail(field: string, message: string): undefined {
+    this.errors.push({ field, message });
+    return undefined;
+  }
+
+  done(): void {
+    if (this.errors.length > 0) {
+      throw new RequestValidationError(this.errors);
+    }
+  }
+}
+
+/**
+ * A pipe that validates a @Body() with a parse function, e.g.
+ * @Body(ValidBody(parseQueryRequest)). The function also gets the
+ * configuration, for limits such as QUERY_PROMPT_MAX_LENGTH.
+ */
+export function ValidBody<T>(
+  parse: (body: unknown, config: AppConfigService) => T,
+): Type<PipeTransform<unknown, T>> {
+  @Injectable()
+  class ValidBodyPipe implements PipeTransform<unknown, T> {
+    constructor(private readonly config: ConfigService<AppConfig, true>) {}
+
+    transform(value: unknown): T {
+      return parse(value, this.config);
+    }
+  }
+  return mixin(ValidBodyPipe);
+}
@@ -0,0 +1,78 @@
+import { Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { EmbeddingProvider } from './embedding.provider';
+import { VectorFilter, VectorMatch, VectorRecord, VectorStoreName } from './types';
+import { AppConfigService } from './config';
+import { PineconeVectorStore } from './pinecone-vector-store';
+import { PgVectorStore } from './pgvector-vector-store';
+import { MemoryVectorStore } from './memory-vector-store';
+
+export const VECTOR_STORE = 'VECTOR_STORE';
+
+export interface VectorQueryOptions {
+  topK: number;
+  namespace?: string;
+  filter?: VectorFilter;
+}
+
+export interface VectorListOptions {
+  namespace?: string;
+  prefix?: string;
+}
+
+/**
+ * Similarity search backend. Inject it with `@Inject(VECTOR_STORE)`; the
+ * implementation is chosen by VECTOR_STORE. Scores are cosine similarity.
+ */
+export interface VectorStore {
+  readonly name: VectorStoreName;
+  upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+  query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+  list(options?: VectorListOptions): Promise<string[]>;
+  delete(ids: string[], namespace?: string): Promise<void>;
+  deleteAll(namespace?: string): Promise<void>;
+  // Resolves when the backend answers; for the readiness check
+  ping(): Promise<void>;
+}
+
+/**
+ * Shared filter semantics for backends that evaluate filters themselves.
+ */
+export function matchesFilter(metadata: Record<string, unknown>, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = metadata[key];
+    if (expected !== null && typeof expected === 'object') {
+      return expected.$in.includes(actual as string | number | boolean);
+    }
+    return actual === expected;
+  });
+}
+
+export function createVectorStore(
+  db: DbService,
+  embeddings: EmbeddingProvider,
+  config: AppConfigService,
+): VectorStore {
+  const logger = new Logger('VectorStore');
+  const vectorStore = config.get('vectorStore', { infer: true });
+  const name = vectorStore.name;
+
+  let store: VectorStore;
+  switch (name) {
+    case 'pinecone':
+      store = new PineconeVectorStore(vectorStore.pineconeApiKey, vectorStore.pineconeIndexName);
+      break;
+    case 'pgvector':
+      store = new PgVectorStore(db, embeddings.dimensions);
+      break;
+    case 'memory':
+      store = new MemoryVectorStore();
+      break;
+    default:
+      throw new Error(`Unknown VECTOR_STORE: ${name}`);
+  }
+
+  logger.log(`Using ${store.name} vector store`);
+  return store;
+}
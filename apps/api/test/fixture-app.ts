@@ -0,0 +1,73 @@
+import type { INestApplication } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+const ROOT = resolve(__dirname, '../../..');
+
+export interface FixtureApp {
+  app: INestApplication;
+  // Base URL of the listening server, e.g. http://127.0.0.1:41234
+  url: string;
+  post(path: string, body: unknown, headers?: Record<string, string>): Promise<Response>;
+  get(path: string, headers?: Record<string, string>): Promise<Response>;
+  close(): Promise<void>;
+}
+
+// Builds the sample database (db/sqlite) as a SQLite file in dir and returns its path
+export function createSampleDatabase(dir: string): string {
+  const path = join(dir, 'sql_ai.sqlite');
+  const db = new Database(path);
+  const sqlDir = join(ROOT, 'db/sqlite');
+  for (const file of readdirSync(sqlDir).sort()) {
+    if (file.endsWith('.sql')) db.exec(readFileSync(join(sqlDir, file), 'utf8'));
+  }
+  db.close();
+  return path;
+}
+
+/**
+ * Boots the whole API offline, for specs: the fixture LLM replaying
+ * fixtures/llm.json, hash embeddings, in-memory stores and a fresh SQLite
+ * copy of the sample database (db/sqlite) as the default datasource
+ * `local`. `env` overrides any of those settings. AppModule is loaded here,
+ * after the environment is set, because ConfigModule validates it on import.
+ */
+export async function startFixtureApp(env: Record<string, string> = {}): Promise<FixtureApp> {
+  const dir = mkdtempSync(join(tmpdir(), 'sql-ai-'));
+  const path = createSampleDatabase(dir);
+
+  Object.assign(process.env, {
+    LLM_PROVIDER: 'fixture',
+    LLM_FIXTURES_PATH: join(ROOT, 'fixtures/llm.json'),
+    EMBEDDING_PROVIDER: 'hash',
+    VECTOR_STORE: 'memory',
+    DATASOURCES: JSON.stringify({ local: { driver: 'sqlite', path } }),
+    DEFAULT_DATASOURCE: 'local',
+    REACT_MODE_ENABLED: 'true',
+    ...env,
+  });
+  const { AppModule } = await import('../src/app.module');
+  const app = await NestFactory.create(AppModule, { logger: false });
+  await app.listen(0, '127.0.0.1');
+  const url = await app.getUrl();
+
+  const request = (method: string, route: string, body?: unknown, headers = {}) =>
+    fetch(`${url}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  return {
+    app,
+    url,
+    post: (route, body, headers) => request('POST', route, body, headers),
+    get: (route, headers) => request('GET', route, undefined, headers),
+    close: async () => {
+      await app.close();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
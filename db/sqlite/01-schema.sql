@@ -0,0 +1,55 @@
+-- SQLite schema for SQL AI Challenge, mirroring db/postgresql/01-schema.sql
+-- Loaded by `npm run db:sqlite`; timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS' text
+
+DROP VIEW IF EXISTS recent_activity;
+DROP TABLE IF EXISTS contacts;
+DROP TABLE IF EXISTS cases;
+
+CREATE TABLE contacts (
+    id INTEGER PRIMARY KEY,
+    first_name VARCHAR(100) NOT NULL,
+    last_name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE cases (
+    id INTEGER PRIMARY KEY,
+    topic TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_contacts_created_at ON contacts(created_at);
+CREATE INDEX idx_contacts_name ON contacts(first_name, last_name);
+CREATE INDEX idx_cases_created_at ON cases(created_at);
+
+CREATE TRIGGER update_contacts_updated_at
+    AFTER UPDATE OF first_name, last_name, created_at ON contacts
+    FOR EACH ROW
+BEGIN
+    UPDATE contacts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER update_cases_updated_at
+    AFTER UPDATE OF topic, created_at ON cases
+    FOR EACH ROW
+BEGIN
+    UPDATE cases SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+CREATE VIEW recent_activity AS
+SELECT
+    'contact' as type,
+    id,
+    first_name || ' ' || last_name as description,
+    created_at
+FROM contacts
+UNION ALL
+SELECT
+    'case' as type,
+    id,
+    topic as description,
+    created_at
+FROM cases
+ORDER BY created_at DESC;
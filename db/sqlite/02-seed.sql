@@ -0,0 +1,59 @@
+-- Seed data for SQLite, the same rows as db/postgresql/02-seed.sql
+
+-- Insert 127 contacts with varied created_at dates
+WITH RECURSIVE series(n) AS (
+    SELECT 1
+    UNION ALL
+    SELECT n + 1 FROM series WHERE n < 127
+)
+INSERT INTO contacts (first_name, last_name, created_at)
+SELECT
+    'First' || n,
+    'Last' || n,
+    CASE
+        WHEN n % 3 = 0 THEN '2023-06-01 00:00:00'
+        WHEN n % 3 = 1 THEN '2024-06-01 00:00:00'
+        ELSE '2025-06-01 00:00:00'
+    END
+FROM series;
+
+-- Insert varied cases with different topics and dates
+INSERT INTO cases (topic, created_at) VALUES
+    ('Need help with onboarding', '2023-05-10 00:00:00'),
+    ('Help: account locked', '2024-11-20 00:00:00'),
+    ('General question about features', '2022-01-01 00:00:00'),
+    ('Billing support required', '2026-02-02 00:00:00'),
+    ('Password reset assistance', '2023-08-15 00:00:00'),
+    ('Technical issue with login', '2024-03-22 00:00:00'),
+    ('Feature request for dashboard', '2024-09-10 00:00:00'),
+    ('Help with data export', '2023-12-05 00:00:00'),
+    ('Integration support needed', '2024-07-18 00:00:00'),
+    ('Account upgrade inquiry', '2025-01-30 00:00:00');
+
+-- Update some records to have recent updated_at timestamps
+UPDATE contacts
+SET first_name = 'Updated' || id
+WHERE id IN (1, 25, 50, 75, 100);
+UPDATE contacts
+SET updated_at = datetime('now', '-1 day')
+WHERE id IN (1, 25, 50, 75, 100);
+
+UPDATE cases
+SET topic = topic || ' (Updated)'
+WHERE id IN (1, 3, 5);
+UPDATE cases
+SET updated_at = datetime('now', '-2 hours')
+WHERE id IN (1, 3, 5);
+
+-- Create some test data with specific patterns for better NL2SQL testing
+INSERT INTO contacts (first_name, last_name, created_at) VALUES
+    ('John', 'Smith', '2024-01-15 00:00:00'),
+    ('Jane', 'Doe', '2024-02-20 00:00:00'),
+    ('Bob', 'Johnson', '2024-03-10 00:00:00'),
+    ('Alice', 'Williams', '2024-04-05 00:00:00'),
+    ('Charlie', 'Brown', '2024-05-12 00:00:00');
+
+INSERT INTO cases (topic, created_at) VALUES
+    ('Urgent: System down', '2024-08-01 00:00:00'),
+    ('Question about pricing', '2024-08-05 00:00:00'),
+    ('Help needed with setup', '2024-08-10 00:00:00');
@@ -0,0 +1,52 @@
+import { compareRows, normalizeSql, normalizeValue } from './eval-scoring';
+
+describe('eval scoring', () => {
+  it('treats numbers and numeric text alike', () => {
+    expect(normalizeValue(4)).toBe(normalizeValue('4'));
+    expect(normalizeValue('4.0')).toBe(normalizeValue(4));
+    expect(normalizeValue(BigInt(132))).toBe('132');
+    expect(normalizeValue('4 cases')).toBe('4 cases');
+    expect(normalizeValue(null)).toBe('null');
+    expect(normalizeValue(new Date('2026-10-01T00:00:00Z'))).toBe('2026-10-01T00:00:00.000Z');
+  });
+
+  it('ignores row order, column order and aliases', () => {
+    expect(
+      compareRows(
+        [
+          [1, 'Ada'],
+          [2, 'Grace'],
+        ],
+        [
+          { name: 'Grace', contact_id: '2' },
+          { name: 'Ada', contact_id: 1 },
+        ],
+      ),
+    ).toBeNull();
+  });
+
+  it('lists missing and extra rows, counting duplicates', () => {
+    expect(compareRows([[1], [1], [2]], [{ id: 1 }, { id: 3 }])).toEqual({
+      expectedCount: 3,
+      actualCount: 2,
+      missing: [['1'], ['2']],
+      extra: [['3']],
+    });
+  });
+
+  it('samples at most five rows of each difference', () => {
+    const diff = compareRows(
+      [],
+      Array.from({ length: 8 }, (_, id) => ({ id })),
+    );
+
+    expect(diff?.actualCount).toBe(8);
+    expect(diff?.extra).toHaveLength(5);
+  });
+
+  it('compares SQL without whitespace, case or a trailing semicolon', () => {
+    expect(normalizeSql('SELECT  COUNT(*)\nFROM contacts;')).toBe(
+      normalizeSql('select count(*) from contacts'),
+    );
+  });
+});
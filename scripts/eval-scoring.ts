@@ -0,0 +1,72 @@
+/**
+ * How the eval harness (scripts/eval.ts) scores a result against the
+ * expected rows and SQL, kept apart so it can be tested without the app.
+ */
+
+const DIFF_SAMPLE = 5;
+const NUMERIC_TEXT = /^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i;
+
+export interface ResultDiff {
+  expectedCount: number;
+  actualCount: number;
+  // Up to DIFF_SAMPLE rows each, as normalized values
+  missing: string[][];
+  extra: string[][];
+}
+
+// Value-level normalization: 4, "4" and 4.0 are equal, dates compare as ISO text
+export function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'bigint') return String(Number(value));
+  if (typeof value === 'string' && NUMERIC_TEXT.test(value)) return String(Number(value));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Aliases and column order are ignored by sorting each row's values
+function normalizeRows(rows: any[]): string[][] {
+  return rows.map((row) =>
+    (Array.isArray(row) ? row : Object.values(row)).map(normalizeValue).sort(),
+  );
+}
+
+// Rows are matched as a multiset; null when the result is the expected one
+export function compareRows(expected: any[], actual: any[]): ResultDiff | null {
+  const remaining = new Map<string, number>();
+  const expectedRows = normalizeRows(expected);
+  for (const row of expectedRows) {
+    const key = JSON.stringify(row);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  const extra: string[][] = [];
+  for (const row of normalizeRows(actual)) {
+    const key = JSON.stringify(row);
+    if (remaining.get(key)) {
+      remaining.set(key, remaining.get(key) - 1);
+    } else {
+      extra.push(row);
+    }
+  }
+  const missing = [...remaining.entries()].flatMap(([key, count]) =>
+    Array.from({ length: count }, () => JSON.parse(key) as string[]),
+  );
+
+  if (missing.length === 0 && extra.length === 0) return null;
+  return {
+    expectedCount: expected.length,
+    actualCount: actual.length,
+    missing: missing.slice(0, DIFF_SAMPLE),
+    extra: extra.slice(0, DIFF_SAMPLE),
+  };
+}
+
+// Whitespace, case and a trailing semicolon do not count
+export function normalizeSql(sql: string): string {
+  return sql
+    .replace(/;+\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
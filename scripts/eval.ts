@@ -0,0 +1,299 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { AppModule } from '../apps/api/src/app.module';
+import { DbService } from '../apps/api/src/db.service';
+import { Nl2SqlService } from '../apps/api/src/nl2sql.service';
+import { ReactAgentService } from '../apps/api/src/react-agent.service';
+import { LLM_PROVIDER, LlmProvider } from '../apps/api/src/llm.provider';
+import { LlmUsageTotals, meterLlmUsage } from '../apps/api/src/llm-usage';
+import { resolveQueryLimits } from '../apps/api/src/query-run';
+import { QueryLimits, QueryMode } from '../apps/api/src/types';
+import { AppConfig } from '../apps/api/src/config';
+import { ResultDiff, compareRows, normalizeSql } from './eval-scoring';
+
+/**
+ * NL→SQL benchmark: runs every question of a golden dataset through direct
+ * and/or ReAct mode, executes the generated SQL and compares the result with
+ * the expected rows (given inline, or from running the expected SQL).
+ *
+ *   npm run eval -- [--dataset fixtures/golden.json] [--mode direct|react|both]
+ *                   [--case <id>] [--out report.json] [--min-accuracy 0.9]
+ *
+ * Uses whatever LLM_PROVIDER is configured, including the offline fixture one.
+ */
+
+interface GoldenCase {
+  id: string;
+  question: string;
+  expectedSql?: string;
+  // Rows as arrays of values or as objects; column names are ignored
+  expectedRows?: any[];
+  modes?: QueryMode[];
+  // Registered datasource to ask; the default datasource when unset
+  datasource?: string;
+}
+
+interface GoldenDataset {
+  version: number;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+interface CaseResult {
+  id: string;
+  mode: QueryMode;
+  question: string;
+  passed: boolean;
+  sql?: string;
+  expectedSql?: string;
+  // Same SQL text after whitespace, case and trailing-semicolon normalization
+  sqlMatch?: boolean;
+  latencyMs: number;
+  usage: LlmUsageTotals;
+  truncated?: boolean;
+  diff?: ResultDiff;
+  error?: string;
+}
+
+interface ModeSummary {
+  cases: number;
+  passed: number;
+  accuracy: number;
+  sqlMatches: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+function parseArgs(argv: string[]) {
+  const options = {
+    dataset: 'fixtures/golden.json',
+    modes: ['direct', 'react'] as QueryMode[],
+    cases: [] as string[],
+    out: '',
+    minAccuracy: 0,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--dataset':
+        options.dataset = value;
+        break;
+      case '--mode':
+        options.modes = value === 'both' ? ['direct', 'react'] : [value as QueryMode];
+        break;
+      case '--case':
+        options.cases.push(value);
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      case '--min-accuracy':
+        options.minAccuracy = parseFloat(value);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+    i++;
+  }
+  return options;
+}
+
+function loadDataset(path: string): GoldenDataset {
+  const dataset = JSON.parse(readFileSync(path, 'utf8')) as GoldenDataset;
+  if (!dataset.version || !Array.isArray(dataset.cases)) {
+    throw new Error(`${path} is not a golden dataset (needs "version" and "cases")`);
+  }
+  for (const item of dataset.cases) {
+    if (!item.id || !item.question || (!item.expectedSql && !item.expectedRows)) {
+      throw new Error(
+        `Case ${item.id || '?'} needs an id, a question and expectedSql or expectedRows`,
+      );
+    }
+  }
+  return dataset;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function summarize(results: CaseResult[]): ModeSummary {
+  const latencies = results.map((result) => result.latencyMs);
+  const total = (key: keyof LlmUsageTotals) =>
+    results.reduce((sum, result) => sum + result.usage[key], 0);
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    cases: results.length,
+    passed,
+    accuracy: results.length ? passed / results.length : 0,
+    sqlMatches: results.filter((result) => result.sqlMatch).length,
+    latencyMs: {
+      mean: Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / (latencies.length || 1)),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+    llmCalls: total('calls'),
+    promptTokens: total('promptTokens'),
+    completionTokens: total('completionTokens'),
+    totalTokens: total('totalTokens'),
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dataset = loadDataset(options.dataset);
+  const cases = dataset.cases.filter(
+    (item) => options.cases.length === 0 || options.cases.includes(item.id),
+  );
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+  const nl2sql = app.get(Nl2SqlService);
+  const reactAgent = app.get(ReactAgentService);
+  const db = app.get(DbService);
+  const llm = app.get<LlmProvider>(LLM_PROVIDER);
+  const config = app.get<ConfigService<AppConfig, true>>(ConfigService);
+  const limits: QueryLimits = resolveQueryLimits(config.get('sql', { infer: true }));
+
+  const expectedRows = new Map<string, any[]>();
+  const expectedFor = async (item: GoldenCase): Promise<any[]> => {
+    if (item.expectedRows) return item.expectedRows;
+    if (!expectedRows.has(item.id)) {
+      const { rows } = await db.execGenerated(item.expectedSql, limits, {
+        datasource: item.datasource,
+      });
+      expectedRows.set(item.id, rows);
+    }
+    return expectedRows.get(item.id);
+  };
+
+  // Generates and executes SQL for one question; only this part is timed
+  const runMode = async (mode: QueryMode, question: string, datasource?: string) => {
+    if (mode === 'direct') {
+      const result = await nl2sql.runDirect(question, [], {
+        limits,
+        pageSize: limits.maxRows,
+        datasource,
+      });
+      return { sql: result.sql, rows: result.rows, truncated: result.truncated };
+    }
+    const result = await reactAgent.processQuery(question, [], { limits, datasource });
+    const sql = result.sql[result.sql.length - 1];
+    if (!result.success || !sql) {
+      throw new Error(result.reasoning[result.reasoning.length - 1] || 'Agent ran no SQL');
+    }
+    const { rows, truncated } = await db.execGenerated(sql, limits, { datasource });
+    return { sql, rows, truncated };
+  };
+
+  const results: CaseResult[] = [];
+  for (const item of cases) {
+    for (const mode of options.modes.filter((name) => !item.modes || item.modes.includes(name))) {
+      const started = Date.now();
+      const base = { id: item.id, mode, question: item.question, expectedSql: item.expectedSql };
+      let actual: { sql: string; rows: any[]; truncated: boolean };
+      let usage: LlmUsageTotals;
+      try {
+        ({ result: actual, usage } = await meterLlmUsage(() =>
+          runMode(mode, item.question, item.datasource),
+        ));
+      } catch (error) {
+        results.push({
+          ...base,
+          passed: false,
+          latencyMs: Date.now() - started,
+          usage: { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          error: error.message,
+        });
+        continue;
+      }
+      const latencyMs = Date.now() - started;
+
+      const diff = compareRows(await expectedFor(item), actual.rows);
+      results.push({
+        ...base,
+        passed: !diff,
+        sql: actual.sql,
+        sqlMatch: item.expectedSql
+          ? normalizeSql(item.expectedSql) === normalizeSql(actual.sql)
+          : undefined,
+        latencyMs,
+        usage,
+        truncated: actual.truncated || undefined,
+        diff: diff || undefined,
+      });
+    }
+  }
+  await app.close();
+
+  const summary = Object.fromEntries(
+    options.modes.map((mode) => [
+      mode,
+      summarize(results.filter((result) => result.mode === mode)),
+    ]),
+  );
+  const report = {
+    dataset: { path: options.dataset, version: dataset.version },
+    llm: { provider: llm.name, model: llm.model },
+    finishedAt: new Date().toISOString(),
+    summary,
+    results,
+  };
+
+  console.log(
+    `\n--- NL→SQL Evaluation (dataset v${dataset.version}, ${llm.name}/${llm.model}) ---`,
+  );
+  console.table(
+    results.map((result) => ({
+      case: result.id,
+      mode: result.mode,
+      passed: result.passed,
+      sqlMatch: result.sqlMatch,
+      ms: result.latencyMs,
+      tokens: result.usage.totalTokens,
+      error: result.error,
+    })),
+  );
+  for (const result of results.filter((item) => item.diff)) {
+    console.log(`\n${result.id} (${result.mode}): ${result.sql}`);
+    console.log(
+      `  expected ${result.diff.expectedCount} rows, got ${result.diff.actualCount}`,
+      `\n  missing: ${JSON.stringify(result.diff.missing)}\n  extra:   ${JSON.stringify(result.diff.extra)}`,
+    );
+  }
+  console.table(
+    Object.entries(summary).map(([mode, stats]) => ({
+      mode,
+      accuracy: `${(stats.accuracy * 100).toFixed(1)}% (${stats.passed}/${stats.cases})`,
+      sqlMatches: stats.sqlMatches,
+      meanMs: stats.latencyMs.mean,
+      p95Ms: stats.latencyMs.p95,
+      llmCalls: stats.llmCalls,
+      tokens: stats.totalTokens,
+    })),
+  );
+
+  if (options.out) {
+    writeFileSync(options.out, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Report written to ${options.out}`);
+  }
+  const failing = Object.entries(summary).filter(
+    ([, stats]) => stats.accuracy < options.minAccuracy,
+  );
+  if (failing.length > 0) {
+    console.error(
+      `Accuracy below ${options.minAccuracy} for: ${failing.map(([mode]) => mode).join(', ')}`,
+    );
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
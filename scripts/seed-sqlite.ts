@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+import { mkdirSync, readFileSync, readdirSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+/**
+ * Builds a local SQLite copy of the sample database from db/sqlite/*.sql,
+ * for trying the sqlite driver or running the evaluation without Postgres:
+ *
+ *   npm run db:sqlite -- [path]    (default data/sql_ai.sqlite)
+ *   DATASOURCES='{"local":{"driver":"sqlite","path":"data/sql_ai.sqlite"}}'
+ */
+const SQL_DIR = resolve(__dirname, '../db/sqlite');
+
+function main() {
+  const path = resolve(process.argv[2] || 'data/sql_ai.sqlite');
+  mkdirSync(dirname(path), { recursive: true });
+
+  const db = new Database(path);
+  try {
+    for (const file of readdirSync(SQL_DIR)
+      .filter((name) => name.endsWith('.sql'))
+      .sort()) {
+      db.exec(readFileSync(join(SQL_DIR, file), 'utf8'));
+      console.log(`Applied ${file}`);
+    }
+    const counts = ['contacts', 'cases'].map(
+      (table) => `${table}: ${(db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as any).n}`,
+    );
+    console.log(`SQLite database ready at ${path} (${counts.join(', ')})`);
+  } finally {
+    db.close();
+  }
+}
+
+main();